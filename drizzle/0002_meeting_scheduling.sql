@@ -0,0 +1,5 @@
+-- Add scheduling fields to meetings
+ALTER TABLE "meetings" ADD COLUMN "scheduled_at" timestamp;
+ALTER TABLE "meetings" ADD COLUMN "duration_minutes" integer NOT NULL DEFAULT 30;
+
+CREATE INDEX "idx_meetings_status_scheduled_at" ON "meetings"("status", "scheduled_at");
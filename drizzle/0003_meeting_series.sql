@@ -0,0 +1,24 @@
+-- Add recurring meeting series
+CREATE TYPE "recurrence_frequency" AS ENUM ('daily', 'weekly', 'monthly');
+
+CREATE TABLE "meeting_series" (
+    "id" text PRIMARY KEY,
+    "name" text NOT NULL,
+    "user_id" text NOT NULL REFERENCES "user"("id") ON DELETE CASCADE,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "frequency" "recurrence_frequency" NOT NULL,
+    "interval" integer NOT NULL DEFAULT 1,
+    "by_weekday" integer[],
+    "starts_at" timestamp NOT NULL,
+    "duration_minutes" integer NOT NULL DEFAULT 30,
+    "until" timestamp,
+    "occurrence_count" integer,
+    "exceptions" text[] NOT NULL DEFAULT '{}'::text[],
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE "meetings" ADD COLUMN "series_id" text REFERENCES "meeting_series"("id") ON DELETE SET NULL;
+
+CREATE INDEX "idx_meeting_series_user_id" ON "meeting_series"("user_id");
+CREATE UNIQUE INDEX "meetings_series_occurrence_idx" ON "meetings"("series_id", "scheduled_at");
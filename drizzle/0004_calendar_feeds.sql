@@ -0,0 +1,10 @@
+-- iCalendar export: per-meeting SEQUENCE and per-user feed tokens
+ALTER TABLE "meetings" ADD COLUMN "sequence" integer NOT NULL DEFAULT 0;
+
+CREATE TABLE "calendar_feeds" (
+    "id" text PRIMARY KEY,
+    "user_id" text NOT NULL UNIQUE REFERENCES "user"("id") ON DELETE CASCADE,
+    "token" text NOT NULL UNIQUE,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,19 @@
+-- Meeting invitations; open access becomes an explicit per-meeting setting
+ALTER TABLE "meetings" ADD COLUMN "is_public" boolean NOT NULL DEFAULT false;
+
+CREATE TYPE "invitation_status" AS ENUM ('pending', 'accepted', 'revoked');
+
+CREATE TABLE "meeting_invitations" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "email" text NOT NULL,
+    "token" text NOT NULL UNIQUE,
+    "status" "invitation_status" NOT NULL DEFAULT 'pending',
+    "invited_by_id" text NOT NULL REFERENCES "user"("id") ON DELETE CASCADE,
+    "accepted_by_id" text REFERENCES "user"("id") ON DELETE SET NULL,
+    "accepted_at" timestamp,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "meeting_invitations_meeting_email_idx" ON "meeting_invitations"("meeting_id", "email");
@@ -0,0 +1,6 @@
+-- Host-controlled waiting room
+ALTER TABLE "meetings" ADD COLUMN "waiting_room_enabled" boolean NOT NULL DEFAULT false;
+
+CREATE TYPE "participant_status" AS ENUM ('invited', 'waiting', 'admitted', 'rejected');
+
+ALTER TABLE "meeting_participants" ADD COLUMN "status" "participant_status" NOT NULL DEFAULT 'admitted';
@@ -0,0 +1,4 @@
+-- Distinguish live browser captures from Stream's native transcription
+ALTER TABLE "conversation_chunks" ADD COLUMN "source" text NOT NULL DEFAULT 'browser';
+
+CREATE INDEX "idx_conversation_chunks_meeting_source" ON "conversation_chunks"("meeting_id", "source");
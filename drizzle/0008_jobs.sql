@@ -0,0 +1,21 @@
+-- Postgres-backed job queue for meeting post-processing
+CREATE TYPE "job_status" AS ENUM ('pending', 'running', 'completed', 'failed');
+
+CREATE TABLE "jobs" (
+    "id" text PRIMARY KEY,
+    "type" text NOT NULL,
+    "meeting_id" text REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "payload" text NOT NULL DEFAULT '{}',
+    "status" "job_status" NOT NULL DEFAULT 'pending',
+    "attempts" integer NOT NULL DEFAULT 0,
+    "max_attempts" integer NOT NULL DEFAULT 5,
+    "run_at" timestamp NOT NULL DEFAULT NOW(),
+    "locked_at" timestamp,
+    "last_error" text,
+    "completed_at" timestamp,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "idx_jobs_status_run_at" ON "jobs"("status", "run_at");
+CREATE INDEX "idx_jobs_meeting_id" ON "jobs"("meeting_id");
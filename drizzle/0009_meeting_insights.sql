@@ -0,0 +1,126 @@
+-- Typed storage for meeting summaries and insights (previously JSON in meetings.summary)
+CREATE TYPE "insights_source" AS ENUM ('groq', 'heuristic', 'hf-sst2', 'hybrid');
+
+CREATE TABLE "meeting_summaries" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL UNIQUE REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "summary_text" text NOT NULL,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE "meeting_sentiment" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "participant_name" text,
+    "score" double precision NOT NULL,
+    "confidence" double precision,
+    "trend" double precision[],
+    "notes" text[] NOT NULL DEFAULT '{}'::text[],
+    "source" "insights_source",
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE "participant_expertise" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "participant_name" text NOT NULL,
+    "skill" text NOT NULL,
+    "confidence" double precision NOT NULL,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE "role_suggestions" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "participant_name" text NOT NULL,
+    "role" text NOT NULL,
+    "confidence" double precision NOT NULL,
+    "reasoning" text,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "idx_meeting_sentiment_meeting_id" ON "meeting_sentiment"("meeting_id");
+CREATE UNIQUE INDEX "participant_expertise_meeting_participant_skill_idx" ON "participant_expertise"("meeting_id", "participant_name", "skill");
+CREATE INDEX "idx_role_suggestions_meeting_id" ON "role_suggestions"("meeting_id");
+
+-- Backfill from the legacy meetings.summary column. Plain-text summaries become summary rows;
+-- JSON payloads ({ summaryText, insights }) are unpacked. Malformed insights are skipped per meeting.
+DO $$
+DECLARE
+    r record;
+    payload jsonb;
+    insights jsonb;
+    src text;
+BEGIN
+    FOR r IN SELECT "id", "summary" FROM "meetings" WHERE "summary" IS NOT NULL AND btrim("summary") <> '' LOOP
+        BEGIN
+            payload := r."summary"::jsonb;
+        EXCEPTION WHEN others THEN
+            payload := NULL;
+        END;
+        IF payload IS NULL OR jsonb_typeof(payload) <> 'object' THEN
+            payload := jsonb_build_object('summaryText', r."summary");
+        END IF;
+
+        IF nullif(btrim(payload ->> 'summaryText'), '') IS NOT NULL THEN
+            INSERT INTO "meeting_summaries" ("id", "meeting_id", "summary_text")
+            VALUES (gen_random_uuid()::text, r."id", payload ->> 'summaryText')
+            ON CONFLICT ("meeting_id") DO NOTHING;
+        END IF;
+
+        insights := payload -> 'insights';
+        CONTINUE WHEN insights IS NULL OR jsonb_typeof(insights) <> 'object';
+
+        BEGIN
+            src := insights ->> 'source';
+            IF src NOT IN ('groq', 'heuristic', 'hf-sst2', 'hybrid') THEN
+                src := NULL;
+            END IF;
+
+            INSERT INTO "meeting_sentiment" ("id", "meeting_id", "participant_name", "score", "trend", "notes", "source")
+            VALUES (
+                gen_random_uuid()::text,
+                r."id",
+                NULL,
+                coalesce((insights #>> '{sentiment_analysis,overall_score}')::double precision, 0.5),
+                CASE WHEN jsonb_typeof(insights #> '{sentiment_analysis,trend}') = 'array'
+                    THEN ARRAY(SELECT value::double precision FROM jsonb_array_elements_text(insights #> '{sentiment_analysis,trend}'))
+                END,
+                CASE WHEN jsonb_typeof(insights #> '{sentiment_analysis,notes}') = 'array'
+                    THEN ARRAY(SELECT value FROM jsonb_array_elements_text(insights #> '{sentiment_analysis,notes}'))
+                    ELSE '{}'::text[]
+                END,
+                src::"insights_source"
+            );
+
+            IF jsonb_typeof(insights #> '{sentiment_analysis,participants}') = 'object' THEN
+                INSERT INTO "meeting_sentiment" ("id", "meeting_id", "participant_name", "score", "confidence")
+                SELECT gen_random_uuid()::text, r."id", p.key,
+                    (p.value ->> 'avg_sentiment')::double precision,
+                    (p.value ->> 'confidence_level')::double precision
+                FROM jsonb_each(insights #> '{sentiment_analysis,participants}') AS p
+                WHERE p.value ->> 'avg_sentiment' IS NOT NULL;
+            END IF;
+
+            IF jsonb_typeof(insights -> 'expertise_detection') = 'object' THEN
+                INSERT INTO "participant_expertise" ("id", "meeting_id", "participant_name", "skill", "confidence")
+                SELECT gen_random_uuid()::text, r."id", u.key, s.key, s.value::double precision
+                FROM jsonb_each(insights -> 'expertise_detection') AS u,
+                    jsonb_each_text(CASE WHEN jsonb_typeof(u.value) = 'object' THEN u.value ELSE '{}'::jsonb END) AS s
+                ON CONFLICT DO NOTHING;
+            END IF;
+
+            IF jsonb_typeof(insights -> 'role_suggestions') = 'array' THEN
+                INSERT INTO "role_suggestions" ("id", "meeting_id", "participant_name", "role", "confidence", "reasoning")
+                SELECT gen_random_uuid()::text, r."id", s ->> 'user', s ->> 'role',
+                    coalesce((s ->> 'confidence')::double precision, 0),
+                    s ->> 'reasoning'
+                FROM jsonb_array_elements(insights -> 'role_suggestions') AS s
+                WHERE s ->> 'user' IS NOT NULL AND s ->> 'role' IS NOT NULL;
+            END IF;
+        EXCEPTION WHEN others THEN
+            RAISE NOTICE 'Skipping malformed insights for meeting %: %', r."id", SQLERRM;
+        END;
+    END LOOP;
+END $$;
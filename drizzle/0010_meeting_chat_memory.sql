@@ -0,0 +1,9 @@
+-- Rolling summary backing the in-call agent's multi-turn memory
+CREATE TABLE "meeting_chat_memory" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL UNIQUE REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "summary" text NOT NULL,
+    "summarized_through" timestamp NOT NULL,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
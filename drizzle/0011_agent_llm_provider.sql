@@ -0,0 +1,2 @@
+-- Per-agent LLM provider override; NULL uses the LLM_PROVIDER default
+ALTER TABLE "agents" ADD COLUMN "provider" text;
@@ -0,0 +1,10 @@
+-- Per-agent model, sampling and voice settings; NULL columns use the environment defaults
+CREATE TYPE "agent_response_style" AS ENUM ('concise', 'balanced', 'detailed');
+
+ALTER TABLE "agents"
+    ADD COLUMN "model" text,
+    ADD COLUMN "temperature" double precision,
+    ADD COLUMN "max_tokens" integer,
+    ADD COLUMN "response_style" "agent_response_style" NOT NULL DEFAULT 'balanced',
+    ADD COLUMN "voice_id" text,
+    ADD COLUMN "browser_voice" text;
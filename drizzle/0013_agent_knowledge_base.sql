@@ -0,0 +1,32 @@
+-- Agent knowledge base: uploaded documents and their embedded chunks (pgvector)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TYPE "agent_document_status" AS ENUM ('processing', 'ready', 'failed');
+
+CREATE TABLE "agent_documents" (
+    "id" text PRIMARY KEY,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "name" text NOT NULL,
+    "mime_type" text NOT NULL,
+    "content" text NOT NULL,
+    "status" "agent_document_status" NOT NULL DEFAULT 'processing',
+    "error" text,
+    "chunk_count" integer NOT NULL DEFAULT 0,
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "idx_agent_documents_agent_id" ON "agent_documents"("agent_id");
+
+CREATE TABLE "agent_document_chunks" (
+    "id" text PRIMARY KEY,
+    "document_id" text NOT NULL REFERENCES "agent_documents"("id") ON DELETE CASCADE,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "chunk_index" integer NOT NULL,
+    "content" text NOT NULL,
+    "embedding" vector(768) NOT NULL,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "agent_document_chunks_agent_idx" ON "agent_document_chunks"("agent_id");
+CREATE INDEX "agent_document_chunks_embedding_idx" ON "agent_document_chunks" USING hnsw ("embedding" vector_cosine_ops);
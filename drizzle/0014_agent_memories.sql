@@ -0,0 +1,15 @@
+-- Per-agent long-term memory extracted from meeting summaries
+CREATE TYPE "agent_memory_kind" AS ENUM ('fact', 'decision');
+
+CREATE TABLE "agent_memories" (
+    "id" text PRIMARY KEY,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "meeting_id" text REFERENCES "meetings"("id") ON DELETE SET NULL,
+    "kind" "agent_memory_kind" NOT NULL DEFAULT 'fact',
+    "content" text NOT NULL,
+    "embedding" vector(768),
+    "created_at" timestamp NOT NULL DEFAULT NOW(),
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "agent_memories_agent_idx" ON "agent_memories"("agent_id");
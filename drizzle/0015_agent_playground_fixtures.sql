@@ -0,0 +1,11 @@
+-- Saved agent playground conversations used as regression fixtures
+CREATE TABLE "agent_playground_fixtures" (
+    "id" text PRIMARY KEY,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "name" text NOT NULL,
+    "instructions" text NOT NULL,
+    "transcript" text NOT NULL DEFAULT '[]',
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX "agent_playground_fixtures_agent_idx" ON "agent_playground_fixtures"("agent_id");
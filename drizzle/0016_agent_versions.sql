@@ -0,0 +1,25 @@
+-- Revision history of agent instructions and settings, and the revision each meeting ran with
+CREATE TABLE "agent_versions" (
+    "id" text PRIMARY KEY,
+    "agent_id" text NOT NULL REFERENCES "agents"("id") ON DELETE CASCADE,
+    "version" integer NOT NULL,
+    "instructions" text NOT NULL,
+    "provider" text,
+    "model" text,
+    "temperature" double precision,
+    "max_tokens" integer,
+    "response_style" "agent_response_style" NOT NULL,
+    "voice_id" text,
+    "browser_voice" text,
+    "restored_from" integer,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "agent_versions_agent_version_idx" ON "agent_versions"("agent_id", "version");
+
+-- Existing agents start their history at version 1
+INSERT INTO "agent_versions" ("id", "agent_id", "version", "instructions", "provider", "model", "temperature", "max_tokens", "response_style", "voice_id", "browser_voice", "created_at")
+SELECT gen_random_uuid()::text, "id", 1, "instructions", "provider", "model", "temperature", "max_tokens", "response_style", "voice_id", "browser_voice", "updated_at"
+FROM "agents";
+
+ALTER TABLE "meetings" ADD COLUMN "agent_version_id" text REFERENCES "agent_versions"("id") ON DELETE SET NULL;
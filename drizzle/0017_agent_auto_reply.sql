@@ -0,0 +1,10 @@
+-- Opt-in replies when an agent is addressed by a wake phrase
+ALTER TABLE "agents"
+    ADD COLUMN "auto_reply" boolean NOT NULL DEFAULT false,
+    ADD COLUMN "wake_phrases" text[];
+
+ALTER TABLE "agent_versions"
+    ADD COLUMN "auto_reply" boolean NOT NULL DEFAULT false,
+    ADD COLUMN "wake_phrases" text[];
+
+ALTER TABLE "meetings" ADD COLUMN "agent_reply_claimed_at" timestamp;
@@ -0,0 +1,4 @@
+-- Lease for the one browser that publishes the agent's voice into a call
+ALTER TABLE "meetings"
+    ADD COLUMN "agent_speaker_session_id" text,
+    ADD COLUMN "agent_speaker_lease_until" timestamp;
@@ -0,0 +1,2 @@
+-- Per-meeting speech-to-text engine: the browser's Web Speech API or server-side transcription
+ALTER TABLE "meetings" ADD COLUMN "stt_engine" text DEFAULT 'browser' NOT NULL;
@@ -0,0 +1,14 @@
+-- Spoken and summary language per meeting, and cached transcript translations for captions
+ALTER TABLE "meetings"
+    ADD COLUMN "language" text NOT NULL DEFAULT 'en-US',
+    ADD COLUMN "summary_language" text;
+
+CREATE TABLE "conversation_chunk_translations" (
+    "id" text PRIMARY KEY,
+    "chunk_id" text NOT NULL REFERENCES "conversation_chunks"("id") ON DELETE CASCADE,
+    "language" text NOT NULL,
+    "text" text NOT NULL,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "conversation_chunk_translations_chunk_language_idx" ON "conversation_chunk_translations"("chunk_id", "language");
@@ -0,0 +1,4 @@
+-- Idempotency key for browser chunk uploads; retried uploads of the same line are ignored
+ALTER TABLE "conversation_chunks" ADD COLUMN "client_chunk_id" text;
+
+CREATE UNIQUE INDEX "conversation_chunks_client_chunk_idx" ON "conversation_chunks"("client_chunk_id");
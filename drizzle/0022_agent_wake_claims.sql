@@ -0,0 +1,11 @@
+-- Wake-word replies are claimed per utterance instead of per meeting, so a second participant's question is still answered
+CREATE TABLE "agent_wake_claims" (
+    "id" text PRIMARY KEY,
+    "meeting_id" text NOT NULL REFERENCES "meetings"("id") ON DELETE CASCADE,
+    "utterance_key" text NOT NULL,
+    "claimed_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX "agent_wake_claims_meeting_utterance_idx" ON "agent_wake_claims"("meeting_id", "utterance_key");
+
+ALTER TABLE "meetings" DROP COLUMN "agent_reply_claimed_at";
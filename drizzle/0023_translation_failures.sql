@@ -0,0 +1,4 @@
+-- Failed caption translations are recorded so polling viewers don't retry them on every request
+ALTER TABLE "conversation_chunk_translations"
+    ALTER COLUMN "text" DROP NOT NULL,
+    ADD COLUMN "failed_at" timestamp;
@@ -0,0 +1,4 @@
+-- Upload keys come from the browser, so they are only unique within a meeting; a key reused in another meeting must not drop that line
+DROP INDEX "conversation_chunks_client_chunk_idx";
+
+CREATE UNIQUE INDEX "conversation_chunks_meeting_client_chunk_idx" ON "conversation_chunks"("meeting_id", "client_chunk_id");
@@ -2,16 +2,24 @@ import { auth } from "@/lib/auth";
 import { SignInView } from "@/modules/auth/ui/views/sign-in-view";
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
+import { getSafeCallbackURL } from "@/modules/auth/utils";
 
-const Page = async () =>{
+interface Props {
+    searchParams: Promise<{
+        callbackURL?: string;
+    }>;
+}
+
+const Page = async ({searchParams}:Props) =>{
+    const callbackURL = getSafeCallbackURL((await searchParams).callbackURL);
     const session = await auth.api.getSession({
         headers: await headers(),
         });
 
         if(!!session){
-        redirect("/");
+        redirect(callbackURL);
         }
-    return <SignInView />
+    return <SignInView callbackURL={callbackURL}/>
 }
 
 export default Page;
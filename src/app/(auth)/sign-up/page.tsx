@@ -2,16 +2,24 @@ import { auth } from "@/lib/auth";
 import { SignUpView } from "@/modules/auth/ui/views/sign-up-view";
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
+import { getSafeCallbackURL } from "@/modules/auth/utils";
 
-const Page = async () =>{
+interface Props {
+    searchParams: Promise<{
+        callbackURL?: string;
+    }>;
+}
+
+const Page = async ({searchParams}:Props) =>{
+    const callbackURL = getSafeCallbackURL((await searchParams).callbackURL);
     const session = await auth.api.getSession({
         headers: await headers(),
         });
 
         if(!!session){
-        redirect("/");
+        redirect(callbackURL);
         }
-    return <SignUpView />
+    return <SignUpView callbackURL={callbackURL}/>
 }
 
 export default Page;
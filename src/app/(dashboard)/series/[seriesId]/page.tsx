@@ -0,0 +1,43 @@
+import { auth } from "@/lib/auth";
+import { SeriesIdView, SeriesIdViewError, SeriesIdViewLoading } from "@/modules/series/ui/views/series-id-view";
+import { getQueryClient, trpc } from "@/trpc/server";
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { Suspense } from "react";
+import { ErrorBoundary } from "react-error-boundary";
+
+interface Props {
+    params : Promise<{
+        seriesId: string;
+    }>;
+}
+
+const Page = async ({params}:Props) => {
+    const {seriesId} = await params;
+
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if(!session){
+        redirect("/sign-in");
+    }
+    const queryClient = getQueryClient();
+    void queryClient.prefetchQuery(
+        trpc.series.getOne.queryOptions({
+            id:seriesId
+        }),
+    );
+    return (
+        <HydrationBoundary state={dehydrate(queryClient)}>
+            <Suspense fallback={<SeriesIdViewLoading/>}>
+               <ErrorBoundary fallback={<SeriesIdViewError/>}>
+                  <SeriesIdView seriesId={seriesId}/>
+               </ErrorBoundary>
+            </Suspense>
+        </HydrationBoundary>
+    );
+};
+
+export default Page;
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { caller } from "@/trpc/server";
+import {
+    createAgentDocument,
+    extractDocumentText,
+    getDocumentMimeType,
+    MAX_DOCUMENT_BYTES,
+} from "@/modules/agents/server/knowledge";
+
+// Multipart upload of a knowledge base document (Markdown, plain text or PDF) for one of the user's agents
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const agentId = formData.get("agentId");
+        const file = formData.get("file");
+
+        if (typeof agentId !== "string" || !(file instanceof File)) {
+            return NextResponse.json(
+                { error: "agentId and file are required" },
+                { status: 400 }
+            );
+        }
+
+        const mimeType = getDocumentMimeType(file.name);
+        if (!mimeType) {
+            return NextResponse.json(
+                { error: "Only Markdown, plain text and PDF files are supported" },
+                { status: 415 }
+            );
+        }
+        if (file.size > MAX_DOCUMENT_BYTES) {
+            return NextResponse.json(
+                { error: "File is larger than 10 MB" },
+                { status: 413 }
+            );
+        }
+
+        // Throws NOT_FOUND unless the agent belongs to the signed-in user
+        const agent = await caller.agents.getOne({ id: agentId });
+
+        const content = (await extractDocumentText(await file.arrayBuffer(), mimeType)).trim();
+        if (!content) {
+            return NextResponse.json(
+                { error: "No text could be extracted from this file" },
+                { status: 422 }
+            );
+        }
+
+        const document = await createAgentDocument({
+            agentId: agent.id,
+            name: file.name,
+            mimeType,
+            content,
+        });
+
+        return NextResponse.json({
+            document: {
+                id: document.id,
+                name: document.name,
+                status: document.status,
+            },
+        });
+    } catch (error) {
+        if (error instanceof TRPCError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: getHTTPStatusCodeFromError(error) }
+            );
+        }
+        console.error("Error uploading agent document:", error);
+        return NextResponse.json(
+            { error: "Failed to upload document" },
+            { status: 500 }
+        );
+    }
+}
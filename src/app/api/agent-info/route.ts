@@ -31,7 +31,11 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({
             id: agent.id,
             name: agent.name,
-            instructions: agent.instructions
+            instructions: agent.instructions,
+            voiceId: agent.voiceId,
+            browserVoice: agent.browserVoice,
+            autoReply: agent.autoReply,
+            wakePhrases: agent.wakePhrases,
         });
 
     } catch (error) {
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { db } from "@/db";
+import { agents, meetings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { isAdmittedToMeeting } from "@/modules/meetings/server/participants";
+import {
+    AGENT_SPEAKER_LEASE_MS,
+    claimAgentSpeaker,
+    generateAgentSpeakerToken,
+    releaseAgentSpeaker,
+} from "@/modules/meetings/server/agent-speaker";
+
+/**
+ * Heartbeat of the in-call agent speaker election. Returns `speaker: true` with a
+ * Stream token for the agent user while this browser session holds the role.
+ * `release: true` gives the role up (sent with `sendBeacon` when the tab closes).
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const { meetingId, sessionId, release } = await req.json().catch(() => ({}));
+        if (typeof meetingId !== "string" || typeof sessionId !== "string" || !sessionId) {
+            return NextResponse.json({ error: "Missing meetingId or sessionId" }, { status: 400 });
+        }
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+        const [meeting] = await db
+            .select()
+            .from(meetings)
+            .where(eq(meetings.id, meetingId));
+        // The agent's token gets into the call, so only people already let in may hold the role
+        if (!session || !meeting || !(await isAdmittedToMeeting(meeting, session.user.id))) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        if (release) {
+            await releaseAgentSpeaker(meeting.id, sessionId);
+            return NextResponse.json({ speaker: false });
+        }
+
+        // Browser speech synthesis cannot be captured into a track, so a shared voice needs neural TTS
+        if (!process.env.ELEVENLABS_API_KEY) {
+            return NextResponse.json({ speaker: false, reason: "Neural TTS is not configured" });
+        }
+
+        if (!(await claimAgentSpeaker(meeting.id, sessionId))) {
+            return NextResponse.json({ speaker: false });
+        }
+
+        const [agent] = await db
+            .select({ id: agents.id, name: agents.name })
+            .from(agents)
+            .where(eq(agents.id, meeting.agentId));
+        if (!agent) {
+            await releaseAgentSpeaker(meeting.id, sessionId);
+            return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            speaker: true,
+            leaseMs: AGENT_SPEAKER_LEASE_MS,
+            agent,
+            token: generateAgentSpeakerToken(agent.id, meeting.id),
+        });
+    } catch (error) {
+        console.error("Agent speaker error:", error);
+        return NextResponse.json({ error: "Failed to update agent speaker" }, { status: 500 });
+    }
+}
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import Groq from "groq-sdk";
-
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY,
-});
+import { getLLMProvider } from "@/lib/llm";
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,20 +22,20 @@ Format as JSON array:
 
 Keep subtasks specific, actionable, and realistic in scope.`;
 
-    // Call Groq directly to generate suggestions
-    const completion = await groq.chat.completions.create({
-      model: "llama-3.3-70b-versatile",
-      messages: [
-        { role: "system", content: "You are a helpful assistant that returns valid JSON only when asked to output JSON." },
-        { role: "user", content: prompt },
-      ],
+    const llm = getLLMProvider();
+    if (!llm) {
+      return NextResponse.json({ error: "LLM provider is not configured" }, { status: 503 });
+    }
+
+    const { text } = await llm.complete([
+      { role: "system", content: "You are a helpful assistant that returns valid JSON only when asked to output JSON." },
+      { role: "user", content: prompt },
+    ], {
       temperature: 0.3,
-      max_tokens: 800,
-      top_p: 0.9,
+      maxTokens: 800,
+      topP: 0.9,
     });
 
-    const text = completion.choices?.[0]?.message?.content || "";
-
     let suggestions: any[] = [];
     try {
       suggestions = JSON.parse(text);
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { calendarFeeds, user } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { subDays } from "date-fns";
+import { appRouter } from "@/trpc/routers/_app";
+import { buildCalendar } from "@/lib/ical";
+import { MAX_PAGE_SIZE } from "@/constants";
+import { MeetingStatus } from "@/modules/meetings/types";
+import { getAppUrl, meetingToICalEvent } from "@/modules/meetings/server/ical";
+
+export const runtime = "nodejs";
+
+// Cancelled meetings stay in the feed for a while so subscribed calendars pick up the cancellation
+const CANCELLED_RETENTION_DAYS = 30;
+
+interface Props {
+    params: Promise<{
+        token: string;
+    }>;
+}
+
+// Subscribable iCalendar feed; the secret token in the URL stands in for the session
+export async function GET(request: NextRequest, { params }: Props) {
+    // Some calendar apps only accept URLs ending in .ics
+    const token = (await params).token.replace(/\.ics$/, "");
+
+    const [feed] = await db
+        .select({ user })
+        .from(calendarFeeds)
+        .innerJoin(user, eq(calendarFeeds.userId, user.id))
+        .where(eq(calendarFeeds.token, token));
+
+    if (!feed) {
+        return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    try {
+        const feedCaller = appRouter.createCaller({
+            userId: feed.user.id,
+            session: { user: feed.user },
+        });
+        const [upcoming, active, cancelled] = await Promise.all(
+            [MeetingStatus.Upcoming, MeetingStatus.Active, MeetingStatus.Cancelled].map((status) =>
+                feedCaller.meetings.getMany({ status, pageSize: MAX_PAGE_SIZE }),
+            ),
+        );
+
+        const cancelledSince = subDays(new Date(), CANCELLED_RETENTION_DAYS);
+        const meetings = [
+            ...upcoming.items,
+            ...active.items,
+            ...cancelled.items.filter((meeting) => new Date(meeting.updatedAt) >= cancelledSince),
+        ];
+
+        const appUrl = getAppUrl(request);
+        const body = buildCalendar(
+            meetings.map((meeting) => meetingToICalEvent(meeting, appUrl)),
+            { name: "Meet AI" },
+        );
+
+        return new NextResponse(body, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Cache-Control": "no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Error building calendar feed:", error);
+        return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 });
+    }
+}
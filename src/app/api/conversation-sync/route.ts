@@ -1,17 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
 import { db } from "@/db";
-import { conversationChunks, user as users } from "@/db/schema";
+import { conversationChunks, meetings } from "@/db/schema";
 import { desc, eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { isAdmittedToMeeting } from "@/modules/meetings/server/participants";
+import { formatTranscript, getTranscriptChunks } from "@/modules/meetings/server/transcript";
+import { publishMeetingEvent } from "@/modules/meetings/server/events";
 
-// Types for API payload compatibility
+// Types for API payload compatibility; user lines are attributed to the signed-in caller, not the payload
 type ConversationChunk = {
+  // Idempotency key from the client's upload queue; a chunk already stored under it is not stored again
+  id?: string;
   speaker: "user" | "ai";
-  userId?: string;
-  userName?: string;
   text: string;
   ts: number; // epoch ms
 };
 
+// Lines are shown to everyone in the call and fed to the agent, so only people let into the call may read or add them
+async function authorize(meetingId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+  if (!session) return null;
+  const [meeting] = await db
+    .select()
+    .from(meetings)
+    .where(eq(meetings.id, meetingId));
+  if (!meeting || !(await isAdmittedToMeeting(meeting, session.user.id))) return null;
+  return { meeting, user: session.user };
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
@@ -23,6 +42,10 @@ export async function POST(req: NextRequest) {
         { status: 400 }
       );
     }
+    const access = await authorize(meetingId);
+    if (!access) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
     // Support two modes:
     // 1) Legacy overwrite mode (transcript/agentResponse/isAgentSpeaking)
     // 2) Append chunk mode: { mode: 'append', chunk: ConversationChunk }
@@ -31,23 +54,33 @@ export async function POST(req: NextRequest) {
       if (!chunk?.text || typeof chunk.text !== "string") {
         return NextResponse.json({ error: "Invalid chunk" }, { status: 400 });
       }
-      // Normalize timestamp and enrich username if needed
+      // Normalize timestamp
       const ts = typeof chunk.ts === "number" && chunk.ts > 0 ? new Date(chunk.ts) : new Date();
-      let finalUserName = chunk.userName;
-      if (!finalUserName && chunk.userId) {
-        try {
-          const rows = await db.select({ name: users.name }).from(users).where(eq(users.id, chunk.userId)).limit(1);
-          finalUserName = rows?.[0]?.name || undefined;
-        } catch {}
-      }
+      const isAgent = chunk.speaker === "ai";
 
-      await db.insert(conversationChunks).values({
-        meetingId,
-        speaker: chunk.speaker === "ai" ? "ai" : "user",
-        userId: chunk.userId,
-        userName: finalUserName,
+      const [saved] = await db.insert(conversationChunks).values({
+        meetingId: access.meeting.id,
+        speaker: isAgent ? "ai" : "user",
+        userId: isAgent ? null : access.user.id,
+        userName: isAgent ? null : access.user.name,
         text: chunk.text,
+        clientChunkId: typeof chunk.id === "string" && chunk.id ? chunk.id : null,
         ts,
+      }).onConflictDoNothing({ target: [conversationChunks.meetingId, conversationChunks.clientChunkId] }).returning();
+      if (!saved) {
+        // A retry of an upload that already succeeded
+        return NextResponse.json({ success: true, duplicate: true });
+      }
+      await publishMeetingEvent(access.meeting.id, {
+        type: "chunk",
+        chunk: {
+          id: saved.id,
+          speaker: saved.speaker,
+          userId: saved.userId,
+          userName: saved.userName,
+          text: saved.text,
+          ts: saved.ts.toISOString(),
+        },
       });
       return NextResponse.json({ success: true });
     } else {
@@ -75,13 +108,15 @@ export async function GET(req: NextRequest) {
         { status: 400 }
       );
     }
+    const access = await authorize(meetingId);
+    if (!access) {
+      return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
     // Read chunks from DB, ordered by ts ascending
-    const rows = await db.select().from(conversationChunks).where(eq(conversationChunks.meetingId, meetingId)).orderBy(conversationChunks.ts);
+    const rows = await getTranscriptChunks(access.meeting.id);
 
     if (format === "joined") {
-      const joined = rows
-        .map((c) => `${c.speaker === "ai" ? "AI" : (c.userName || "User")}: ${c.text}`)
-        .join("\n");
+      const joined = formatTranscript(rows);
       return NextResponse.json({ transcript: joined });
     }
 
@@ -1,89 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
-import Groq from "groq-sdk";
-import { db } from "@/db";
-import { agents } from "@/db/schema";
-import { eq } from "drizzle-orm";
-
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY,
-});
+import { LLMCompletion, LLMUsage } from "@/lib/llm";
+import { ChatMessage } from "@/modules/meetings/server/chat-memory";
+import {
+    MAX_CONTINUATIONS,
+    MAX_TOKENS_CONTINUE,
+    continuationMessages,
+    prepareAgentChat,
+    runToolCalls,
+} from "@/modules/agents/server/chat";
+import type { AgentToolInvocation } from "@/modules/agents/server/tools";
 
 export async function POST(req: NextRequest) {
     try {
-        const { message, agentId } = await req.json();
-
-        if (!message || !agentId) {
-            return NextResponse.json(
-                { error: "Missing message or agentId" },
-                { status: 400 }
-            );
-        }
-
-        // Get agent instructions from database
-        const [agent] = await db
-            .select()
-            .from(agents)
-            .where(eq(agents.id, agentId));
+        const chat = await prepareAgentChat(await req.json());
 
-        if (!agent) {
+        if (!chat.ok) {
             return NextResponse.json(
-                { error: "Agent not found" },
-                { status: 404 }
+                { error: chat.error },
+                { status: chat.status }
             );
         }
+        const { agent, llm, options, sources } = chat;
+        let baseMessages = chat.messages;
+        const startedAt = Date.now();
 
-        const systemPrompt = (
-            (agent.instructions || "You are a helpful assistant in a video call.") +
-            "\nStyle rules:" +
-            "\n- Be clear, natural, and human. Avoid robotic phrasing." +
-            "\n- Answer completely but be concise. Use short paragraphs." +
-            "\n- Use lists when helpful (keep them focused)."
-        );
-
-        type Msg = { role: "system" | "user" | "assistant"; content: string };
-        const baseMessages: Msg[] = [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: message },
-        ];
-
-        const model = "llama-3.3-70b-versatile"; // Free Groq model
-        const maxTokensInitial = 1024;
-        const maxTokensContinue = 768;
-        const maxContinuations = 3;
-
-        const callGroq = async (messages: Msg[], maxTokens: number) => {
-            const completion = await groq.chat.completions.create({
-                messages,
-                model,
-                temperature: 0.3,
-                max_tokens: maxTokens,
-                top_p: 0.9,
-                presence_penalty: 0.1,
-                frequency_penalty: 0.2,
-            });
-            const choice = completion.choices?.[0];
-            const text = choice?.message?.content || "";
-            const finishReason = (choice as any)?.finish_reason || completion.choices?.[0]?.finish_reason || "stop";
-            return { text, finishReason } as const;
+        // Summed over every request of the turn, for the playground
+        const usage: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+        const track = (completion: LLMCompletion) => {
+            usage.promptTokens += completion.usage?.promptTokens ?? 0;
+            usage.completionTokens += completion.usage?.completionTokens ?? 0;
+            return completion;
         };
+        const callLLM = async (messages: ChatMessage[], maxTokens: number) =>
+            track(await llm.complete(messages, { ...options, maxTokens }));
 
-        // First response
+        // First response; in a meeting the model may call tools instead of answering
         const parts: string[] = [];
-        let messages: Msg[] = [...baseMessages];
-        let { text, finishReason } = await callGroq(messages, maxTokensInitial);
-        parts.push(text);
+        let first = track(await llm.complete(baseMessages, { ...options, tools: chat.tools }));
+        let invocations: AgentToolInvocation[] = [];
+        if (first.toolCalls) {
+            ({ invocations, messages: baseMessages } = await runToolCalls(chat, baseMessages, first.toolCalls, first.text));
+            if (first.text.trim()) parts.push(first.text);
+            // Ask again, without tools, for the confirmation of what was done
+            first = await callLLM(baseMessages, options.maxTokens);
+        }
+        let finishReason: string = first.finishReason;
+        parts.push(first.text);
 
         // If truncated, request continuation up to N times
         let loops = 0;
-        while (finishReason === "length" && loops < maxContinuations) {
+        while (finishReason === "length" && loops < MAX_CONTINUATIONS) {
             loops += 1;
-            messages = [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: message },
-                { role: "assistant", content: parts.join("\n") },
-                { role: "user", content: "Please continue the previous answer. Do not repeat content." },
-            ];
-            const res = await callGroq(messages, maxTokensContinue);
+            const res = await callLLM(continuationMessages(baseMessages, parts.join("\n")), MAX_TOKENS_CONTINUE);
             parts.push(res.text);
             finishReason = res.finishReason;
         }
@@ -93,13 +61,29 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({
             response,
             agent: agent.name,
+            sources: sources.map((source) => source.documentName),
+            tools: invocations.map(({ name, ok, summary }) => ({ name, ok, summary })),
+            ...(chat.playground
+                ? {
+                    debug: {
+                        systemPrompt: chat.messages
+                            .filter((message) => message.role === "system")
+                            .map((message) => message.content)
+                            .join("\n\n"),
+                        model: options.model ?? null,
+                        provider: llm.name,
+                        usage,
+                        latencyMs: Date.now() - startedAt,
+                    },
+                }
+                : {}),
         });
 
     } catch (error) {
-        console.error("Groq API error:", error);
+        console.error("Agent chat error:", error);
         return NextResponse.json(
             { error: "Failed to generate response", details: error instanceof Error ? error.message : String(error) },
             { status: 500 }
         );
     }
-} 
\ No newline at end of file
+}
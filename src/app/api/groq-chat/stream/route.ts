@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+    MAX_CONTINUATIONS,
+    MAX_TOKENS_CONTINUE,
+    continuationMessages,
+    prepareAgentChat,
+    runToolCalls,
+} from "@/modules/agents/server/chat";
+import type { ChatMessage } from "@/modules/meetings/server/chat-memory";
+import type { LLMCompletionOptions, LLMToolCall } from "@/lib/llm";
+import type { ChatStreamEvent } from "@/modules/call/utils";
+
+/**
+ * Streaming variant of `/api/groq-chat`: tokens are forwarded as they arrive so the
+ * call UI can start speaking the first sentence before the answer is complete.
+ */
+export async function POST(req: NextRequest) {
+    const chat = await prepareAgentChat(await req.json().catch(() => ({})));
+
+    if (!chat.ok) {
+        return NextResponse.json(
+            { error: chat.error },
+            { status: chat.status }
+        );
+    }
+    const { agent, llm, options, sources } = chat;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: ChatStreamEvent) => {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+            };
+
+            let answer = "";
+            let finishReason: string | null = null;
+            // Forwards one streamed completion, returning any tool calls the model made
+            const streamAnswer = async (messages: ChatMessage[], requestOptions: LLMCompletionOptions) => {
+                let toolCalls: LLMToolCall[] | undefined;
+                finishReason = null;
+                for await (const chunk of llm.stream(messages, { ...requestOptions, signal: req.signal })) {
+                    if (chunk.text) {
+                        answer += chunk.text;
+                        send({ type: "delta", text: chunk.text });
+                    }
+                    if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+                    if (chunk.finishReason) finishReason = chunk.finishReason;
+                }
+                return toolCalls;
+            };
+
+            try {
+                let messages = chat.messages;
+                // In a meeting the model may call tools; their results are confirmed by a second request
+                const toolCalls = await streamAnswer(messages, { ...options, tools: chat.tools });
+                if (toolCalls) {
+                    const round = await runToolCalls(chat, messages, toolCalls, answer.trim());
+                    for (const { name, ok, summary } of round.invocations) {
+                        send({ type: "tool", name, ok, summary });
+                    }
+                    messages = round.messages;
+                    if (answer.trim()) {
+                        answer += " ";
+                        send({ type: "delta", text: " " });
+                    }
+                    await streamAnswer(messages, options);
+                }
+
+                // Continue while the model stops on max_tokens
+                for (let loop = 0; finishReason === "length" && loop < MAX_CONTINUATIONS; loop++) {
+                    answer += "\n";
+                    send({ type: "delta", text: "\n" });
+                    await streamAnswer(
+                        continuationMessages(messages, answer.trim()),
+                        { ...options, maxTokens: MAX_TOKENS_CONTINUE },
+                    );
+                }
+
+                send({
+                    type: "done",
+                    response: answer.trim() || "I'm sorry, I didn't understand that.",
+                    agent: agent.name,
+                    sources: sources.map((source) => source.documentName),
+                });
+            } catch (error) {
+                if (!req.signal.aborted) {
+                    console.error("Agent chat streaming error:", error);
+                    send({ type: "error", error: "Failed to generate response" });
+                }
+            } finally {
+                try { controller.close(); } catch {}
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
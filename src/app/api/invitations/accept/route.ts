@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { acceptInvitation } from "@/modules/meetings/server/invitations";
+
+const errorMessages = {
+    not_found: { message: "Invitation not found", status: 404 },
+    revoked: { message: "This invitation has been revoked", status: 410 },
+    already_used: { message: "This invitation has already been used", status: 410 },
+} as const;
+
+// Invitation links land here; signed-out invitees are sent through sign-in and back
+export async function GET(request: NextRequest) {
+    const url = new URL(request.url);
+    const token = url.searchParams.get("token");
+
+    if (!token) {
+        return NextResponse.json(
+            { error: "Invitation token is required" },
+            { status: 400 }
+        );
+    }
+
+    const session = await auth.api.getSession({
+        headers: request.headers,
+    });
+
+    if (!session) {
+        const signInUrl = new URL("/sign-in", url.origin);
+        signInUrl.searchParams.set("callbackURL", `${url.pathname}${url.search}`);
+        return NextResponse.redirect(signInUrl);
+    }
+
+    try {
+        const result = await acceptInvitation(token, session.user.id);
+        if (!result.ok) {
+            const { message, status } = errorMessages[result.reason];
+            return NextResponse.json({ error: message }, { status });
+        }
+        return NextResponse.redirect(new URL(`/meetings/${result.meetingId}`, url.origin));
+    } catch (error) {
+        console.error("Error accepting invitation:", error);
+        return NextResponse.json(
+            { error: "Failed to accept invitation" },
+            { status: 500 }
+        );
+    }
+}
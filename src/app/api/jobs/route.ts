@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+// Ensure Node.js runtime so process.env is available (not Edge)
+export const runtime = "nodejs";
+import { runJobWorker } from "@/modules/jobs/server/worker";
+
+// Invoked by an external cron to drain the background job queue.
+// Protected with CRON_SECRET when it is set: `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(req: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await runJobWorker();
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[jobs] error:", error);
+        return NextResponse.json({ error: "Failed to run job worker" }, { status: 500 });
+    }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { db } from "@/db";
+import { meetings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { isAdmittedToMeeting } from "@/modules/meetings/server/participants";
+import { publishMeetingEvent, subscribeToMeeting } from "@/modules/meetings/server/events";
+import { AGENT_STATUSES, AgentStatus, MeetingEvent } from "@/modules/meetings/events";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_MS = 25_000;
+
+// The stream carries live transcript lines and agent answers, so it is only for people let into the call
+async function authorize(meetingId: string | null) {
+    if (!meetingId) return null;
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+    const [meeting] = await db
+        .select()
+        .from(meetings)
+        .where(eq(meetings.id, meetingId));
+    if (!session || !meeting || !(await isAdmittedToMeeting(meeting, session.user.id))) {
+        return null;
+    }
+    return { meeting, userId: session.user.id };
+}
+
+/**
+ * Server-sent events for one meeting: new transcript chunks, task changes and
+ * the agent's status, as published by any server instance.
+ */
+export async function GET(req: NextRequest) {
+    const access = await authorize(new URL(req.url).searchParams.get("meetingId"));
+    if (!access) {
+        return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const write = (text: string) => {
+                try {
+                    controller.enqueue(encoder.encode(text));
+                } catch {
+                    cleanup();
+                }
+            };
+            const unsubscribe = subscribeToMeeting(access.meeting.id, (event) => {
+                write(`data: ${JSON.stringify(event)}\n\n`);
+            });
+            const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+            cleanup = () => {
+                clearInterval(keepalive);
+                unsubscribe();
+            };
+            req.signal.addEventListener("abort", () => {
+                cleanup();
+                try { controller.close(); } catch {}
+            });
+            write(": connected\n\n");
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
+
+// Lets the browser that is answering report the agent's status to everyone else
+export async function POST(req: NextRequest) {
+    try {
+        const { meetingId, status } = await req.json().catch(() => ({}));
+        if (!AGENT_STATUSES.includes(status)) {
+            return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+        const access = await authorize(typeof meetingId === "string" ? meetingId : null);
+        if (!access) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const event: MeetingEvent = { type: "agent", status: status as AgentStatus, userId: access.userId };
+        await publishMeetingEvent(access.meeting.id, event);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Meeting events error:", error);
+        return NextResponse.json({ error: "Failed to publish event" }, { status: 500 });
+    }
+}
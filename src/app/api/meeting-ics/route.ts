@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { caller } from "@/trpc/server";
+import { buildCalendar } from "@/lib/ical";
+import { getAppUrl, meetingToICalEvent } from "@/modules/meetings/server/ical";
+
+// Single-meeting .ics download for the signed-in user
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const meetingId = searchParams.get("meetingId");
+
+    if (!meetingId) {
+        return NextResponse.json(
+            { error: "Meeting ID is required" },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const meeting = await caller.meetings.getOne({ id: meetingId });
+        const body = buildCalendar([meetingToICalEvent(meeting, getAppUrl(request))]);
+        const filename = meeting.name.replace(/[^\w\- ]+/g, "").trim() || "meeting";
+
+        return new NextResponse(body, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${filename}.ics"`,
+            },
+        });
+    } catch (error) {
+        if (error instanceof TRPCError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: getHTTPStatusCodeFromError(error) }
+            );
+        }
+        console.error("Error exporting meeting calendar:", error);
+        return NextResponse.json(
+            { error: "Failed to export meeting" },
+            { status: 500 }
+        );
+    }
+}
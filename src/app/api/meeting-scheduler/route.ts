@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+// Ensure Node.js runtime so process.env is available (not Edge)
+export const runtime = "nodejs";
+import { runMeetingScheduler } from "@/modules/meetings/server/scheduler";
+
+// Invoked by an external cron (e.g. every minute) to advance scheduled meetings.
+// Protected with CRON_SECRET when it is set: `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(req: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret && req.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await runMeetingScheduler();
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error("[meeting-scheduler] error:", error);
+        return NextResponse.json({ error: "Failed to run meeting scheduler" }, { status: 500 });
+    }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { db } from "@/db";
+import { meetings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { getSTTProvider } from "@/lib/stt";
+import { canAccessMeeting } from "@/modules/meetings/server/participants";
+
+// A few seconds of compressed speech is well under this
+const MAX_CHUNK_BYTES = 5 * 1024 * 1024;
+
+// Whether server-side recognition is configured, so the call can fall back to the browser engine
+export async function GET() {
+    const provider = getSTTProvider();
+    return NextResponse.json({ available: !!provider, provider: provider?.name ?? null });
+}
+
+/**
+ * Transcribes one recorded audio chunk from a meeting participant.
+ * Multipart fields: `audio` (the chunk), `meetingId`, and optional `language` and `prompt`.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const provider = getSTTProvider();
+        if (!provider) {
+            return NextResponse.json({ error: "Server speech recognition not configured" }, { status: 501 });
+        }
+
+        const form = await req.formData().catch(() => null);
+        const audio = form?.get("audio");
+        const meetingId = form?.get("meetingId");
+        if (!(audio instanceof Blob) || typeof meetingId !== "string") {
+            return NextResponse.json({ error: "Missing audio or meetingId" }, { status: 400 });
+        }
+        if (audio.size > MAX_CHUNK_BYTES) {
+            return NextResponse.json({ error: "Audio chunk too large" }, { status: 413 });
+        }
+
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+        const [meeting] = await db
+            .select()
+            .from(meetings)
+            .where(eq(meetings.id, meetingId));
+        if (!session || !meeting || !(await canAccessMeeting(meeting, session.user.id))) {
+            return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+        }
+
+        const language = form?.get("language");
+        const prompt = form?.get("prompt");
+        const result = await provider.transcribe(audio, {
+            language: typeof language === "string" && language ? language : undefined,
+            prompt: typeof prompt === "string" && prompt ? prompt : undefined,
+            signal: req.signal,
+        });
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("STT error:", error);
+        return NextResponse.json({ error: "Failed to transcribe audio" }, { status: 500 });
+    }
+}
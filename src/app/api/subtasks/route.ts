@@ -3,6 +3,7 @@ import { db } from "@/db";
 import { subtasks } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { publishTaskChange } from "@/modules/tasks/server/tasks";
 
 // Get subtasks for a task
 export async function GET(request: NextRequest) {
@@ -60,6 +61,7 @@ export async function POST(request: NextRequest) {
                 aiGenerated,
             })
             .returning();
+        await publishTaskChange(taskId);
 
         return NextResponse.json({
             success: true,
@@ -96,6 +98,7 @@ export async function PUT(request: NextRequest) {
             })
             .where(eq(subtasks.id, id))
             .returning();
+        if (updatedSubtask) await publishTaskChange(updatedSubtask.taskId);
 
         return NextResponse.json({
             success: true,
@@ -124,7 +127,11 @@ export async function DELETE(request: NextRequest) {
             );
         }
 
-        await db.delete(subtasks).where(eq(subtasks.id, subtaskId));
+        const [deletedSubtask] = await db
+            .delete(subtasks)
+            .where(eq(subtasks.id, subtaskId))
+            .returning({ taskId: subtasks.taskId });
+        if (deletedSubtask) await publishTaskChange(deletedSubtask.taskId);
 
         return NextResponse.json({
             success: true,
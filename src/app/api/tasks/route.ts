@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db";
 import { tasks, subtasks, projectPhases, user } from "@/db/schema";
-import { eq, and, desc } from "drizzle-orm";
-import { nanoid } from "nanoid";
+import { eq, and } from "drizzle-orm";
+import { createTask, getMeetingTasks, getOrCreateDefaultPhase } from "@/modules/tasks/server/tasks";
+import { publishMeetingEvent } from "@/modules/meetings/server/events";
 
 // Get all tasks for a meeting
 export async function GET(request: NextRequest) {
@@ -17,48 +18,8 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Get all tasks with their phases and assignees
-        const allTasks = await db
-            .select({
-                id: tasks.id,
-                title: tasks.title,
-                description: tasks.description,
-                phase: tasks.phase,
-                status: tasks.status,
-                assignee: tasks.assignee,
-                assigneeId: tasks.assigneeId,
-                priority: tasks.priority,
-                estimatedHours: tasks.estimatedHours,
-                dueDate: tasks.dueDate,
-                aiGenerated: tasks.aiGenerated,
-                meetingId: tasks.meetingId,
-                tags: tasks.tags,
-                createdAt: tasks.createdAt,
-                updatedAt: tasks.updatedAt,
-                phaseName: projectPhases.name,
-                phaseColor: projectPhases.color,
-                assigneeName: user.name,
-            })
-            .from(tasks)
-            .leftJoin(projectPhases, eq(tasks.phase, projectPhases.id))
-            .leftJoin(user, eq(tasks.assigneeId, user.id))
-            .where(eq(tasks.meetingId, meetingId))
-            .orderBy(desc(tasks.createdAt));
-
-        // Get subtasks for each task
-        const tasksWithSubtasks = await Promise.all(
-            allTasks.map(async (task) => {
-                const taskSubtasks = await db
-                    .select()
-                    .from(subtasks)
-                    .where(eq(subtasks.taskId, task.id));
-
-                return {
-                    ...task,
-                    subtasks: taskSubtasks,
-                };
-            })
-        );
+        // Get all tasks with their phases, assignees and subtasks
+        const tasksWithSubtasks = await getMeetingTasks(meetingId);
 
         return NextResponse.json({
             success: true,
@@ -97,68 +58,17 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Get assignee name if assigneeId is provided
-        let assignee = null;
-        if (assigneeId) {
-            const [userData] = await db
-                .select({ name: user.name })
-                .from(user)
-                .where(eq(user.id, assigneeId));
-            assignee = userData?.name;
-        }
-
-        // Resolve a valid phase for this meeting
-        async function getOrCreateDefaultPhase(meetingId: string) {
-            const existing = await db
-                .select()
-                .from(projectPhases)
-                .where(eq(projectPhases.meetingId, meetingId))
-                .orderBy(projectPhases.order)
-                .limit(1);
-            if (existing.length > 0) return existing[0];
-            // Create a default phase if none exist
-            const [created] = await db.insert(projectPhases).values({
-                name: "Project Planning & Setup",
-                order: 1,
-                color: "#8B5CF6",
-                meetingId,
-            }).returning();
-            return created;
-        }
-
-        async function resolvePhaseId(meetingId: string, requestedPhaseId?: string) {
-            if (requestedPhaseId) {
-                const found = await db
-                    .select({ id: projectPhases.id })
-                    .from(projectPhases)
-                    .where(and(eq(projectPhases.meetingId, meetingId), eq(projectPhases.id, requestedPhaseId)))
-                    .limit(1);
-                if (found.length > 0) return requestedPhaseId;
-            }
-            const defPhase = await getOrCreateDefaultPhase(meetingId);
-            return defPhase.id;
-        }
-
-        const phaseId = await resolvePhaseId(meetingId, phase);
-
-        // Create the task
-        const [newTask] = await db
-            .insert(tasks)
-            .values({
-                id: nanoid(),
-                title,
-                description,
-                phase: phaseId,
-                assignee,
-                assigneeId,
-                priority: priority || "medium",
-                estimatedHours,
-                dueDate: dueDate ? new Date(dueDate) : null,
-                aiGenerated: false,
-                meetingId,
-                tags: tags || [],
-            })
-            .returning();
+        const newTask = await createTask({
+            title,
+            description,
+            phase,
+            assigneeId,
+            priority,
+            estimatedHours,
+            dueDate,
+            meetingId,
+            tags,
+        });
 
         // Get AI suggestions for subtasks
         const subtaskSuggestions = await getAISubtaskSuggestions(title, description);
@@ -252,23 +162,6 @@ export async function PUT(request: NextRequest) {
         delete normalizedUpdates.createdAt;
 
         // Ensure phase is valid for this meeting. If an invalid phase is provided, auto-heal to a default phase.
-        async function getOrCreateDefaultPhase(meetingId: string) {
-            const existing = await db
-                .select()
-                .from(projectPhases)
-                .where(eq(projectPhases.meetingId, meetingId))
-                .orderBy(projectPhases.order)
-                .limit(1);
-            if (existing.length > 0) return existing[0];
-            const [created] = await db.insert(projectPhases).values({
-                name: "Project Planning & Setup",
-                order: 1,
-                color: "#8B5CF6",
-                meetingId,
-            }).returning();
-            return created;
-        }
-
         async function ensureValidPhase(meetingId: string, requestedPhaseId?: string, currentPhaseId?: string) {
             const candidate = requestedPhaseId ?? currentPhaseId;
             if (candidate) {
@@ -295,6 +188,7 @@ export async function PUT(request: NextRequest) {
             })
             .where(eq(tasks.id, id))
             .returning();
+        await publishMeetingEvent(existingTask.meetingId, { type: "tasks" });
 
         return NextResponse.json({
             success: true,
@@ -327,7 +221,13 @@ export async function DELETE(request: NextRequest) {
         await db.delete(subtasks).where(eq(subtasks.taskId, taskId));
 
         // Delete the task
-        await db.delete(tasks).where(eq(tasks.id, taskId));
+        const [deletedTask] = await db
+            .delete(tasks)
+            .where(eq(tasks.id, taskId))
+            .returning({ meetingId: tasks.meetingId });
+        if (deletedTask) {
+            await publishMeetingEvent(deletedTask.meetingId, { type: "tasks" });
+        }
 
         return NextResponse.json({
             success: true,
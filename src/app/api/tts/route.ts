@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { agents } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { isSameLanguage } from "@/modules/meetings/languages";
 
 export async function POST(req: NextRequest) {
   try {
-    const { text, voiceId } = await req.json();
+    const { text, voiceId, agentId, language } = await req.json();
     if (!text || typeof text !== 'string') {
       return NextResponse.json({ error: 'text is required' }, { status: 400 });
     }
@@ -14,7 +18,17 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Neural TTS not configured' }, { status: 501 });
     }
 
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(voiceId || defaultVoiceId)}`, {
+    // An explicit voice wins, then the agent's saved voice, then the env default
+    let agentVoiceId: string | null = null;
+    if (!voiceId && typeof agentId === 'string' && agentId) {
+      const [agent] = await db
+        .select({ voiceId: agents.voiceId })
+        .from(agents)
+        .where(eq(agents.id, agentId));
+      agentVoiceId = agent?.voiceId ?? null;
+    }
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(voiceId || agentVoiceId || defaultVoiceId)}`, {
       method: 'POST',
       headers: {
         'xi-api-key': apiKey,
@@ -23,7 +37,8 @@ export async function POST(req: NextRequest) {
       },
       body: JSON.stringify({
         text,
-        model_id: 'eleven_monolingual_v1',
+        // The monolingual model reads every language with English pronunciation
+        model_id: typeof language === 'string' && !isSameLanguage(language, 'en') ? 'eleven_multilingual_v2' : 'eleven_monolingual_v1',
         voice_settings: {
           stability: 0.4,
           similarity_boost: 0.85,
@@ -1,9 +1,12 @@
 import { db } from "@/db";
 import { agents, meetings } from "@/db/schema";
 import { streamVideo} from "@/lib/stream-video";
-import { CallSessionParticipantLeftEvent, CallSessionStartedEvent } from "@stream-io/node-sdk";
-import { eq, not, and } from "drizzle-orm";
+import { CallRecordingReadyEvent, CallSessionEndedEvent, CallSessionParticipantLeftEvent, CallSessionStartedEvent, CallTranscriptionReadyEvent } from "@stream-io/node-sdk";
+import { eq, and, inArray, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { ingestStreamTranscript } from "@/modules/meetings/server/transcript";
+import { enqueueMeetingProcessing } from "@/modules/meetings/server/post-processing";
+import { getLatestAgentVersion } from "@/modules/agents/server/versions";
 
 
 
@@ -50,11 +53,9 @@ export async function POST(req:NextRequest){
         .where(
             and(
                 eq(meetings.id,meetingId),
-                not(eq(meetings.status,"completed")),
-                not(eq(meetings.status,"active")),
-                not(eq(meetings.status,"cancelled")),
-                not(eq(meetings.status,"processing")),
-
+                // Scheduled meetings may already be active (set by the scheduler) but not yet started
+                inArray(meetings.status,["upcoming","active"]),
+                isNull(meetings.startedAt),
             )
         );
 
@@ -62,11 +63,14 @@ export async function POST(req:NextRequest){
             return NextResponse.json({error:"Meeting not found"},{status:404});
         }
 
+        const agentVersion = await getLatestAgentVersion(existingMeeting.agentId);
+
         await db
            .update(meetings)
            .set({
             status:"active",
             startedAt:new Date(),
+            agentVersionId:agentVersion?.id ?? null,
            })
            .where(eq(meetings.id,existingMeeting.id));
     
@@ -95,6 +99,69 @@ export async function POST(req:NextRequest){
 
     const call = streamVideo.video.call("default",meetingId);
     await call.end();
+}else if (eventType === "call.session_ended"){
+    const event = payload as CallSessionEndedEvent;
+    const meetingId = event.call_cid.split(":")[1];
+    if(!meetingId){
+        return NextResponse.json({error:"Missing meetingId"},{status:400});
+    }
+
+    // Covers calls whose last tab closed before /api/meeting-complete could run
+    const [endedMeeting] = await db
+    .update(meetings)
+    .set({
+        status:"processing",
+        endedAt:new Date(),
+    })
+    .where(and(eq(meetings.id,meetingId),eq(meetings.status,"active")))
+    .returning();
+
+    if(endedMeeting){
+        await enqueueMeetingProcessing(endedMeeting.id);
+    }
+}else if (eventType === "call.transcription_ready"){
+    const event = payload as CallTranscriptionReadyEvent;
+    const meetingId = event.call_cid.split(":")[1];
+
+    const [existingMeeting] = await db
+       .update(meetings)
+       .set({
+        transcriptUrl:event.call_transcription.url,
+       })
+       .where(eq(meetings.id,meetingId))
+       .returning();
+
+    if(!existingMeeting){
+        return NextResponse.json({error:"Meeting not found"},{status:404});
+    }
+
+    try {
+        const count = await ingestStreamTranscript(
+            existingMeeting,
+            event.call_transcription.url,
+            new Date(event.call_transcription.start_time),
+        );
+        console.log(`[Meeting] Ingested ${count} transcript lines for meeting ${meetingId}`);
+        // The transcript usually arrives after the session ended and post-processing already ran on
+        // the browser capture; redo it with the speaker-attributed lines
+        if (count > 0 && (existingMeeting.status === "processing" || existingMeeting.status === "completed")) {
+            await enqueueMeetingProcessing(existingMeeting.id);
+        }
+    } catch (error) {
+        // Non-2xx makes Stream retry the webhook; ingestion is idempotent
+        console.error(`[Meeting] Failed to ingest transcript for meeting ${meetingId}:`, error);
+        return NextResponse.json({error:"Failed to ingest transcript"},{status:500});
+    }
+}else if (eventType === "call.recording_ready"){
+    const event = payload as CallRecordingReadyEvent;
+    const meetingId = event.call_cid.split(":")[1];
+
+    await db
+       .update(meetings)
+       .set({
+        recordingUrl:event.call_recording.url,
+       })
+       .where(eq(meetings.id,meetingId));
 }
 
     return NextResponse.json({status:"ok"});
@@ -0,0 +1,91 @@
+import { CalendarIcon, XIcon } from "lucide-react";
+import { format } from "date-fns";
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Calendar } from "./ui/calendar";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { cn } from "@/lib/utils";
+
+
+
+interface Props {
+    value?: Date | null;
+    onChange: (value: Date | null) => void;
+    placeholder?: string;
+    disablePast?: boolean;
+    className?: string;
+};
+
+export const DateTimePicker = ({
+    value,
+    onChange,
+    placeholder = "Pick a date and time",
+    disablePast = true,
+    className,
+}: Props) => {
+    const [open, setOpen] = useState(false);
+    const time = value ? format(value, "HH:mm") : "09:00";
+
+    const handleDateSelect = (date?: Date) => {
+        if (!date) return;
+        const [hours, minutes] = time.split(":").map(Number);
+        const next = new Date(date);
+        next.setHours(hours, minutes, 0, 0);
+        onChange(next);
+    };
+
+    const handleTimeChange = (nextTime: string) => {
+        const [hours, minutes] = nextTime.split(":").map(Number);
+        if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+        const next = value ? new Date(value) : new Date();
+        next.setHours(hours, minutes, 0, 0);
+        onChange(next);
+    };
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return (
+        <div className={cn("flex items-center gap-x-2", className)}>
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        className={cn(
+                            "h-9 flex-1 justify-start font-normal px-2",
+                            !value && "text-muted-foreground",
+                        )}
+                    >
+                        <CalendarIcon />
+                        {value ? format(value, "PPP") : placeholder}
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                        mode="single"
+                        selected={value ?? undefined}
+                        onSelect={(date) => {
+                            handleDateSelect(date);
+                            setOpen(false);
+                        }}
+                        disabled={disablePast ? { before: today } : undefined}
+                    />
+                </PopoverContent>
+            </Popover>
+            <Input
+                type="time"
+                className="w-28"
+                value={time}
+                disabled={!value}
+                onChange={(e) => handleTimeChange(e.target.value)}
+            />
+            {value && (
+                <Button type="button" variant="ghost" size="icon" onClick={() => onChange(null)}>
+                    <XIcon />
+                </Button>
+            )}
+        </div>
+    )
+}
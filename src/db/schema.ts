@@ -1,4 +1,5 @@
-import { pgTable, text, timestamp, boolean, integer, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, integer, pgEnum, uniqueIndex, index, doublePrecision, vector } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import {nanoid} from "nanoid";
 
 export const user = pgTable("user", {
@@ -47,6 +48,12 @@ export const verification = pgTable("verification", {
     updatedAt: timestamp('updated_at').$defaultFn(() => /* @__PURE__ */ new Date())
 });
 
+export const agentResponseStyle = pgEnum("agent_response_style", [
+    "concise",
+    "balanced",
+    "detailed",
+]);
+
 export const agents =pgTable("agents",{
     id: text("id")
      .primaryKey()
@@ -56,9 +63,135 @@ export const agents =pgTable("agents",{
        .notNull()
        .references(()=>user.id,{onDelete:"cascade"}),
     instructions:text("instructions").notNull(),
+    provider: text("provider"), // LLM provider override ('groq' | 'openai-compatible' | 'fake'); null uses LLM_PROVIDER
+    model: text("model"), // Model id for the provider; null uses the provider default
+    temperature: doublePrecision("temperature"),
+    maxTokens: integer("max_tokens"),
+    responseStyle: agentResponseStyle("response_style").notNull().default("balanced"),
+    voiceId: text("voice_id"), // ElevenLabs voice; null uses ELEVENLABS_VOICE_ID
+    browserVoice: text("browser_voice"), // speechSynthesis voice name used when neural TTS is unavailable
+    autoReply: boolean("auto_reply").notNull().default(false), // answer without the manual trigger when addressed by a wake phrase
+    wakePhrases: text("wake_phrases").array(), // null derives phrases from the agent's name
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+
+});
+
+export const agentDocumentStatus = pgEnum("agent_document_status", [
+    "processing",
+    "ready",
+    "failed",
+]);
+
+// Knowledge base files attached to an agent; `content` is the extracted text
+export const agentDocuments = pgTable("agent_documents", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    agentId: text("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    mimeType: text("mime_type").notNull(),
+    content: text("content").notNull(),
+    status: agentDocumentStatus("status").notNull().default("processing"),
+    error: text("error"),
+    chunkCount: integer("chunk_count").notNull().default(0),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Embedded passages of agent documents, searched by cosine distance when the agent answers
+export const agentDocumentChunks = pgTable("agent_document_chunks", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    documentId: text("document_id").notNull().references(() => agentDocuments.id, { onDelete: "cascade" }),
+    agentId: text("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(),
+    content: text("content").notNull(),
+    embedding: vector("embedding", { dimensions: 768 }).notNull(), // EMBEDDING_DIMENSIONS
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+    index("agent_document_chunks_agent_idx").on(table.agentId),
+    index("agent_document_chunks_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
+
+export const agentMemoryKind = pgEnum("agent_memory_kind", [
+    "fact",
+    "decision",
+]);
+
+// Long-term agent memory distilled from meeting summaries and injected into later meetings
+export const agentMemories = pgTable("agent_memories", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    agentId: text("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+    // Source meeting; kept when the meeting is deleted so the memory survives
+    meetingId: text("meeting_id").references(() => meetings.id, { onDelete: "set null" }),
+    kind: agentMemoryKind("kind").notNull().default("fact"),
+    content: text("content").notNull(),
+    embedding: vector("embedding", { dimensions: 768 }), // null when no embedding provider is configured
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+    index("agent_memories_agent_idx").on(table.agentId),
+]);
+
+// Playground conversations saved to re-run after changing an agent's instructions
+export const agentPlaygroundFixtures = pgTable("agent_playground_fixtures", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    agentId: text("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    instructions: text("instructions").notNull(),
+    transcript: text("transcript").notNull().default("[]"), // JSON string of { role, content } turns
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+    index("agent_playground_fixtures_agent_idx").on(table.agentId),
+]);
+
+export const recurrenceFrequency = pgEnum("recurrence_frequency", [
+    "daily",
+    "weekly",
+    "monthly",
+]);
+
+// Snapshot of an agent's instructions and settings, appended whenever they change
+export const agentVersions = pgTable("agent_versions", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    agentId: text("agent_id").notNull().references(() => agents.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    instructions: text("instructions").notNull(),
+    provider: text("provider"),
+    model: text("model"),
+    temperature: doublePrecision("temperature"),
+    maxTokens: integer("max_tokens"),
+    responseStyle: agentResponseStyle("response_style").notNull(),
+    voiceId: text("voice_id"),
+    browserVoice: text("browser_voice"),
+    autoReply: boolean("auto_reply").notNull().default(false),
+    wakePhrases: text("wake_phrases").array(),
+    restoredFrom: integer("restored_from"), // version number this revision rolled back to
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex("agent_versions_agent_version_idx").on(table.agentId, table.version),
+]);
 
+// Recurring meeting series; occurrences are spawned as regular `meetings` rows
+export const meetingSeries = pgTable("meeting_series", {
+    id: text("id")
+     .primaryKey()
+     .$defaultFn(() => nanoid()),
+    name: text("name").notNull(),
+    userId: text("user_id")
+       .notNull()
+       .references(()=>user.id,{onDelete:"cascade"}),
+    agentId: text("agent_id")
+        .notNull()
+        .references(()=>agents.id,{onDelete:"cascade"}),
+    frequency: recurrenceFrequency("frequency").notNull(),
+    interval: integer("interval").notNull().default(1),
+    byWeekday: integer("by_weekday").array(), // 0 = Sunday .. 6 = Saturday (weekly only)
+    startsAt: timestamp("starts_at").notNull(),
+    durationMinutes: integer("duration_minutes").notNull().default(30),
+    until: timestamp("until"),
+    occurrenceCount: integer("occurrence_count"),
+    exceptions: text("exceptions").array().notNull().default(sql`'{}'::text[]`), // ISO start times of skipped occurrences
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const meetingStatus = pgEnum ("meeting_status",[
@@ -81,28 +214,85 @@ export const meetings =pgTable("meetings",{
         .notNull()
         .references(()=>agents.id,{onDelete:"cascade"}),
     status: meetingStatus("status").notNull().default("upcoming"),
+    scheduledAt: timestamp("scheduled_at"),
+    durationMinutes: integer("duration_minutes").notNull().default(30),
+    sequence: integer("sequence").notNull().default(0), // iCalendar SEQUENCE, bumped on reschedule/cancel
+    isPublic: boolean("is_public").notNull().default(false), // open to any signed-in user, not just invitees
+    waitingRoomEnabled: boolean("waiting_room_enabled").notNull().default(false), // host admits non-owners from the lobby
+    seriesId: text("series_id")
+        .references(()=>meetingSeries.id,{onDelete:"set null"}),
+    agentVersionId: text("agent_version_id") // agent revision in effect when the call started
+        .references(()=>agentVersions.id,{onDelete:"set null"}),
+    // Browser session that publishes the agent's voice into the call, and until when it holds that role
+    agentSpeakerSessionId: text("agent_speaker_session_id"),
+    agentSpeakerLeaseUntil: timestamp("agent_speaker_lease_until"),
+    sttEngine: text("stt_engine").notNull().default("browser"), // "browser" (Web Speech API) or "server" (chunks sent to /api/stt)
+    language: text("language").notNull().default("en-US"), // BCP-47 tag of the spoken language
+    summaryLanguage: text("summary_language"), // language of summaries and insights; null means the spoken language
     startedAt: timestamp("started_at"),
     endedAt: timestamp("ended_at"),
     transcriptUrl: text("transcript_url"),
     recordingUrl: text("recording_url"),
-    summary: text("summary"),
+    summary: text("summary"), // legacy JSON/plain-text summary, superseded by meeting_summaries and the insight tables
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
 
+}, (table) => [
+    // One meeting per series occurrence, so spawning can run repeatedly
+    uniqueIndex("meetings_series_occurrence_idx").on(table.seriesId, table.scheduledAt),
+]);
+
+// Per-user secret token for the subscribable iCalendar feed
+export const calendarFeeds = pgTable("calendar_feeds", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    userId: text("user_id").notNull().unique().references(() => user.id, { onDelete: "cascade" }),
+    token: text("token").notNull().unique(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const participantStatus = pgEnum("participant_status", [
+    "invited",
+    "waiting",
+    "admitted",
+    "rejected",
+]);
+
 // Meeting participants table (for multi-user access control)
 export const meetingParticipants = pgTable("meeting_participants", {
     id: text("id").primaryKey().$defaultFn(() => nanoid()),
     meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
     userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }),
     role: text("role"),
+    status: participantStatus("status").notNull().default("admitted"), // waiting-room state
     joinedAt: timestamp("joined_at").defaultNow(),
     leftAt: timestamp("left_at"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const invitationStatus = pgEnum("invitation_status", [
+    "pending",
+    "accepted",
+    "revoked",
+]);
+
+// Invitations to a meeting; accepting one registers the invitee as a participant
+export const meetingInvitations = pgTable("meeting_invitations", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+    email: text("email").notNull(),
+    token: text("token").notNull().unique(),
+    status: invitationStatus("status").notNull().default("pending"),
+    invitedById: text("invited_by_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+    acceptedById: text("accepted_by_id").references(() => user.id, { onDelete: "set null" }),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex("meeting_invitations_meeting_email_idx").on(table.meetingId, table.email),
+]);
+
 // Conversation chunks captured per meeting, merged later for summary/insights
 export const conversationChunks = pgTable("conversation_chunks", {
   id: text("id").primaryKey().$defaultFn(() => nanoid()),
@@ -111,10 +301,36 @@ export const conversationChunks = pgTable("conversation_chunks", {
   userId: text("user_id").references(() => user.id, { onDelete: "set null" }),
   userName: text("user_name"),
   text: text("text").notNull(),
+  source: text("source").notNull().default("browser"), // 'browser' (live capture) | 'stream' (native transcription)
+  clientChunkId: text("client_chunk_id"), // idempotency key from the browser's upload queue, so retries don't duplicate lines
   ts: timestamp("ts").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("conversation_chunks_meeting_client_chunk_idx").on(table.meetingId, table.clientChunkId),
+]);
+
+// Cached LLM translations of transcript chunks, one per caption language
+export const conversationChunkTranslations = pgTable("conversation_chunk_translations", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  chunkId: text("chunk_id").notNull().references(() => conversationChunks.id, { onDelete: "cascade" }),
+  language: text("language").notNull(),
+  text: text("text"), // null while the line could not be translated
+  failedAt: timestamp("failed_at"), // last failed attempt; retried after a cooldown
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("conversation_chunk_translations_chunk_language_idx").on(table.chunkId, table.language),
+]);
+
+// Wake-word replies claimed per utterance, so only one browser answers a question several of them heard
+export const agentWakeClaims = pgTable("agent_wake_claims", {
+  id: text("id").primaryKey().$defaultFn(() => nanoid()),
+  meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+  utteranceKey: text("utterance_key").notNull(), // hash of the normalized question
+  claimedAt: timestamp("claimed_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("agent_wake_claims_meeting_utterance_idx").on(table.meetingId, table.utteranceKey),
+]);
 
 // Project phases for task management
 export const projectPhases = pgTable("project_phases", {
@@ -167,3 +383,86 @@ export const aiProjectPlans = pgTable("ai_project_plans", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
+
+export const jobStatus = pgEnum("job_status", [
+    "pending",
+    "running",
+    "completed",
+    "failed",
+]);
+
+// Durable background jobs (meeting post-processing), claimed by the worker with SKIP LOCKED
+export const jobs = pgTable("jobs", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    type: text("type").notNull(),
+    meetingId: text("meeting_id").references(() => meetings.id, { onDelete: "cascade" }),
+    payload: text("payload").notNull().default("{}"), // JSON string
+    status: jobStatus("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    runAt: timestamp("run_at").notNull().defaultNow(),
+    lockedAt: timestamp("locked_at"),
+    lastError: text("last_error"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insightsSource = pgEnum("insights_source", [
+    "groq",
+    "heuristic",
+    "hf-sst2",
+    "hybrid",
+]);
+
+export const meetingSummaries = pgTable("meeting_summaries", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().unique().references(() => meetings.id, { onDelete: "cascade" }),
+    summaryText: text("summary_text").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One meeting-wide row (participantName = null) plus one row per participant
+export const meetingSentiment = pgTable("meeting_sentiment", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+    participantName: text("participant_name"),
+    score: doublePrecision("score").notNull(), // 0..1, 0.5 is neutral
+    confidence: doublePrecision("confidence"),
+    trend: doublePrecision("trend").array(),
+    notes: text("notes").array().notNull().default(sql`'{}'::text[]`),
+    source: insightsSource("source"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const participantExpertise = pgTable("participant_expertise", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+    participantName: text("participant_name").notNull(),
+    skill: text("skill").notNull(),
+    confidence: doublePrecision("confidence").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+    uniqueIndex("participant_expertise_meeting_participant_skill_idx").on(table.meetingId, table.participantName, table.skill),
+]);
+
+export const roleSuggestions = pgTable("role_suggestions", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().references(() => meetings.id, { onDelete: "cascade" }),
+    participantName: text("participant_name").notNull(),
+    role: text("role").notNull(),
+    confidence: doublePrecision("confidence").notNull(),
+    reasoning: text("reasoning"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Rolling summary of in-call conversation turns that no longer fit the agent's context window
+export const meetingChatMemory = pgTable("meeting_chat_memory", {
+    id: text("id").primaryKey().$defaultFn(() => nanoid()),
+    meetingId: text("meeting_id").notNull().unique().references(() => meetings.id, { onDelete: "cascade" }),
+    summary: text("summary").notNull(),
+    summarizedThrough: timestamp("summarized_through").notNull(), // ts of the newest chunk folded into the summary
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
@@ -0,0 +1,34 @@
+export async function register() {
+    // Only the Node.js server runs background workers; Edge and the browser bundle never do
+    if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+    if (process.env.MEETING_SCHEDULER_DISABLED !== "true") {
+        const { runMeetingScheduler } = await import("@/modules/meetings/server/scheduler");
+        const intervalMs = Number(process.env.MEETING_SCHEDULER_INTERVAL_MS) || 60_000;
+
+        setInterval(() => {
+            runMeetingScheduler().catch((error) => {
+                console.error("[Meeting Scheduler] Tick failed:", error);
+            });
+        }, intervalMs);
+    }
+
+    if (process.env.JOB_WORKER_DISABLED !== "true") {
+        const { runJobWorker } = await import("@/modules/jobs/server/worker");
+        const intervalMs = Number(process.env.JOB_WORKER_INTERVAL_MS) || 5_000;
+
+        // Skip a tick while the previous one is still draining the queue
+        let running = false;
+        setInterval(() => {
+            if (running) return;
+            running = true;
+            runJobWorker()
+                .catch((error) => {
+                    console.error("[Job Worker] Tick failed:", error);
+                })
+                .finally(() => {
+                    running = false;
+                });
+        }, intervalMs);
+    }
+}
@@ -0,0 +1,38 @@
+// Transactional email via the Resend HTTP API. Without RESEND_API_KEY nothing is sent
+// and callers fall back to sharing links manually.
+type EmailMessage = {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+};
+
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+        console.log("[Email] RESEND_API_KEY not set, skipping email to", message.to);
+        return false;
+    }
+
+    try {
+        const response = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${apiKey}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+                from: process.env.EMAIL_FROM || "Meet AI <onboarding@resend.dev>",
+                ...message,
+            }),
+        });
+        if (!response.ok) {
+            console.error("[Email] Failed to send email:", response.status, await response.text());
+            return false;
+        }
+        return true;
+    } catch (error) {
+        console.error("[Email] Failed to send email:", error);
+        return false;
+    }
+}
@@ -0,0 +1,82 @@
+// Minimal RFC 5545 (iCalendar) writer for meeting exports and feeds
+
+export type ICalEvent = {
+    uid: string;
+    sequence: number;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+    url?: string;
+    status: "CONFIRMED" | "CANCELLED";
+    lastModified?: Date;
+};
+
+const PRODID = "-//Meet AI//Meetings//EN";
+
+// 20250102T030405Z
+function formatDate(date: Date) {
+    return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string) {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets must be folded onto continuation lines
+function foldLine(line: string) {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = "";
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            parts.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+export function buildCalendar(events: ICalEvent[], options: { name?: string } = {}) {
+    const now = new Date();
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODID}`,
+        "CALSCALE:GREGORIAN",
+        // A single download is a one-off PUBLISH; feeds are refreshed by the client
+        "METHOD:PUBLISH",
+    ];
+    if (options.name) {
+        lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+    }
+
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `SEQUENCE:${event.sequence}`,
+            `DTSTAMP:${formatDate(now)}`,
+            `DTSTART:${formatDate(event.start)}`,
+            `DTEND:${formatDate(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            `STATUS:${event.status}`,
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.url) lines.push(`URL:${event.url}`, `LOCATION:${escapeText(event.url)}`);
+        if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDate(event.lastModified)}`);
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
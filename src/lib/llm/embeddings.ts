@@ -0,0 +1,172 @@
+// Width of the pgvector column; every provider must return vectors of this size
+export const EMBEDDING_DIMENSIONS = 768;
+
+export const EMBEDDING_PROVIDERS = ["openai-compatible", "huggingface", "fake"] as const;
+
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[number];
+
+export interface EmbeddingProvider {
+    name: EmbeddingProviderName;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const BATCH_SIZE = 32;
+
+type EmbeddingResponse = {
+    data?: { embedding: number[]; index: number }[];
+};
+
+/**
+ * Any server implementing the OpenAI `/embeddings` API. A local Ollama with
+ * `nomic-embed-text` (768 dimensions) keeps documents on the machine.
+ */
+function createOpenAICompatibleEmbeddings({
+    baseUrl,
+    apiKey,
+    model,
+}: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}): EmbeddingProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+    return {
+        name: "openai-compatible",
+        async embed(texts) {
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({ model, input: texts }),
+            });
+            if (!response.ok) {
+                throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+            }
+            const data = (await response.json()) as EmbeddingResponse;
+            return (data.data ?? [])
+                .sort((a, b) => a.index - b.index)
+                .map((item) => item.embedding);
+        },
+    };
+}
+
+// Hugging Face Inference API feature extraction (all-mpnet-base-v2 is 768-dimensional)
+function createHuggingFaceEmbeddings({ apiKey, model }: { apiKey: string; model: string }): EmbeddingProvider {
+    return {
+        name: "huggingface",
+        async embed(texts) {
+            const response = await fetch(`https://api-inference.huggingface.co/pipeline/feature-extraction/${model}`, {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${apiKey}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ inputs: texts, options: { wait_for_model: true } }),
+            });
+            if (!response.ok) {
+                throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+            }
+            return (await response.json()) as number[][];
+        },
+    };
+}
+
+// Deterministic hashed bag-of-words vectors: no network, good enough for tests and demos
+function createFakeEmbeddings(): EmbeddingProvider {
+    const embedOne = (text: string) => {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+            let hash = 0;
+            for (let i = 0; i < word.length; i++) {
+                hash = (hash * 31 + word.charCodeAt(i)) | 0;
+            }
+            vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map((v) => v / norm);
+    };
+    return {
+        name: "fake",
+        async embed(texts) {
+            return texts.map(embedOne);
+        },
+    };
+}
+
+function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider | null {
+    switch (name) {
+        case "openai-compatible": {
+            const baseUrl = process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL;
+            return baseUrl
+                ? createOpenAICompatibleEmbeddings({
+                    baseUrl,
+                    apiKey: process.env.EMBEDDING_API_KEY || process.env.LLM_API_KEY,
+                    model: process.env.EMBEDDING_MODEL || "nomic-embed-text",
+                })
+                : null;
+        }
+        case "huggingface": {
+            const apiKey = process.env.HUGGINGFACE_API_KEY;
+            return apiKey
+                ? createHuggingFaceEmbeddings({
+                    apiKey,
+                    model: process.env.EMBEDDING_MODEL || "sentence-transformers/all-mpnet-base-v2",
+                })
+                : null;
+        }
+        case "fake":
+            return createFakeEmbeddings();
+    }
+}
+
+// EMBEDDING_PROVIDER, else a local/OpenAI-compatible server, else Hugging Face, else the fake in fake-LLM setups
+function getDefaultEmbeddingProviderName(): EmbeddingProviderName | null {
+    const configured = process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined;
+    if (configured && EMBEDDING_PROVIDERS.includes(configured)) return configured;
+    if (process.env.EMBEDDING_BASE_URL || process.env.LLM_BASE_URL) return "openai-compatible";
+    if (process.env.HUGGINGFACE_API_KEY) return "huggingface";
+    if (process.env.LLM_PROVIDER === "fake") return "fake";
+    return null;
+}
+
+let cached: EmbeddingProvider | null | undefined;
+
+function getProvider() {
+    if (cached === undefined) {
+        const name = getDefaultEmbeddingProviderName();
+        cached = name ? createEmbeddingProvider(name) : null;
+    }
+    return cached;
+}
+
+export function isEmbeddingConfigured() {
+    return getProvider() !== null;
+}
+
+/**
+ * Embeds `texts` in batches with the configured provider. Throws when no provider
+ * is configured or the returned vectors do not match the pgvector column width.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+    const provider = getProvider();
+    if (!provider) throw new Error("Embedding provider is not configured");
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const batch = await provider.embed(texts.slice(i, i + BATCH_SIZE));
+        for (const vector of batch) {
+            if (vector.length !== EMBEDDING_DIMENSIONS) {
+                throw new Error(
+                    `${provider.name} returned ${vector.length}-dimensional embeddings; expected ${EMBEDDING_DIMENSIONS}`,
+                );
+            }
+        }
+        vectors.push(...batch);
+    }
+    if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+    }
+    return vectors;
+}
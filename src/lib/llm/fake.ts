@@ -0,0 +1,39 @@
+import { LLMMessage, LLMProvider } from "./types";
+
+// Rough four-characters-per-token estimate so usage displays have something to show
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Deterministic provider for tests and offline development. Replies with
+ * `LLM_FAKE_RESPONSE` when set, otherwise echoes the last user message.
+ */
+export function createFakeProvider(response = process.env.LLM_FAKE_RESPONSE): LLMProvider {
+    const reply = (messages: LLMMessage[]) => {
+        if (response) return response;
+        const lastUser = [...messages].reverse().find((m) => m.role === "user");
+        return `Fake response to: ${lastUser?.content ?? ""}`;
+    };
+
+    return {
+        name: "fake",
+        async complete(messages) {
+            const text = reply(messages);
+            return {
+                text,
+                finishReason: "stop",
+                usage: {
+                    promptTokens: estimateTokens(messages.map((m) => m.content).join("\n")),
+                    completionTokens: estimateTokens(text),
+                },
+            };
+        },
+        async *stream(messages) {
+            // Word-sized chunks exercise the same incremental paths as a real stream
+            const words = reply(messages).split(/(?<=\s)/);
+            for (const word of words) {
+                yield { text: word };
+            }
+            yield { finishReason: "stop" };
+        },
+    };
+}
@@ -0,0 +1,60 @@
+import Groq from "groq-sdk";
+import type { ChatCompletionMessageParam } from "groq-sdk/resources/chat/completions";
+import { createToolCallAccumulator, fromOpenAIToolCalls, toOpenAIMessages, toOpenAITools } from "./openai-format";
+import { LLMCompletionOptions, LLMMessage, LLMProvider } from "./types";
+
+const DEFAULT_MODEL = "llama-3.3-70b-versatile"; // Free Groq model
+const FAST_MODEL = "llama-3.1-8b-instant";
+
+export function createGroqProvider(apiKey: string): LLMProvider {
+    const groq = new Groq({ apiKey });
+
+    const params = (messages: LLMMessage[], options: LLMCompletionOptions) => ({
+        messages: toOpenAIMessages(messages) as ChatCompletionMessageParam[],
+        model: options.model || (options.tier === "fast"
+            ? process.env.LLM_FAST_MODEL || FAST_MODEL
+            : process.env.LLM_MODEL || DEFAULT_MODEL),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        presence_penalty: options.presencePenalty,
+        frequency_penalty: options.frequencyPenalty,
+        tools: toOpenAITools(options.tools),
+    });
+
+    return {
+        name: "groq",
+        async complete(messages, options = {}) {
+            const completion = await groq.chat.completions.create(
+                params(messages, options),
+                { signal: options.signal },
+            );
+            const choice = completion.choices?.[0];
+            return {
+                text: choice?.message?.content || "",
+                finishReason: choice?.finish_reason || "stop",
+                toolCalls: fromOpenAIToolCalls(choice?.message?.tool_calls),
+                usage: completion.usage && {
+                    promptTokens: completion.usage.prompt_tokens,
+                    completionTokens: completion.usage.completion_tokens,
+                },
+            };
+        },
+        async *stream(messages, options = {}) {
+            const completion = await groq.chat.completions.create(
+                { ...params(messages, options), stream: true },
+                { signal: options.signal },
+            );
+            const toolCalls = createToolCallAccumulator();
+            for await (const chunk of completion) {
+                const choice = chunk.choices[0];
+                toolCalls.add(choice?.delta?.tool_calls);
+                yield {
+                    text: choice?.delta?.content || undefined,
+                    finishReason: choice?.finish_reason || undefined,
+                    toolCalls: choice?.finish_reason ? toolCalls.take() : undefined,
+                };
+            }
+        },
+    };
+}
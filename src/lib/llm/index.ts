@@ -0,0 +1,50 @@
+import { createFakeProvider } from "./fake";
+import { createGroqProvider } from "./groq";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { LLM_PROVIDERS, LLMProvider, LLMProviderName } from "./types";
+
+export * from "./types";
+export { EMBEDDING_DIMENSIONS, embedTexts, isEmbeddingConfigured } from "./embeddings";
+
+const providers = new Map<LLMProviderName, LLMProvider | null>();
+
+function createProvider(name: LLMProviderName): LLMProvider | null {
+    switch (name) {
+        case "groq": {
+            const apiKey = process.env.GROQ_API_KEY;
+            return apiKey ? createGroqProvider(apiKey) : null;
+        }
+        case "openai-compatible": {
+            const baseUrl = process.env.LLM_BASE_URL;
+            return baseUrl
+                ? createOpenAICompatibleProvider({
+                    baseUrl,
+                    apiKey: process.env.LLM_API_KEY,
+                    model: process.env.LLM_MODEL || "llama3.1",
+                    fastModel: process.env.LLM_FAST_MODEL,
+                })
+                : null;
+        }
+        case "fake":
+            return createFakeProvider();
+    }
+}
+
+// Provider from LLM_PROVIDER, defaulting to Groq
+export function getDefaultProviderName(): LLMProviderName {
+    const configured = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+    return configured && LLM_PROVIDERS.includes(configured) ? configured : "groq";
+}
+
+/**
+ * Returns the requested provider (an agent's choice) or the configured default.
+ * `null` means the provider is not configured (e.g. missing API key or base URL),
+ * so callers can fall back to heuristics or report the error.
+ */
+export function getLLMProvider(name?: LLMProviderName | null): LLMProvider | null {
+    const providerName = name ?? getDefaultProviderName();
+    if (!providers.has(providerName)) {
+        providers.set(providerName, createProvider(providerName));
+    }
+    return providers.get(providerName) ?? null;
+}
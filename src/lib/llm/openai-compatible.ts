@@ -0,0 +1,121 @@
+import {
+    createToolCallAccumulator,
+    fromOpenAIToolCalls,
+    OpenAIToolCall,
+    toOpenAIMessages,
+    toOpenAITools,
+} from "./openai-format";
+import { LLMCompletionOptions, LLMMessage, LLMProvider } from "./types";
+
+type ChatCompletionResponse = {
+    choices?: {
+        message?: { content?: string | null; tool_calls?: OpenAIToolCall[] | null };
+        finish_reason?: string | null;
+    }[];
+    usage?: { prompt_tokens: number; completion_tokens: number } | null;
+};
+
+type ChatCompletionChunk = {
+    choices?: {
+        delta?: {
+            content?: string | null;
+            tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[] | null;
+        };
+        finish_reason?: string | null;
+    }[];
+};
+
+/**
+ * Any server implementing the OpenAI `/chat/completions` API: a local Ollama
+ * (`http://localhost:11434/v1`), llama.cpp server, vLLM, LM Studio or OpenAI itself.
+ */
+export function createOpenAICompatibleProvider({
+    baseUrl,
+    apiKey,
+    model,
+    fastModel,
+}: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    fastModel?: string;
+}): LLMProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+    const request = async (messages: LLMMessage[], options: LLMCompletionOptions, stream: boolean) => {
+        const response = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                messages: toOpenAIMessages(messages),
+                model: options.model || (options.tier === "fast" ? fastModel || model : model),
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+                top_p: options.topP,
+                presence_penalty: options.presencePenalty,
+                frequency_penalty: options.frequencyPenalty,
+                tools: toOpenAITools(options.tools),
+                stream,
+            }),
+            signal: options.signal,
+        });
+        if (!response.ok) {
+            throw new Error(`LLM request failed: ${response.status} ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        name: "openai-compatible",
+        async complete(messages, options = {}) {
+            const data = (await (await request(messages, options, false)).json()) as ChatCompletionResponse;
+            const choice = data.choices?.[0];
+            return {
+                text: choice?.message?.content || "",
+                finishReason: choice?.finish_reason || "stop",
+                toolCalls: fromOpenAIToolCalls(choice?.message?.tool_calls),
+                usage: data.usage
+                    ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+                    : undefined,
+            };
+        },
+        async *stream(messages, options = {}) {
+            const response = await request(messages, options, true);
+            if (!response.body) throw new Error("LLM response has no body");
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            const toolCalls = createToolCallAccumulator();
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split("\n");
+                buffer = lines.pop() ?? "";
+                for (const line of lines) {
+                    const data = line.trim();
+                    if (!data.startsWith("data:")) continue;
+                    const payload = data.slice(5).trim();
+                    if (payload === "[DONE]") return;
+                    try {
+                        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+                        const choice = chunk.choices?.[0];
+                        toolCalls.add(choice?.delta?.tool_calls);
+                        yield {
+                            text: choice?.delta?.content || undefined,
+                            finishReason: choice?.finish_reason || undefined,
+                            toolCalls: choice?.finish_reason ? toolCalls.take() : undefined,
+                        };
+                    } catch {
+                        console.warn("[LLM] Skipping malformed stream chunk");
+                    }
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,85 @@
+import { LLMMessage, LLMTool, LLMToolCall } from "./types";
+
+// Wire format shared by Groq and OpenAI-compatible servers
+
+export type OpenAIToolCall = {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+};
+
+export type OpenAIMessage =
+    | { role: "system" | "user"; content: string }
+    | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+    | { role: "tool"; tool_call_id: string; content: string };
+
+export function toOpenAIMessages(messages: LLMMessage[]): OpenAIMessage[] {
+    return messages.map((message) => {
+        switch (message.role) {
+            case "assistant":
+                return message.toolCalls?.length
+                    ? {
+                        role: "assistant",
+                        content: message.content || null,
+                        tool_calls: message.toolCalls.map((call) => ({
+                            id: call.id,
+                            type: "function",
+                            function: { name: call.name, arguments: call.arguments },
+                        })),
+                    }
+                    : { role: "assistant", content: message.content };
+            case "tool":
+                return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+            default:
+                return message;
+        }
+    });
+}
+
+export function toOpenAITools(tools?: LLMTool[]) {
+    if (!tools?.length) return undefined;
+    return tools.map((tool) => ({
+        type: "function" as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+export function fromOpenAIToolCalls(
+    calls?: { id: string; function?: { name?: string; arguments?: string } }[] | null,
+): LLMToolCall[] | undefined {
+    const toolCalls = (calls ?? []).flatMap((call) =>
+        call.function?.name
+            ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments || "{}" }]
+            : [],
+    );
+    return toolCalls.length > 0 ? toolCalls : undefined;
+}
+
+type OpenAIToolCallDelta = {
+    index: number;
+    id?: string;
+    function?: { name?: string; arguments?: string };
+};
+
+// Streamed tool calls arrive as fragments keyed by index; this joins them back together
+export function createToolCallAccumulator() {
+    const calls = new Map<number, { id: string; name: string; arguments: string }>();
+    return {
+        add(deltas?: OpenAIToolCallDelta[] | null) {
+            for (const delta of deltas ?? []) {
+                const call = calls.get(delta.index) ?? { id: "", name: "", arguments: "" };
+                if (delta.id) call.id = delta.id;
+                if (delta.function?.name) call.name += delta.function.name;
+                if (delta.function?.arguments) call.arguments += delta.function.arguments;
+                calls.set(delta.index, call);
+            }
+        },
+        take(): LLMToolCall[] | undefined {
+            const complete = [...calls.values()].filter((call) => call.name);
+            calls.clear();
+            return complete.length > 0
+                ? complete.map((call) => ({ ...call, arguments: call.arguments || "{}" }))
+                : undefined;
+        },
+    };
+}
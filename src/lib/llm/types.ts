@@ -0,0 +1,64 @@
+export type LLMToolCall = {
+    id: string;
+    name: string;
+    // JSON-encoded arguments as produced by the model (may be malformed)
+    arguments: string;
+};
+
+export type LLMMessage =
+    | { role: "system" | "user"; content: string }
+    | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+    | { role: "tool"; toolCallId: string; content: string };
+
+// A function the model may call; `parameters` is a JSON Schema object
+export type LLMTool = {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+};
+
+export const LLM_PROVIDERS = ["groq", "openai-compatible", "fake"] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export type LLMCompletionOptions = {
+    // Explicit model id; otherwise the provider's model for `tier` is used
+    model?: string;
+    // "fast" selects the provider's smaller model for cheap background work
+    tier?: "default" | "fast";
+    temperature?: number;
+    maxTokens?: number;
+    topP?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    // Functions the model may call instead of answering; the fake provider ignores them
+    tools?: LLMTool[];
+    signal?: AbortSignal;
+};
+
+export type LLMUsage = {
+    promptTokens: number;
+    completionTokens: number;
+};
+
+export type LLMCompletion = {
+    text: string;
+    // "length" means the answer was cut off by maxTokens
+    finishReason: string;
+    toolCalls?: LLMToolCall[];
+    // Reported by the backend when available
+    usage?: LLMUsage;
+};
+
+export type LLMStreamChunk = {
+    text?: string;
+    finishReason?: string;
+    // Emitted once, complete, with the final chunk
+    toolCalls?: LLMToolCall[];
+};
+
+export interface LLMProvider {
+    name: LLMProviderName;
+    complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+    stream(messages: LLMMessage[], options?: LLMCompletionOptions): AsyncIterable<LLMStreamChunk>;
+}
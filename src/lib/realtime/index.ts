@@ -0,0 +1,20 @@
+import { createLocalBus } from "./local";
+import { RealtimeBus } from "./types";
+import { createUpstashBus } from "./upstash";
+
+export * from "./types";
+
+let bus: RealtimeBus | undefined;
+
+/**
+ * Upstash Redis when UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are
+ * set, otherwise an in-process bus that only works with a single server.
+ */
+export function getRealtimeBus(): RealtimeBus {
+    if (!bus) {
+        const url = process.env.UPSTASH_REDIS_REST_URL;
+        const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+        bus = url && token ? createUpstashBus({ url, token }) : createLocalBus();
+    }
+    return bus;
+}
@@ -0,0 +1,26 @@
+import { EventEmitter } from "events";
+import { RealtimeBus } from "./types";
+
+// Kept on globalThis so dev-server reloads don't split publishers and subscribers
+const globalForBus = globalThis as unknown as { realtimeEmitter?: EventEmitter };
+
+/**
+ * In-process pub/sub for development and single-instance deployments. Messages
+ * don't reach subscribers served by other server instances.
+ */
+export function createLocalBus(): RealtimeBus {
+    const emitter = globalForBus.realtimeEmitter ??= new EventEmitter().setMaxListeners(0);
+
+    return {
+        name: "local",
+        async publish(channel, message) {
+            emitter.emit(channel, message);
+        },
+        subscribe(channel, listener) {
+            emitter.on(channel, listener);
+            return () => {
+                emitter.off(channel, listener);
+            };
+        },
+    };
+}
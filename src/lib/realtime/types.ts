@@ -0,0 +1,8 @@
+export type RealtimeListener = (message: unknown) => void;
+
+export interface RealtimeBus {
+    name: "upstash" | "local";
+    publish(channel: string, message: unknown): Promise<void>;
+    // Returns a function that ends the subscription
+    subscribe(channel: string, listener: RealtimeListener): () => void;
+}
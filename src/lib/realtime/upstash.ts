@@ -0,0 +1,32 @@
+import { Redis } from "@upstash/redis";
+import { RealtimeBus } from "./types";
+
+/**
+ * Redis pub/sub over Upstash's REST API, so every server instance (and
+ * serverless function) sees the messages published by any other.
+ */
+export function createUpstashBus({ url, token }: { url: string; token: string }): RealtimeBus {
+    const redis = new Redis({ url, token });
+
+    return {
+        name: "upstash",
+        async publish(channel, message) {
+            await redis.publish(channel, JSON.stringify(message));
+        },
+        subscribe(channel, listener) {
+            const subscriber = redis.subscribe<unknown>(channel);
+            subscriber.on("message", ({ message }) => {
+                // Upstash deserializes JSON payloads itself unless they arrive as plain strings
+                try {
+                    listener(typeof message === "string" ? JSON.parse(message) : message);
+                } catch {
+                    console.warn("[Realtime] Skipping malformed message");
+                }
+            });
+            subscriber.on("error", (error) => console.error("[Realtime] Subscription error:", error));
+            return () => {
+                subscriber.unsubscribe().catch(() => {});
+            };
+        },
+    };
+}
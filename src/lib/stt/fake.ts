@@ -0,0 +1,17 @@
+import { STTProvider } from "./types";
+
+/**
+ * Deterministic engine for tests and offline development. Returns
+ * `STT_FAKE_TRANSCRIPT` when set, otherwise describes the chunk it received.
+ */
+export function createFakeSTTProvider(transcript = process.env.STT_FAKE_TRANSCRIPT): STTProvider {
+    return {
+        name: "fake",
+        async transcribe(audio, options = {}) {
+            return {
+                text: transcript ?? `Fake transcript of ${audio.size} bytes`,
+                language: options.language,
+            };
+        },
+    };
+}
@@ -0,0 +1,37 @@
+import { createFakeSTTProvider } from "./fake";
+import { STT_PROVIDERS, STTProvider, STTProviderName } from "./types";
+import { createWhisperProvider } from "./whisper";
+
+export * from "./types";
+
+let provider: STTProvider | null | undefined;
+
+function createProvider(name: STTProviderName): STTProvider | null {
+    switch (name) {
+        case "whisper": {
+            const baseUrl = process.env.STT_BASE_URL;
+            return baseUrl
+                ? createWhisperProvider({
+                    baseUrl,
+                    apiKey: process.env.STT_API_KEY,
+                    model: process.env.STT_MODEL || "whisper-1",
+                })
+                : null;
+        }
+        case "fake":
+            return createFakeSTTProvider();
+    }
+}
+
+/**
+ * The engine behind server-side transcription, from STT_PROVIDER (default
+ * "whisper"). `null` means it is not configured, so meetings fall back to the
+ * browser's own recognition.
+ */
+export function getSTTProvider(): STTProvider | null {
+    if (provider === undefined) {
+        const configured = process.env.STT_PROVIDER as STTProviderName | undefined;
+        provider = createProvider(configured && STT_PROVIDERS.includes(configured) ? configured : "whisper");
+    }
+    return provider;
+}
@@ -0,0 +1,22 @@
+export const STT_PROVIDERS = ["whisper", "fake"] as const;
+
+export type STTProviderName = typeof STT_PROVIDERS[number];
+
+export type STTOptions = {
+    // BCP-47 tag such as "en-US"; engines that take ISO-639-1 codes use the primary subtag
+    language?: string;
+    // Recent text that helps the engine with names and vocabulary
+    prompt?: string;
+    signal?: AbortSignal;
+};
+
+export type STTResult = {
+    text: string;
+    // Detected or requested language, when the engine reports it
+    language?: string;
+};
+
+export interface STTProvider {
+    name: STTProviderName;
+    transcribe(audio: Blob, options?: STTOptions): Promise<STTResult>;
+}
@@ -0,0 +1,47 @@
+import { STTProvider } from "./types";
+
+type TranscriptionResponse = {
+    text?: string;
+    language?: string;
+};
+
+/**
+ * Any server implementing the OpenAI `/audio/transcriptions` API: a local
+ * faster-whisper or whisper.cpp server, Groq or OpenAI itself.
+ */
+export function createWhisperProvider({
+    baseUrl,
+    apiKey,
+    model,
+}: {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}): STTProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, "")}/audio/transcriptions`;
+
+    return {
+        name: "whisper",
+        async transcribe(audio, options = {}) {
+            const form = new FormData();
+            // The server detects the format from the file name
+            form.append("file", audio, `chunk.${audio.type.includes("ogg") ? "ogg" : audio.type.includes("mp4") ? "mp4" : "webm"}`);
+            form.append("model", model);
+            form.append("response_format", "json");
+            if (options.language) form.append("language", options.language.split("-")[0].toLowerCase());
+            if (options.prompt) form.append("prompt", options.prompt);
+
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+                body: form,
+                signal: options.signal,
+            });
+            if (!response.ok) {
+                throw new Error(`STT request failed: ${response.status} ${await response.text()}`);
+            }
+            const data = (await response.json()) as TranscriptionResponse;
+            return { text: data.text?.trim() ?? "", language: data.language ?? options.language };
+        },
+    };
+}
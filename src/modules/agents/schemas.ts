@@ -1,11 +1,52 @@
 import z from "zod";
+import { LLM_PROVIDERS } from "@/lib/llm/types";
 
+export const AGENT_RESPONSE_STYLES = ["concise", "balanced", "detailed"] as const;
+export const AGENT_MEMORY_KINDS = ["fact", "decision"] as const;
 
 export const agentsInsertSchema = z.object({
     name:z.string().min(1,{message:"Name is required"}),
     instructions: z.string().min(1,{message:"Instructions are required"}),
+    provider: z.enum(LLM_PROVIDERS).nullable().optional(),
+    model: z.string().trim().max(200).nullable().optional(),
+    temperature: z.number().min(0).max(2).nullable().optional(),
+    maxTokens: z.number().int().min(64, { message: "At least 64 tokens" }).max(8192).nullable().optional(),
+    responseStyle: z.enum(AGENT_RESPONSE_STYLES).optional(),
+    voiceId: z.string().trim().max(100).nullable().optional(),
+    browserVoice: z.string().max(200).nullable().optional(),
+    autoReply: z.boolean().optional(),
+    wakePhrases: z.array(z.string().trim().min(1).max(60)).max(10, { message: "At most 10 wake phrases" }).nullable().optional(),
 });
 
 export const agentsUpdateSchema = agentsInsertSchema.extend({
     id: z.string().min(1, { message: "ID is required" }),
-})
\ No newline at end of file
+})
+
+export const agentMemoryUpdateSchema = z.object({
+    id: z.string().min(1, { message: "ID is required" }),
+    kind: z.enum(AGENT_MEMORY_KINDS),
+    content: z.string().trim().min(1, { message: "Memory cannot be empty" }).max(1000),
+});
+
+export const playgroundTurnSchema = z.object({
+    role: z.enum(["user", "assistant"]),
+    content: z.string(),
+});
+
+export const playgroundFixtureInsertSchema = z.object({
+    agentId: z.string().min(1, { message: "Agent is required" }),
+    name: z.string().trim().min(1, { message: "Name is required" }).max(200),
+    instructions: z.string().min(1, { message: "Instructions are required" }),
+    transcript: z.array(playgroundTurnSchema).min(2, { message: "Transcript is empty" }),
+});
+
+export const AGENT_EXPORT_FORMAT = "collabsphereai.agent";
+
+// Portable agent definition for sharing across accounts; knowledge base, memory and history stay behind
+export const agentExportSchema = z.object({
+    format: z.literal(AGENT_EXPORT_FORMAT),
+    version: z.literal(1),
+    agent: agentsInsertSchema,
+});
+
+export type AgentExport = z.infer<typeof agentExportSchema>;
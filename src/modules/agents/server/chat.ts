@@ -0,0 +1,277 @@
+import { headers } from "next/headers";
+import { db } from "@/db";
+import { createHash } from "crypto";
+import { agents, agentWakeClaims, meetings } from "@/db/schema";
+import { eq, lt } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { getLLMProvider, LLMCompletionOptions, LLMProvider, LLMProviderName, LLMTool, LLMToolCall } from "@/lib/llm";
+import { isAdmittedToMeeting } from "@/modules/meetings/server/participants";
+import { isSameLanguage, languageName } from "@/modules/meetings/languages";
+import { ChatMessage, getConversationMemory } from "@/modules/meetings/server/chat-memory";
+import { KnowledgePassage, searchAgentKnowledge } from "./knowledge";
+import { recallAgentMemories, RecalledMemory } from "./memory";
+import { AGENT_TOOL_DEFINITIONS, AgentToolContext, AgentToolInvocation, runAgentTool } from "./tools";
+
+export const MAX_TOKENS_INITIAL = 1024;
+export const MAX_TOKENS_CONTINUE = 768;
+export const MAX_CONTINUATIONS = 3;
+
+// Every participant's browser may hear the same wake phrase; the first claim of an utterance in this window answers
+const WAKE_REPLY_CLAIM_WINDOW_MS = 8000;
+
+// Sampling shared by the buffered and streaming chat routes; agents may override temperature
+export const CHAT_SAMPLING = {
+    temperature: 0.3,
+    topP: 0.9,
+    presencePenalty: 0.1,
+    frequencyPenalty: 0.2,
+};
+
+type Agent = typeof agents.$inferSelect;
+
+const RESPONSE_STYLE_RULES: Record<Agent["responseStyle"], string> = {
+    concise: "\n- Keep answers short: one to three sentences unless asked for more.",
+    balanced: "\n- Answer completely but be concise. Use short paragraphs.",
+    detailed: "\n- Give thorough answers with context and examples. Use short paragraphs.",
+};
+
+// Earlier turns of a playground conversation, kept by the client
+export type PlaygroundTurn = { role: "user" | "assistant"; content: string };
+
+export type AgentChatRequest = {
+    message?: string;
+    agentId?: string;
+    meetingId?: string;
+    // "wake" replies are claimed per utterance so only one browser answers it
+    trigger?: "manual" | "wake";
+    // Owner-only testing from the agent page: draft instructions and a client-side history
+    playground?: {
+        instructions?: string;
+        history?: PlaygroundTurn[];
+    };
+};
+
+type PreparedAgentChat = {
+    ok: true;
+    agent: Agent;
+    llm: LLMProvider;
+    // Sampling for the first request; continuations reuse it with MAX_TOKENS_CONTINUE
+    options: LLMCompletionOptions & { maxTokens: number };
+    messages: ChatMessage[];
+    // Knowledge base passages in prompt order; answers cite them as [1], [2], ...
+    sources: KnowledgePassage[];
+    // Offered on the first request of in-call turns only
+    tools: LLMTool[];
+    toolContext: AgentToolContext | null;
+    // Set for playground requests, which also report the prompt, usage and latency
+    playground: boolean;
+};
+
+type AgentChatResult = PreparedAgentChat | { ok: false; status: number; error: string };
+
+/**
+ * Resolves the agent and builds the prompt for a chat turn. In-call questions carry
+ * the meeting so earlier turns can be used as context; those require a signed-in
+ * participant of the meeting. Outside a call only the agent's owner may chat, from
+ * the playground.
+ */
+export async function prepareAgentChat({ message, agentId, meetingId, trigger, playground }: AgentChatRequest): Promise<AgentChatResult> {
+    if (!message || !agentId) {
+        return { ok: false, status: 400, error: "Missing message or agentId" };
+    }
+    // Playground turns expose the full prompt, so they must never ride on a meeting's access check
+    if (meetingId && playground) {
+        return { ok: false, status: 400, error: "A playground request cannot carry a meetingId" };
+    }
+
+    // Get agent instructions from database
+    const [agent] = await db
+        .select()
+        .from(agents)
+        .where(eq(agents.id, agentId));
+
+    if (!agent) {
+        return { ok: false, status: 404, error: "Agent not found" };
+    }
+
+    const llm = getLLMProvider(agent.provider as LLMProviderName | null);
+    if (!llm) {
+        return { ok: false, status: 503, error: "LLM provider is not configured" };
+    }
+
+    let history: ChatMessage[] = [];
+    let toolContext: AgentToolContext | null = null;
+    let language: string | null = null;
+    if (meetingId) {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+        const [meeting] = await db
+            .select()
+            .from(meetings)
+            .where(eq(meetings.id, meetingId));
+
+        // Answers draw on the meeting's transcript and tools, so only people let into the call may ask
+        if (!session || !meeting || !(await isAdmittedToMeeting(meeting, session.user.id))) {
+            return { ok: false, status: 404, error: "Meeting not found" };
+        }
+        if (trigger === "wake" && !(await claimWakeReply(meeting.id, message))) {
+            return { ok: false, status: 409, error: "Another participant is already getting this reply" };
+        }
+        history = await getConversationMemory(meeting.id, { latestMessage: message });
+        toolContext = { meetingId: meeting.id, agentName: agent.name };
+        language = meeting.language;
+    } else if (playground) {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+        if (!session || session.user.id !== agent.userId) {
+            return { ok: false, status: 404, error: "Agent not found" };
+        }
+        history = (playground.history ?? [])
+            .filter((turn) => (turn.role === "user" || turn.role === "assistant") && typeof turn.content === "string")
+            .map((turn) => ({ role: turn.role, content: turn.content }));
+    } else {
+        // The knowledge base and memories are private to the meeting's participants and the agent's owner
+        return { ok: false, status: 401, error: "Unauthorized" };
+    }
+    const instructions = playground?.instructions?.trim() || agent.instructions;
+
+    // Retrieval is best-effort: a failing embedding backend must not take chat down
+    const [sources, memories] = await Promise.all([
+        searchAgentKnowledge(agent.id, message).catch((error) => {
+            console.error("Knowledge base search failed:", error);
+            return [];
+        }),
+        recallAgentMemories(agent.id, message).catch((error) => {
+            console.error("Agent memory recall failed:", error);
+            return [];
+        }),
+    ]);
+
+    const systemPrompt = (
+        (instructions || "You are a helpful assistant in a video call.") +
+        "\nStyle rules:" +
+        "\n- Be clear, natural, and human. Avoid robotic phrasing." +
+        RESPONSE_STYLE_RULES[agent.responseStyle] +
+        "\n- Use lists when helpful (keep them focused)." +
+        (history.length > 0
+            ? "\nThe conversation so far is included" +
+              (toolContext ? "; participant lines are prefixed with the speaker's name" : "") +
+              ". Use it to answer follow-up questions."
+            : "") +
+        (memories.length > 0
+            ? "\nYou remember some facts and decisions from earlier meetings. Use them when relevant, but prefer what is said in this meeting if they conflict."
+            : "") +
+        (sources.length > 0
+            ? "\nUse the numbered passages from your knowledge base when relevant and cite them inline like [1]. Do not cite passages you did not use."
+            : "") +
+        (language && !isSameLanguage(language, "en")
+            ? `\nThe meeting is held in ${languageName(language)}. Reply in ${languageName(language)} unless you are asked to use another language.`
+            : "") +
+        (toolContext
+            ? "\nYou can create and list this meeting's tasks with tools. Only call a tool when asked to. After a tool runs, confirm what you did in one short sentence."
+            : "")
+    );
+
+    return {
+        ok: true,
+        agent,
+        llm,
+        options: {
+            ...CHAT_SAMPLING,
+            model: agent.model || undefined,
+            temperature: agent.temperature ?? CHAT_SAMPLING.temperature,
+            maxTokens: agent.maxTokens ?? MAX_TOKENS_INITIAL,
+        },
+        messages: [
+            { role: "system", content: systemPrompt },
+            ...(memories.length > 0
+                ? [{ role: "system" as const, content: formatMemories(memories) }]
+                : []),
+            ...(sources.length > 0
+                ? [{ role: "system" as const, content: formatSources(sources) }]
+                : []),
+            ...history,
+            { role: "user", content: message },
+        ],
+        sources,
+        tools: toolContext ? AGENT_TOOL_DEFINITIONS : [],
+        toolContext,
+        playground: !!playground,
+    };
+}
+
+// Each browser that heard an utterance claims it under its own user, so the key is the question alone;
+// transcriptions of it differ in case and punctuation between browsers
+function wakeUtteranceKey(question: string) {
+    const normalized = question.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+    return createHash("sha256").update(normalized).digest("hex");
+}
+
+async function claimWakeReply(meetingId: string, question: string) {
+    const now = new Date();
+    const [claimed] = await db
+        .insert(agentWakeClaims)
+        .values({ meetingId, utteranceKey: wakeUtteranceKey(question), claimedAt: now })
+        .onConflictDoUpdate({
+            target: [agentWakeClaims.meetingId, agentWakeClaims.utteranceKey],
+            set: { claimedAt: now },
+            // Asking the same question again later is a new utterance
+            setWhere: lt(agentWakeClaims.claimedAt, new Date(now.getTime() - WAKE_REPLY_CLAIM_WINDOW_MS)),
+        })
+        .returning({ id: agentWakeClaims.id });
+    return !!claimed;
+}
+
+/**
+ * Runs the tools the model asked for and returns the conversation extended with
+ * the call and its results, ready for the request that confirms the outcome.
+ */
+export async function runToolCalls(
+    chat: PreparedAgentChat,
+    messages: ChatMessage[],
+    calls: LLMToolCall[],
+    partial: string,
+): Promise<{ invocations: AgentToolInvocation[]; messages: ChatMessage[] }> {
+    if (!chat.toolContext) {
+        throw new Error("Tools are only available during a meeting");
+    }
+    const invocations: AgentToolInvocation[] = [];
+    for (const call of calls) {
+        invocations.push(await runAgentTool(call, chat.toolContext));
+    }
+    return {
+        invocations,
+        messages: [
+            ...messages,
+            { role: "assistant", content: partial, toolCalls: calls },
+            ...invocations.map((invocation) => ({
+                role: "tool" as const,
+                toolCallId: invocation.id,
+                content: JSON.stringify({ ok: invocation.ok, summary: invocation.summary, result: invocation.result }),
+            })),
+        ],
+    };
+}
+
+function formatMemories(memories: RecalledMemory[]) {
+    return "What you remember from earlier meetings:\n" + memories
+        .map((memory) => `- (${memory.kind}, ${memory.createdAt.toISOString().slice(0, 10)}) ${memory.content}`)
+        .join("\n");
+}
+
+function formatSources(sources: KnowledgePassage[]) {
+    return "Knowledge base passages:\n\n" + sources
+        .map((source, i) => `[${i + 1}] ${source.documentName}\n${source.content}`)
+        .join("\n\n");
+}
+
+// Messages asking the model to pick up where a truncated answer stopped
+export function continuationMessages(messages: ChatMessage[], partial: string): ChatMessage[] {
+    return [
+        ...messages,
+        { role: "assistant", content: partial },
+        { role: "user", content: "Please continue the previous answer. Do not repeat content." },
+    ];
+}
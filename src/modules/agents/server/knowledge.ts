@@ -0,0 +1,156 @@
+import { db } from "@/db";
+import { agentDocumentChunks, agentDocuments } from "@/db/schema";
+import { and, asc, cosineDistance, eq, lt } from "drizzle-orm";
+import { extractText, getDocumentProxy } from "unpdf";
+import { embedTexts, isEmbeddingConfigured } from "@/lib/llm";
+import { enqueueJob, getJobPayload, Job } from "@/modules/jobs/server/queue";
+import { JobType } from "@/modules/jobs/types";
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+const DOCUMENT_TYPES: Record<string, string> = {
+    md: "text/markdown",
+    markdown: "text/markdown",
+    txt: "text/plain",
+    pdf: "application/pdf",
+};
+
+// ~300 tokens per passage, overlapping so a sentence cut at a boundary still appears whole once
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// Passages further than this (cosine distance) from the question are not worth citing
+const MAX_DISTANCE = 0.6;
+
+export type KnowledgePassage = {
+    documentName: string;
+    content: string;
+};
+
+export function getDocumentMimeType(fileName: string): string | null {
+    const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+    return DOCUMENT_TYPES[extension] ?? null;
+}
+
+export async function extractDocumentText(data: ArrayBuffer, mimeType: string): Promise<string> {
+    if (mimeType === "application/pdf") {
+        const pdf = await getDocumentProxy(new Uint8Array(data));
+        const { text } = await extractText(pdf, { mergePages: true });
+        return text;
+    }
+    return new TextDecoder().decode(data);
+}
+
+/**
+ * Splits text into overlapping passages, preferring paragraph and sentence
+ * boundaries so each chunk reads on its own when quoted back to the model.
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+    const normalized = text.replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+        let end = Math.min(start + size, normalized.length);
+        if (end < normalized.length) {
+            const window = normalized.slice(start, end);
+            const paragraph = window.lastIndexOf("\n\n");
+            const sentence = Math.max(window.lastIndexOf(". "), window.lastIndexOf(".\n"));
+            const breakAt = paragraph > size / 2 ? paragraph : sentence > size / 2 ? sentence + 1 : -1;
+            if (breakAt > 0) end = start + breakAt;
+        }
+        const chunk = normalized.slice(start, end).trim();
+        if (chunk) chunks.push(chunk);
+        if (end >= normalized.length) break;
+        // Start the overlap on a word boundary
+        let next = end - overlap;
+        const space = normalized.slice(next, end).search(/\s/);
+        if (space !== -1) next += space + 1;
+        start = Math.max(next, start + 1);
+    }
+
+    return chunks;
+}
+
+// Stores the extracted text and queues chunking/embedding for the job worker
+export async function createAgentDocument(input: { agentId: string; name: string; mimeType: string; content: string }) {
+    const [document] = await db.insert(agentDocuments).values(input).returning();
+    await enqueueJob(JobType.AgentDocument, { payload: { documentId: document.id } });
+    return document;
+}
+
+export async function runAgentDocumentJob(job: Job) {
+    const { documentId } = getJobPayload<{ documentId: string }>(job);
+    if (!documentId) return;
+
+    const [document] = await db.select().from(agentDocuments).where(eq(agentDocuments.id, documentId));
+    if (!document) return;
+
+    const chunks = chunkText(document.content);
+    const embeddings = await embedTexts(chunks);
+
+    // Replace any chunks from an earlier attempt in the same batch as the status change
+    await db.batch([
+        db.delete(agentDocumentChunks).where(eq(agentDocumentChunks.documentId, document.id)),
+        ...(chunks.length > 0
+            ? [db.insert(agentDocumentChunks).values(
+                chunks.map((content, chunkIndex) => ({
+                    documentId: document.id,
+                    agentId: document.agentId,
+                    chunkIndex,
+                    content,
+                    embedding: embeddings[chunkIndex],
+                })),
+            )]
+            : []),
+        db
+            .update(agentDocuments)
+            .set({ status: "ready", error: null, chunkCount: chunks.length, updatedAt: new Date() })
+            .where(eq(agentDocuments.id, document.id)),
+    ]);
+}
+
+// Called once the queue gives up so the upload does not stay "processing" forever
+export async function failAgentDocumentJob(job: Job, error: unknown) {
+    const { documentId } = getJobPayload<{ documentId: string }>(job);
+    if (!documentId) return;
+
+    await db
+        .update(agentDocuments)
+        .set({
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+            updatedAt: new Date(),
+        })
+        .where(eq(agentDocuments.id, documentId));
+}
+
+/**
+ * Most relevant passages from the agent's documents for `query`. Returns an empty
+ * list when the agent has no documents or embeddings are not configured, so chat
+ * keeps working without a knowledge base.
+ */
+export async function searchAgentKnowledge(agentId: string, query: string, { limit = 4 } = {}): Promise<KnowledgePassage[]> {
+    if (!isEmbeddingConfigured()) return [];
+
+    const [anyChunk] = await db
+        .select({ id: agentDocumentChunks.id })
+        .from(agentDocumentChunks)
+        .where(eq(agentDocumentChunks.agentId, agentId))
+        .limit(1);
+    if (!anyChunk) return [];
+
+    const [embedding] = await embedTexts([query]);
+    const distance = cosineDistance(agentDocumentChunks.embedding, embedding);
+
+    return db
+        .select({
+            documentName: agentDocuments.name,
+            content: agentDocumentChunks.content,
+        })
+        .from(agentDocumentChunks)
+        .innerJoin(agentDocuments, eq(agentDocuments.id, agentDocumentChunks.documentId))
+        .where(and(eq(agentDocumentChunks.agentId, agentId), lt(distance, MAX_DISTANCE)))
+        .orderBy(asc(distance))
+        .limit(limit);
+}
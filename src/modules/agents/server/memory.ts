@@ -0,0 +1,164 @@
+import { db } from "@/db";
+import { agentMemories, meetings } from "@/db/schema";
+import { and, asc, cosineDistance, desc, eq, gt, isNotNull, isNull, lt, lte, ne, or } from "drizzle-orm";
+import { embedTexts, getLLMProvider, isEmbeddingConfigured } from "@/lib/llm";
+import { Job } from "@/modules/jobs/server/queue";
+import { getMeetingSummary } from "@/modules/meetings/server/insights";
+
+type AgentMemory = typeof agentMemories.$inferSelect;
+type MemoryKind = AgentMemory["kind"];
+
+// Memories are short, so a looser cutoff than knowledge base passages still filters noise
+const MAX_DISTANCE = 0.7;
+const MAX_MEMORIES_PER_MEETING = 8;
+
+export type RecalledMemory = Pick<AgentMemory, "kind" | "content" | "createdAt">;
+
+// Embedding is best-effort: without a provider memories are stored and recalled by recency
+async function embedMemory(content: string) {
+    if (!isEmbeddingConfigured()) return null;
+    try {
+        const [embedding] = await embedTexts([content]);
+        return embedding;
+    } catch (error) {
+        console.error("[agent-memory] Failed to embed memory:", error);
+        return null;
+    }
+}
+
+function parseMemories(raw: string): { kind: MemoryKind; content: string }[] {
+    const start = raw.indexOf("[");
+    const end = raw.lastIndexOf("]");
+    if (start < 0 || end <= start) throw new Error("Memory extraction returned no JSON array");
+    const parsed = JSON.parse(raw.slice(start, end + 1)) as { kind?: string; content?: unknown }[];
+    return parsed
+        .flatMap((item): { kind: MemoryKind; content: string }[] =>
+            typeof item?.content === "string" && item.content.trim()
+                ? [{ kind: item.kind === "decision" ? "decision" : "fact", content: item.content.trim() }]
+                : [],
+        )
+        .slice(0, MAX_MEMORIES_PER_MEETING);
+}
+
+/**
+ * Distills durable facts and decisions from a completed meeting's summary into the
+ * agent's long-term memory. Re-running replaces the memories taken from that meeting,
+ * except those the owner has edited.
+ */
+export async function runAgentMemoryJob(job: Job) {
+    if (!job.meetingId) return;
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, job.meetingId));
+    if (!meeting) return;
+
+    const summary = (await getMeetingSummary(meeting.id))?.summaryText?.trim();
+    if (!summary) return;
+
+    const llm = getLLMProvider();
+    if (!llm) {
+        console.warn("[agent-memory] LLM provider is not configured. Skipping memory extraction.");
+        return;
+    }
+
+    // This meeting's own memories are about to be replaced, so they do not count as known,
+    // except those the owner edited, which are kept
+    const existing = await db
+        .select({ content: agentMemories.content })
+        .from(agentMemories)
+        .where(and(
+            eq(agentMemories.agentId, meeting.agentId),
+            or(
+                isNull(agentMemories.meetingId),
+                ne(agentMemories.meetingId, meeting.id),
+                gt(agentMemories.updatedAt, agentMemories.createdAt),
+            ),
+        ))
+        .orderBy(desc(agentMemories.createdAt))
+        .limit(50);
+
+    const completion = await llm.complete([
+        {
+            role: "system",
+            content: [
+                "You maintain the long-term memory of an AI assistant that joins a team's meetings.",
+                "From the meeting summary, extract durable facts (people, roles, projects, preferences, constraints) and decisions worth remembering in future meetings.",
+                "Skip small talk, one-off logistics and anything already in the existing memories.",
+                `Return a JSON array (max ${MAX_MEMORIES_PER_MEETING}) of {"kind": "fact" | "decision", "content": "one self-contained sentence"}. Return [] if nothing is worth keeping. JSON only.`,
+            ].join("\n"),
+        },
+        {
+            role: "user",
+            content: [
+                `Meeting: ${meeting.name} (${(meeting.endedAt ?? meeting.createdAt).toISOString().slice(0, 10)})`,
+                `Summary:\n${summary}`,
+                `Existing memories:\n${existing.map((m) => `- ${m.content}`).join("\n") || "(none)"}`,
+            ].join("\n\n"),
+        },
+    ], { temperature: 0.1, maxTokens: 600 });
+
+    const memories = parseMemories(completion.text);
+    const embeddings = await Promise.all(memories.map((memory) => embedMemory(memory.content)));
+
+    await db.batch([
+        db.delete(agentMemories).where(and(
+            eq(agentMemories.meetingId, meeting.id),
+            lte(agentMemories.updatedAt, agentMemories.createdAt),
+        )),
+        ...(memories.length > 0
+            ? [db.insert(agentMemories).values(
+                memories.map((memory, i) => ({
+                    agentId: meeting.agentId,
+                    meetingId: meeting.id,
+                    kind: memory.kind,
+                    content: memory.content,
+                    embedding: embeddings[i],
+                })),
+            )]
+            : []),
+    ]);
+}
+
+export async function updateAgentMemory(id: string, values: { kind: MemoryKind; content: string }) {
+    const [memory] = await db
+        .update(agentMemories)
+        .set({ ...values, embedding: await embedMemory(values.content), updatedAt: new Date() })
+        .where(eq(agentMemories.id, id))
+        .returning();
+    return memory;
+}
+
+/**
+ * Memories worth recalling for `query`: the closest by embedding when available,
+ * otherwise the most recent ones.
+ */
+export async function recallAgentMemories(agentId: string, query: string, { limit = 5 } = {}): Promise<RecalledMemory[]> {
+    const columns = {
+        kind: agentMemories.kind,
+        content: agentMemories.content,
+        createdAt: agentMemories.createdAt,
+    };
+
+    const [anyMemory] = await db
+        .select({ id: agentMemories.id })
+        .from(agentMemories)
+        .where(eq(agentMemories.agentId, agentId))
+        .limit(1);
+    if (!anyMemory) return [];
+
+    const embedding = await embedMemory(query);
+    if (embedding) {
+        const distance = cosineDistance(agentMemories.embedding, embedding);
+        return db
+            .select(columns)
+            .from(agentMemories)
+            .where(and(eq(agentMemories.agentId, agentId), isNotNull(agentMemories.embedding), lt(distance, MAX_DISTANCE)))
+            .orderBy(asc(distance))
+            .limit(limit);
+    }
+
+    return db
+        .select(columns)
+        .from(agentMemories)
+        .where(eq(agentMemories.agentId, agentId))
+        .orderBy(desc(agentMemories.createdAt))
+        .limit(limit);
+}
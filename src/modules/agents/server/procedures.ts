@@ -1,8 +1,10 @@
 import { createTRPCRouter,baseProcedure, protectedProcedure } from "@/trpc/init";
 import {db} from "@/db";
-import { agents, meetings } from "@/db/schema";
+import { agentDocuments, agentMemories, agentPlaygroundFixtures, agents, agentVersions, meetings } from "@/db/schema";
 import { TRPCError } from "@trpc/server";
-import { agentsInsertSchema } from "../schemas";
+import { agentMemoryUpdateSchema, agentsInsertSchema, playgroundFixtureInsertSchema, playgroundTurnSchema } from "../schemas";
+import { updateAgentMemory } from "./memory";
+import { recordAgentVersion, snapshotOf } from "./versions";
 import z from "zod";
 import { and, count, desc,eq, getTableColumns, ilike, sql } from "drizzle-orm";
 import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MIN_PAGE_SIZE } from "@/constants";
@@ -27,6 +29,7 @@ export const agentsRouter=createTRPCRouter({
                 message:"Agent not found",
             });
         }
+        await recordAgentVersion(updatedAgent);
         return updatedAgent;
     }),
     remove: protectedProcedure
@@ -129,6 +132,233 @@ export const agentsRouter=createTRPCRouter({
             userId:ctx.auth.user.id,
         })
         .returning();
+        await recordAgentVersion(createdAgent);
         return createdAgent;
     }),
+    getVersions: protectedProcedure
+    .input(z.object({ agentId: z.string() }))
+    .query(async ({ input, ctx }) => {
+        return db
+            .select({
+                ...getTableColumns(agentVersions),
+                meetingCount: count(meetings.id),
+            })
+            .from(agentVersions)
+            .innerJoin(agents, eq(agents.id, agentVersions.agentId))
+            .leftJoin(meetings, eq(meetings.agentVersionId, agentVersions.id))
+            .where(
+                and(
+                    eq(agentVersions.agentId, input.agentId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            )
+            .groupBy(agentVersions.id)
+            .orderBy(desc(agentVersions.version));
+    }),
+    rollback: protectedProcedure
+    .input(z.object({ versionId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+        const [version] = await db
+            .select(getTableColumns(agentVersions))
+            .from(agentVersions)
+            .innerJoin(agents, eq(agents.id, agentVersions.agentId))
+            .where(
+                and(
+                    eq(agentVersions.id, input.versionId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!version) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Version not found",
+            });
+        }
+        const [restoredAgent] = await db
+            .update(agents)
+            .set({ ...snapshotOf(version), updatedAt: new Date() })
+            .where(eq(agents.id, version.agentId))
+            .returning();
+        // Rolling back adds a revision instead of rewriting history
+        await recordAgentVersion(restoredAgent, { restoredFrom: version.version });
+        return restoredAgent;
+    }),
+    getDocuments: protectedProcedure
+    .input(z.object({ agentId: z.string() }))
+    .query(async ({ input, ctx }) => {
+        return db
+            .select({
+                id: agentDocuments.id,
+                name: agentDocuments.name,
+                mimeType: agentDocuments.mimeType,
+                status: agentDocuments.status,
+                error: agentDocuments.error,
+                chunkCount: agentDocuments.chunkCount,
+                createdAt: agentDocuments.createdAt,
+            })
+            .from(agentDocuments)
+            .innerJoin(agents, eq(agents.id, agentDocuments.agentId))
+            .where(
+                and(
+                    eq(agentDocuments.agentId, input.agentId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            )
+            .orderBy(desc(agentDocuments.createdAt));
+    }),
+    removeDocument: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+        const [document] = await db
+            .select({ id: agentDocuments.id })
+            .from(agentDocuments)
+            .innerJoin(agents, eq(agents.id, agentDocuments.agentId))
+            .where(
+                and(
+                    eq(agentDocuments.id, input.id),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!document) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Document not found",
+            });
+        }
+        // Chunks are removed by the foreign key cascade
+        await db.delete(agentDocuments).where(eq(agentDocuments.id, document.id));
+        return document;
+    }),
+    getMemories: protectedProcedure
+    .input(z.object({ agentId: z.string() }))
+    .query(async ({ input, ctx }) => {
+        return db
+            .select({
+                id: agentMemories.id,
+                kind: agentMemories.kind,
+                content: agentMemories.content,
+                meetingId: agentMemories.meetingId,
+                meetingName: meetings.name,
+                createdAt: agentMemories.createdAt,
+                updatedAt: agentMemories.updatedAt,
+            })
+            .from(agentMemories)
+            .innerJoin(agents, eq(agents.id, agentMemories.agentId))
+            .leftJoin(meetings, eq(meetings.id, agentMemories.meetingId))
+            .where(
+                and(
+                    eq(agentMemories.agentId, input.agentId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            )
+            .orderBy(desc(agentMemories.createdAt));
+    }),
+    updateMemory: protectedProcedure
+    .input(agentMemoryUpdateSchema)
+    .mutation(async ({ input, ctx }) => {
+        const [memory] = await db
+            .select({ id: agentMemories.id })
+            .from(agentMemories)
+            .innerJoin(agents, eq(agents.id, agentMemories.agentId))
+            .where(
+                and(
+                    eq(agentMemories.id, input.id),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!memory) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Memory not found",
+            });
+        }
+        return updateAgentMemory(memory.id, { kind: input.kind, content: input.content });
+    }),
+    removeMemory: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+        const [memory] = await db
+            .select({ id: agentMemories.id })
+            .from(agentMemories)
+            .innerJoin(agents, eq(agents.id, agentMemories.agentId))
+            .where(
+                and(
+                    eq(agentMemories.id, input.id),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!memory) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Memory not found",
+            });
+        }
+        await db.delete(agentMemories).where(eq(agentMemories.id, memory.id));
+        return memory;
+    }),
+    getFixtures: protectedProcedure
+    .input(z.object({ agentId: z.string() }))
+    .query(async ({ input, ctx }) => {
+        const fixtures = await db
+            .select(getTableColumns(agentPlaygroundFixtures))
+            .from(agentPlaygroundFixtures)
+            .innerJoin(agents, eq(agents.id, agentPlaygroundFixtures.agentId))
+            .where(
+                and(
+                    eq(agentPlaygroundFixtures.agentId, input.agentId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            )
+            .orderBy(desc(agentPlaygroundFixtures.createdAt));
+        return fixtures.map((fixture) => ({
+            ...fixture,
+            transcript: z.array(playgroundTurnSchema).catch([]).parse(JSON.parse(fixture.transcript)),
+        }));
+    }),
+    createFixture: protectedProcedure
+    .input(playgroundFixtureInsertSchema)
+    .mutation(async ({ input, ctx }) => {
+        const [agent] = await db
+            .select({ id: agents.id })
+            .from(agents)
+            .where(
+                and(
+                    eq(agents.id, input.agentId),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!agent) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Agent not found",
+            });
+        }
+        const [fixture] = await db
+            .insert(agentPlaygroundFixtures)
+            .values({ ...input, transcript: JSON.stringify(input.transcript) })
+            .returning();
+        return fixture;
+    }),
+    removeFixture: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+        const [fixture] = await db
+            .select({ id: agentPlaygroundFixtures.id })
+            .from(agentPlaygroundFixtures)
+            .innerJoin(agents, eq(agents.id, agentPlaygroundFixtures.agentId))
+            .where(
+                and(
+                    eq(agentPlaygroundFixtures.id, input.id),
+                    eq(agents.userId, ctx.auth.user.id),
+                ),
+            );
+        if (!fixture) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Fixture not found",
+            });
+        }
+        await db.delete(agentPlaygroundFixtures).where(eq(agentPlaygroundFixtures.id, fixture.id));
+        return fixture;
+    }),
 });
\ No newline at end of file
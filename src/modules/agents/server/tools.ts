@@ -0,0 +1,203 @@
+import { db } from "@/db";
+import { conversationChunks, meetingParticipants, meetings, user } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { LLMTool, LLMToolCall } from "@/lib/llm";
+import { createTask, getMeetingTasks } from "@/modules/tasks/server/tasks";
+
+export type AgentToolContext = {
+    meetingId: string;
+    agentName: string;
+};
+
+export type AgentToolInvocation = {
+    id: string;
+    name: string;
+    ok: boolean;
+    // One-line human summary, logged to the transcript and sent to the call UI
+    summary: string;
+    // Structured result handed back to the model
+    result: unknown;
+};
+
+type AgentTool = {
+    definition: LLMTool;
+    run(args: Record<string, unknown>, context: AgentToolContext): Promise<{ summary: string; result: unknown }>;
+};
+
+const PRIORITIES = ["low", "medium", "high"] as const;
+const STATUSES = ["todo", "in-progress", "done"] as const;
+
+const asString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+// Owner and registered participants of the meeting, used to resolve spoken assignee names
+async function getMeetingPeople(meetingId: string) {
+    const [owner, participants] = await Promise.all([
+        db
+            .select({ id: user.id, name: user.name })
+            .from(meetings)
+            .innerJoin(user, eq(user.id, meetings.userId))
+            .where(eq(meetings.id, meetingId)),
+        db
+            .select({ id: user.id, name: user.name })
+            .from(meetingParticipants)
+            .innerJoin(user, eq(user.id, meetingParticipants.userId))
+            .where(eq(meetingParticipants.meetingId, meetingId)),
+    ]);
+    return [...owner, ...participants];
+}
+
+// Full-name match first, then a unique first-name match ("assign to Omar")
+function matchPerson(people: { id: string; name: string }[], spoken: string) {
+    const target = spoken.toLowerCase();
+    const exact = people.find((person) => person.name.toLowerCase() === target);
+    if (exact) return exact;
+    const byFirstName = people.filter((person) => person.name.toLowerCase().split(/\s+/)[0] === target.split(/\s+/)[0]);
+    const unique = new Map(byFirstName.map((person) => [person.id, person]));
+    return unique.size === 1 ? [...unique.values()][0] : undefined;
+}
+
+const createTaskTool: AgentTool = {
+    definition: {
+        name: "create_task",
+        description: "Create a task for this meeting's project board. Use when someone asks to add, create or track a task or action item.",
+        parameters: {
+            type: "object",
+            properties: {
+                title: { type: "string", description: "Short imperative task title, e.g. 'Set up CI'" },
+                description: { type: "string", description: "Optional details" },
+                assignee: { type: "string", description: "Name of the person the task is assigned to, as spoken" },
+                priority: { type: "string", enum: PRIORITIES },
+                dueDate: { type: "string", description: "Due date in ISO 8601 format (YYYY-MM-DD)" },
+            },
+            required: ["title"],
+        },
+    },
+    async run(args, { meetingId }) {
+        const title = asString(args.title);
+        if (!title) throw new Error("A task title is required");
+
+        const spokenAssignee = asString(args.assignee);
+        const person = spokenAssignee ? matchPerson(await getMeetingPeople(meetingId), spokenAssignee) : undefined;
+        const priority = PRIORITIES.find((p) => p === asString(args.priority)?.toLowerCase()) ?? "medium";
+        const dueDate = asString(args.dueDate);
+        const parsedDueDate = dueDate && !isNaN(new Date(dueDate).getTime()) ? new Date(dueDate) : null;
+
+        const task = await createTask({
+            title,
+            description: asString(args.description),
+            assigneeId: person?.id,
+            // Keep the spoken name when it does not match anyone in the meeting
+            assignee: person ? undefined : spokenAssignee,
+            priority,
+            dueDate: parsedDueDate,
+            meetingId,
+            aiGenerated: true,
+        });
+
+        const details = [
+            task.assignee ? `assigned to ${task.assignee}` : null,
+            `${task.priority} priority`,
+            parsedDueDate ? `due ${parsedDueDate.toISOString().slice(0, 10)}` : null,
+        ].filter(Boolean).join(", ");
+        return {
+            summary: `Created task "${task.title}" (${details})`,
+            result: {
+                id: task.id,
+                title: task.title,
+                assignee: task.assignee,
+                assigneeMatched: !!person,
+                priority: task.priority,
+                dueDate: task.dueDate,
+            },
+        };
+    },
+};
+
+const listTasksTool: AgentTool = {
+    definition: {
+        name: "list_tasks",
+        description: "List this meeting's tasks. Use when someone asks what tasks exist, are open, or are assigned to someone.",
+        parameters: {
+            type: "object",
+            properties: {
+                status: {
+                    type: "string",
+                    enum: ["open", ...STATUSES, "all"],
+                    description: "'open' means not done (default)",
+                },
+                assignee: { type: "string", description: "Only tasks assigned to this person" },
+            },
+        },
+    },
+    async run(args, { meetingId }) {
+        const status = asString(args.status) ?? "open";
+        const assignee = asString(args.assignee)?.toLowerCase();
+
+        const found = (await getMeetingTasks(meetingId))
+            .filter((task) =>
+                status === "all" ? true : status === "open" ? task.status !== "done" : task.status === status,
+            )
+            .filter((task) => {
+                if (!assignee) return true;
+                const name = (task.assigneeName ?? task.assignee ?? "").toLowerCase();
+                return name === assignee || name.split(/\s+/)[0] === assignee.split(/\s+/)[0];
+            });
+
+        return {
+            summary: `Listed ${found.length} ${status === "all" ? "" : `${status} `}task${found.length === 1 ? "" : "s"}${assignee ? ` for ${args.assignee}` : ""}`,
+            result: {
+                total: found.length,
+                // Keep the spoken answer manageable
+                tasks: found.slice(0, 15).map((task) => ({
+                    title: task.title,
+                    status: task.status,
+                    priority: task.priority,
+                    assignee: task.assigneeName ?? task.assignee,
+                    dueDate: task.dueDate,
+                })),
+            },
+        };
+    },
+};
+
+const AGENT_TOOLS: Record<string, AgentTool> = {
+    [createTaskTool.definition.name]: createTaskTool,
+    [listTasksTool.definition.name]: listTasksTool,
+};
+
+export const AGENT_TOOL_DEFINITIONS = Object.values(AGENT_TOOLS).map((tool) => tool.definition);
+
+/**
+ * Executes a tool call from the model and logs it to the meeting transcript.
+ * Failures are returned (not thrown) so the model can explain them to the speaker.
+ */
+export async function runAgentTool(call: LLMToolCall, context: AgentToolContext): Promise<AgentToolInvocation> {
+    const tool = AGENT_TOOLS[call.name];
+    let invocation: AgentToolInvocation;
+    try {
+        if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+        let args: Record<string, unknown>;
+        try {
+            args = JSON.parse(call.arguments || "{}");
+        } catch {
+            throw new Error("Tool arguments were not valid JSON");
+        }
+        const { summary, result } = await tool.run(args, context);
+        invocation = { id: call.id, name: call.name, ok: true, summary, result };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        invocation = { id: call.id, name: call.name, ok: false, summary: `${call.name} failed: ${message}`, result: { error: message } };
+    }
+
+    await db
+        .insert(conversationChunks)
+        .values({
+            meetingId: context.meetingId,
+            speaker: "ai",
+            userName: context.agentName,
+            text: `[Tool] ${invocation.summary}`,
+        })
+        .catch((error) => console.error("[Agent tools] Failed to log tool call:", error));
+
+    return invocation;
+}
@@ -0,0 +1,74 @@
+import { db } from "@/db";
+import { agents, agentVersions } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+
+type Agent = typeof agents.$inferSelect;
+type AgentVersion = typeof agentVersions.$inferSelect;
+
+// Agent columns captured in each revision; renaming an agent is not a revision
+export const VERSIONED_AGENT_FIELDS = [
+    "instructions",
+    "provider",
+    "model",
+    "temperature",
+    "maxTokens",
+    "responseStyle",
+    "voiceId",
+    "browserVoice",
+    "autoReply",
+    "wakePhrases",
+] as const;
+
+export type AgentSnapshot = Pick<Agent, (typeof VERSIONED_AGENT_FIELDS)[number]>;
+
+export function snapshotOf(source: AgentSnapshot): AgentSnapshot {
+    return {
+        instructions: source.instructions,
+        provider: source.provider,
+        model: source.model,
+        temperature: source.temperature,
+        maxTokens: source.maxTokens,
+        responseStyle: source.responseStyle,
+        voiceId: source.voiceId,
+        browserVoice: source.browserVoice,
+        autoReply: source.autoReply,
+        wakePhrases: source.wakePhrases,
+    };
+}
+
+// Array columns (wake phrases) compare by content
+const isSameValue = (a: unknown, b: unknown) =>
+    Array.isArray(a) || Array.isArray(b) ? JSON.stringify(a) === JSON.stringify(b) : a === b;
+
+export async function getLatestAgentVersion(agentId: string): Promise<AgentVersion | undefined> {
+    const [latest] = await db
+        .select()
+        .from(agentVersions)
+        .where(eq(agentVersions.agentId, agentId))
+        .orderBy(desc(agentVersions.version))
+        .limit(1);
+    return latest;
+}
+
+/**
+ * Appends the agent's current instructions and settings as a new revision.
+ * Saves that change nothing (e.g. a rename) reuse the latest revision.
+ */
+export async function recordAgentVersion(agent: Agent, { restoredFrom }: { restoredFrom?: number } = {}) {
+    const snapshot = snapshotOf(agent);
+    const latest = await getLatestAgentVersion(agent.id);
+    if (latest && !restoredFrom && VERSIONED_AGENT_FIELDS.every((field) => isSameValue(latest[field], snapshot[field]))) {
+        return latest;
+    }
+
+    const [version] = await db
+        .insert(agentVersions)
+        .values({
+            ...snapshot,
+            agentId: agent.id,
+            version: (latest?.version ?? 0) + 1,
+            restoredFrom,
+        })
+        .returning();
+    return version;
+}
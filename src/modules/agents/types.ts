@@ -3,4 +3,5 @@ import { inferRouterOutputs} from "@trpc/server";
 import type {AppRouter} from "@/trpc/routers/_app";
 
 export type AgentGetOne = inferRouterOutputs<AppRouter>["agents"]["getOne"];
-export type AgentsGetMany = inferRouterOutputs<AppRouter>["agents"]["getMany"]["items"];
\ No newline at end of file
+export type AgentsGetMany = inferRouterOutputs<AppRouter>["agents"]["getMany"]["items"];
+export type AgentGetVersions = inferRouterOutputs<AppRouter>["agents"]["getVersions"];
\ No newline at end of file
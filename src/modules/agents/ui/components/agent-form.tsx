@@ -5,24 +5,48 @@ import { useRouter } from "next/navigation";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import z from "zod";
-import { agentsInsertSchema } from "../../schemas";
+import { AGENT_RESPONSE_STYLES, agentsInsertSchema } from "../../schemas";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { GeneratedAvatar } from "@/components/generated-avatar";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
+import { useEffect, useState } from "react";
+
+type AgentFormValues = z.infer<typeof agentsInsertSchema>;
+
+const RESPONSE_STYLE_LABELS: Record<typeof AGENT_RESPONSE_STYLES[number], string> = {
+    concise: "Concise",
+    balanced: "Balanced",
+    detailed: "Detailed",
+};
+
+// Empty number inputs are stored as null so the server default applies
+const toNullableNumber = (value: string) => (value === "" ? null : Number(value));
+
+// Comma-separated wake phrases; an empty list falls back to "Hey …" and "OK …" with the agent's name
+const toWakePhrases = (value: string) => {
+    const phrases = value.split(",").map((phrase) => phrase.trim()).filter(Boolean);
+    return phrases.length > 0 ? phrases : null;
+};
 
 interface AgentsFormProps {
     onSuccess?:()=>void;
     onCancel?:()=> void;
     initialValues?: AgentGetOne;
+    // Prefill for new agents, from a template or an imported file
+    templateValues?: AgentFormValues;
 }
 
 export const AgentForm = ({
     onSuccess,
     onCancel,
     initialValues,
+    templateValues,
 } : AgentsFormProps) => {
     const trpc = useTRPC();
     const router = useRouter();
@@ -58,18 +82,43 @@ export const AgentForm = ({
             },
         }),
     );
-    const form = useForm<z.infer<typeof agentsInsertSchema>>({
+    const form = useForm<AgentFormValues>({
         resolver: zodResolver(agentsInsertSchema),
-        defaultValues: {
+        defaultValues: templateValues ?? {
             name: initialValues?.name?? "",
             instructions:initialValues?.instructions?? "",
+            provider: (initialValues?.provider ?? null) as AgentFormValues["provider"],
+            model: initialValues?.model ?? null,
+            temperature: initialValues?.temperature ?? null,
+            maxTokens: initialValues?.maxTokens ?? null,
+            responseStyle: initialValues?.responseStyle ?? "balanced",
+            voiceId: initialValues?.voiceId ?? null,
+            browserVoice: initialValues?.browserVoice ?? null,
+            autoReply: initialValues?.autoReply ?? false,
+            wakePhrases: initialValues?.wakePhrases ?? null,
         },
     });
+    // Edited as free text so commas can be typed; the form keeps the parsed list
+    const [wakePhrasesText, setWakePhrasesText] = useState(
+        (templateValues?.wakePhrases ?? initialValues?.wakePhrases ?? []).join(", "),
+    );
+
+    // Browser voices load asynchronously in some browsers
+    const [browserVoices, setBrowserVoices] = useState<string[]>([]);
+    useEffect(() => {
+        if (typeof window === "undefined" || !("speechSynthesis" in window)) return;
+        const loadVoices = () => {
+            setBrowserVoices(Array.from(new Set(window.speechSynthesis.getVoices().map((voice) => voice.name))));
+        };
+        loadVoices();
+        window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+        return () => window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+    }, []);
 
     const isEdit = !!initialValues?.id;
     const isPending= createAgent.isPending || updateAgent.isPending;
 
-    const onSubmit = (values: z.infer<typeof agentsInsertSchema>) => {
+    const onSubmit = (values: AgentFormValues) => {
         if(isEdit){
             updateAgent.mutate({ ...values, id: initialValues.id})
         } else {
@@ -105,7 +154,7 @@ export const AgentForm = ({
                     <FormItem>
                       <FormLabel>Instructions</FormLabel>
                       <FormControl>
-                         <Input {...field} placeholder="You are a helpful math assistant that can answer questions and help with tasks."/>
+                         <Textarea {...field} rows={5} placeholder="You are a helpful math assistant that can answer questions and help with tasks."/>
                       </FormControl>
                       <FormMessage/>
                     </FormItem>
@@ -113,6 +162,205 @@ export const AgentForm = ({
                  
                   
                 />
+                <FormField
+                  name="provider"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Model provider</FormLabel>
+                      <Select
+                        value={field.value ?? "default"}
+                        onValueChange={(value) => field.onChange(value === "default" ? null : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue/>
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Default</SelectItem>
+                          <SelectItem value="groq">Groq</SelectItem>
+                          <SelectItem value="openai-compatible">OpenAI-compatible (e.g. local Ollama)</SelectItem>
+                          <SelectItem value="fake">Fake (testing)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="model"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <FormControl>
+                         <Input
+                           {...field}
+                           value={field.value ?? ""}
+                           onChange={(e) => field.onChange(e.target.value || null)}
+                           placeholder="Provider default (e.g. llama-3.3-70b-versatile)"
+                         />
+                      </FormControl>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    name="temperature"
+                    control={form.control}
+                    render={({field}) => (
+                      <FormItem>
+                        <FormLabel>Temperature</FormLabel>
+                        <FormControl>
+                           <Input
+                             type="number"
+                             step="0.1"
+                             min={0}
+                             max={2}
+                             {...field}
+                             value={field.value ?? ""}
+                             onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                             placeholder="0.3"
+                           />
+                        </FormControl>
+                        <FormMessage/>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    name="maxTokens"
+                    control={form.control}
+                    render={({field}) => (
+                      <FormItem>
+                        <FormLabel>Max tokens</FormLabel>
+                        <FormControl>
+                           <Input
+                             type="number"
+                             step="1"
+                             min={64}
+                             max={8192}
+                             {...field}
+                             value={field.value ?? ""}
+                             onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+                             placeholder="1024"
+                           />
+                        </FormControl>
+                        <FormMessage/>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  name="responseStyle"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Response style</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue/>
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {AGENT_RESPONSE_STYLES.map((style) => (
+                            <SelectItem key={style} value={style}>{RESPONSE_STYLE_LABELS[style]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="voiceId"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>ElevenLabs voice ID</FormLabel>
+                      <FormControl>
+                         <Input
+                           {...field}
+                           value={field.value ?? ""}
+                           onChange={(e) => field.onChange(e.target.value || null)}
+                           placeholder="Server default"
+                         />
+                      </FormControl>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="browserVoice"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Browser fallback voice</FormLabel>
+                      <Select
+                        value={field.value ?? "default"}
+                        onValueChange={(value) => field.onChange(value === "default" ? null : value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue/>
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="default">Automatic</SelectItem>
+                          {/* Keep a saved voice selectable even if this browser lacks it */}
+                          {field.value && !browserVoices.includes(field.value) && (
+                            <SelectItem value={field.value}>{field.value}</SelectItem>
+                          )}
+                          {browserVoices.map((voice) => (
+                            <SelectItem key={voice} value={voice}>{voice}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="autoReply"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem className="flex items-center justify-between gap-x-4 rounded-lg border p-3">
+                      <div className="space-y-1">
+                        <FormLabel>Reply when addressed</FormLabel>
+                        <FormDescription>
+                          Answer without the manual trigger when someone says a wake phrase like &quot;Hey {form.watch("name") || "Atlas"}&quot; and then pauses.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                         <Switch checked={field.value} onCheckedChange={field.onChange}/>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {form.watch("autoReply") && (
+                  <FormField
+                    name="wakePhrases"
+                    control={form.control}
+                    render={({field}) => (
+                      <FormItem>
+                        <FormLabel>Wake phrases</FormLabel>
+                        <FormControl>
+                           <Input
+                             value={wakePhrasesText}
+                             onChange={(e) => {
+                               setWakePhrasesText(e.target.value);
+                               field.onChange(toWakePhrases(e.target.value));
+                             }}
+                             placeholder="Comma separated; defaults to Hey or OK plus the agent's name"
+                           />
+                        </FormControl>
+                        <FormMessage/>
+                      </FormItem>
+                    )}
+                  />
+                )}
                  <div className="flex justify-between gap-x-2">
                     {onCancel && (
                         <Button variant="ghost" disabled={isPending} type="button" onClick={()=>onCancel()}>
@@ -2,17 +2,18 @@ import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbS
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import { DropdownMenuTrigger } from "@radix-ui/react-dropdown-menu";
-import { ChevronRightIcon, MoreVerticalIcon, PencilIcon, TrashIcon } from "lucide-react";
+import { ChevronRightIcon, DownloadIcon, MoreVerticalIcon, PencilIcon, TrashIcon } from "lucide-react";
 import Link from "next/link";
 
 interface Props {
     agentId: string;
     agentName: string;
     onEdit: () => void;
+    onExport: () => void;
     onRemove: () => void;
 }
 
-export const AgentIdViewHeader = ({ agentId, agentName, onEdit, onRemove }: Props) => {
+export const AgentIdViewHeader = ({ agentId, agentName, onEdit, onExport, onRemove }: Props) => {
     return (
         <div className="flex items-center justify-between">
             <Breadcrumb>
@@ -47,6 +48,10 @@ export const AgentIdViewHeader = ({ agentId, agentName, onEdit, onRemove }: Prop
                         <PencilIcon className="mr-2 size-4" />
                         Edit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onExport}>
+                        <DownloadIcon className="mr-2 size-4" />
+                        Export JSON
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={onRemove}>
                         <TrashIcon className="mr-2 size-4" />
                         Delete
@@ -0,0 +1,130 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { FileTextIcon, Loader2Icon, TrashIcon, UploadIcon } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface Props {
+    agentId: string;
+}
+
+const statusColorMap: Record<string, string> = {
+    processing: "bg-blue-500/20 text-blue-800 border-blue-800/5",
+    ready: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5",
+    failed: "bg-rose-300/20 text-rose-800 border-rose-800/5",
+};
+
+export const AgentKnowledgeBase = ({ agentId }: Props) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [isUploading, setIsUploading] = useState(false);
+
+    const documentsQuery = trpc.agents.getDocuments.queryOptions({ agentId });
+    const { data: documents } = useQuery({
+        ...documentsQuery,
+        // Poll while the job worker is still chunking and embedding an upload
+        refetchInterval: (query) =>
+            query.state.data?.some((document) => document.status === "processing") ? 4000 : false,
+    });
+
+    const removeDocument = useMutation(
+        trpc.agents.removeDocument.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(documentsQuery);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const handleUpload = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        setIsUploading(true);
+        try {
+            for (const file of Array.from(files)) {
+                const formData = new FormData();
+                formData.append("agentId", agentId);
+                formData.append("file", file);
+                const response = await fetch("/api/agent-documents", { method: "POST", body: formData });
+                if (!response.ok) {
+                    const { error } = await response.json().catch(() => ({ error: "Upload failed" }));
+                    toast.error(`${file.name}: ${error}`);
+                }
+            }
+            await queryClient.invalidateQueries(documentsQuery);
+        } finally {
+            setIsUploading(false);
+            if (inputRef.current) inputRef.current.value = "";
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-y-4">
+            <div className="flex items-center justify-between gap-x-2">
+                <div>
+                    <p className="text-lg font-medium">Knowledge base</p>
+                    <p className="text-sm text-muted-foreground">
+                        Markdown, text and PDF files the agent can quote from during calls.
+                    </p>
+                </div>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept=".md,.markdown,.txt,.pdf"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleUpload(e.target.files)}
+                />
+                <Button variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+                    {isUploading ? <Loader2Icon className="animate-spin" /> : <UploadIcon />}
+                    Upload
+                </Button>
+            </div>
+            {documents && documents.length > 0 ? (
+                <div className="flex flex-col divide-y border rounded-lg">
+                    {documents.map((document) => (
+                        <div key={document.id} className="flex items-center justify-between gap-x-2 px-4 py-3 text-sm">
+                            <div className="flex items-center gap-x-2 min-w-0">
+                                <FileTextIcon className="size-4 shrink-0 text-muted-foreground" />
+                                <div className="flex flex-col min-w-0">
+                                    <span className="font-medium truncate">{document.name}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {document.status === "ready" && `${document.chunkCount} passages · `}
+                                        added {formatDistanceToNow(new Date(document.createdAt), { addSuffix: true })}
+                                    </span>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-x-2">
+                                <Badge
+                                    variant="outline"
+                                    className={cn("capitalize text-muted-foreground", statusColorMap[document.status])}
+                                    title={document.error ?? undefined}
+                                >
+                                    {document.status}
+                                </Badge>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    disabled={removeDocument.isPending}
+                                    onClick={() => removeDocument.mutate({ id: document.id })}
+                                >
+                                    <TrashIcon />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">No documents yet.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,158 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { PencilIcon, TrashIcon } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "sonner";
+import { AGENT_MEMORY_KINDS } from "../../schemas";
+
+interface Props {
+    agentId: string;
+}
+
+type MemoryKind = (typeof AGENT_MEMORY_KINDS)[number];
+
+const kindColorMap: Record<MemoryKind, string> = {
+    fact: "bg-blue-500/20 text-blue-800 border-blue-800/5",
+    decision: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5",
+};
+
+export const AgentMemories = ({ agentId }: Props) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const [editing, setEditing] = useState<{ id: string; kind: MemoryKind; content: string } | null>(null);
+
+    const memoriesQuery = trpc.agents.getMemories.queryOptions({ agentId });
+    const { data: memories } = useQuery(memoriesQuery);
+
+    const updateMemory = useMutation(
+        trpc.agents.updateMemory.mutationOptions({
+            onSuccess: async () => {
+                setEditing(null);
+                await queryClient.invalidateQueries(memoriesQuery);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const removeMemory = useMutation(
+        trpc.agents.removeMemory.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(memoriesQuery);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    return (
+        <div className="flex flex-col gap-y-4">
+            <div>
+                <p className="text-lg font-medium">Memory</p>
+                <p className="text-sm text-muted-foreground">
+                    Facts and decisions the agent picked up from past meeting summaries and recalls in later meetings.
+                </p>
+            </div>
+            {memories && memories.length > 0 ? (
+                <div className="flex flex-col divide-y border rounded-lg">
+                    {memories.map((memory) => (
+                        <div key={memory.id} className="flex flex-col gap-y-2 px-4 py-3 text-sm">
+                            {editing?.id === memory.id ? (
+                                <>
+                                    <Textarea
+                                        value={editing.content}
+                                        onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                                        rows={3}
+                                    />
+                                    <div className="flex items-center justify-between gap-x-2">
+                                        <Select
+                                            value={editing.kind}
+                                            onValueChange={(kind) => setEditing({ ...editing, kind: kind as MemoryKind })}
+                                        >
+                                            <SelectTrigger className="w-32 capitalize">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {AGENT_MEMORY_KINDS.map((kind) => (
+                                                    <SelectItem key={kind} value={kind} className="capitalize">
+                                                        {kind}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <div className="flex items-center gap-x-2">
+                                            <Button variant="ghost" onClick={() => setEditing(null)}>
+                                                Cancel
+                                            </Button>
+                                            <Button
+                                                disabled={updateMemory.isPending || !editing.content.trim()}
+                                                onClick={() => updateMemory.mutate(editing)}
+                                            >
+                                                Save
+                                            </Button>
+                                        </div>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="flex items-start justify-between gap-x-2">
+                                    <div className="flex flex-col gap-y-1 min-w-0">
+                                        <span>{memory.content}</span>
+                                        <span className="text-xs text-muted-foreground">
+                                            {memory.meetingId && memory.meetingName ? (
+                                                <Link href={`/meetings/${memory.meetingId}`} className="underline">
+                                                    {memory.meetingName}
+                                                </Link>
+                                            ) : (
+                                                "Deleted meeting"
+                                            )}
+                                            {" · "}
+                                            {formatDistanceToNow(new Date(memory.createdAt), { addSuffix: true })}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-x-2">
+                                        <Badge
+                                            variant="outline"
+                                            className={cn("capitalize text-muted-foreground", kindColorMap[memory.kind])}
+                                        >
+                                            {memory.kind}
+                                        </Badge>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => setEditing({ id: memory.id, kind: memory.kind, content: memory.content })}
+                                        >
+                                            <PencilIcon />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={removeMemory.isPending}
+                                            onClick={() => removeMemory.mutate({ id: memory.id })}
+                                        >
+                                            <TrashIcon />
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">
+                    Nothing remembered yet. Memories are added after each completed meeting.
+                </p>
+            )}
+        </div>
+    );
+};
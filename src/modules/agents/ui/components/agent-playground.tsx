@@ -0,0 +1,308 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2Icon, PlayIcon, RotateCcwIcon, SaveIcon, SendIcon, TrashIcon } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface Props {
+    agentId: string;
+    instructions: string;
+}
+
+type PlaygroundDebug = {
+    systemPrompt: string;
+    model: string | null;
+    provider: string;
+    usage: { promptTokens: number; completionTokens: number };
+    latencyMs: number;
+};
+
+type Turn = {
+    role: "user" | "assistant";
+    content: string;
+    debug?: PlaygroundDebug;
+    // Answer saved in the fixture being replayed, shown next to the new one
+    expected?: string;
+    failed?: boolean;
+};
+
+type Column = {
+    instructions: string;
+    turns: Turn[];
+};
+
+const COLUMN_LABELS = ["A", "B"];
+
+// Same pipeline as in-call questions, with the draft instructions and the column's history
+async function askAgent(agentId: string, message: string, instructions: string, history: Turn[]) {
+    const response = await fetch("/api/groq-chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            agentId,
+            message,
+            playground: {
+                instructions,
+                history: history.filter((turn) => !turn.failed).map(({ role, content }) => ({ role, content })),
+            },
+        }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to generate response");
+    }
+    return data as { response: string; debug: PlaygroundDebug };
+}
+
+export const AgentPlayground = ({ agentId, instructions }: Props) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const [compare, setCompare] = useState(false);
+    const [columns, setColumns] = useState<Column[]>([
+        { instructions, turns: [] },
+        { instructions, turns: [] },
+    ]);
+    const [message, setMessage] = useState("");
+    const [isSending, setIsSending] = useState(false);
+    const [fixtureNames, setFixtureNames] = useState(["", ""]);
+
+    const fixturesQuery = trpc.agents.getFixtures.queryOptions({ agentId });
+    const { data: fixtures } = useQuery(fixturesQuery);
+
+    const createFixture = useMutation(
+        trpc.agents.createFixture.mutationOptions({
+            onSuccess: async (fixture) => {
+                toast.success(`Saved "${fixture.name}"`);
+                await queryClient.invalidateQueries(fixturesQuery);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const removeFixture = useMutation(
+        trpc.agents.removeFixture.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(fixturesQuery);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const updateColumn = (index: number, update: (column: Column) => Column) => {
+        setColumns((current) => current.map((column, i) => (i === index ? update(column) : column)));
+    };
+
+    // Sends one user turn and appends both sides; returns the history including the new turns
+    const runTurn = async (index: number, text: string, history: Turn[], columnInstructions: string, expected?: string) => {
+        const userTurn: Turn = { role: "user", content: text };
+        updateColumn(index, (column) => ({ ...column, turns: [...column.turns, userTurn] }));
+        let answer: Turn;
+        try {
+            const { response, debug } = await askAgent(agentId, text, columnInstructions, history);
+            answer = { role: "assistant", content: response, debug, expected };
+        } catch (error) {
+            answer = { role: "assistant", content: error instanceof Error ? error.message : String(error), expected, failed: true };
+        }
+        updateColumn(index, (column) => ({ ...column, turns: [...column.turns, answer] }));
+        return [...history, userTurn, answer];
+    };
+
+    const activeColumns = compare ? [0, 1] : [0];
+
+    const handleSend = async () => {
+        const text = message.trim();
+        if (!text || isSending) return;
+        setMessage("");
+        setIsSending(true);
+        try {
+            await Promise.all(
+                activeColumns.map((index) => runTurn(index, text, columns[index].turns, columns[index].instructions)),
+            );
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleReset = () => {
+        setColumns((current) => current.map((column) => ({ ...column, turns: [] })));
+    };
+
+    // Re-runs the fixture's questions against column A, keeping the saved answers for comparison
+    const handleReplay = async (fixture: { instructions: string; transcript: Turn[] }) => {
+        if (isSending) return;
+        setIsSending(true);
+        setColumns((current) => [{ instructions: fixture.instructions, turns: [] }, current[1]]);
+        try {
+            let history: Turn[] = [];
+            for (const [i, turn] of fixture.transcript.entries()) {
+                if (turn.role !== "user") continue;
+                const next = fixture.transcript[i + 1];
+                history = await runTurn(0, turn.content, history, fixture.instructions, next?.role === "assistant" ? next.content : undefined);
+            }
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleSaveFixture = (index: number) => {
+        const column = columns[index];
+        createFixture.mutate({
+            agentId,
+            name: fixtureNames[index].trim() || `Playground ${new Date().toLocaleString()}`,
+            instructions: column.instructions,
+            transcript: column.turns.filter((turn) => !turn.failed).map(({ role, content }) => ({ role, content })),
+        });
+        setFixtureNames((current) => current.map((name, i) => (i === index ? "" : name)));
+    };
+
+    return (
+        <div className="flex flex-col gap-y-4">
+            <div className="flex items-center justify-between gap-x-2">
+                <div>
+                    <p className="text-lg font-medium">Playground</p>
+                    <p className="text-sm text-muted-foreground">
+                        Chat with the agent using draft instructions. Nothing is saved to the agent.
+                    </p>
+                </div>
+                <div className="flex items-center gap-x-4">
+                    <div className="flex items-center gap-x-2">
+                        <Switch id="playground-compare" checked={compare} onCheckedChange={setCompare} disabled={isSending} />
+                        <Label htmlFor="playground-compare">Compare</Label>
+                    </div>
+                    <Button variant="outline" onClick={handleReset} disabled={isSending}>
+                        <RotateCcwIcon />
+                        Reset
+                    </Button>
+                </div>
+            </div>
+            <div className={cn("grid gap-4", compare && "md:grid-cols-2")}>
+                {activeColumns.map((index) => {
+                    const column = columns[index];
+                    const lastDebug = [...column.turns].reverse().find((turn) => turn.debug)?.debug;
+                    return (
+                        <div key={index} className="flex flex-col gap-y-3 border rounded-lg p-4 min-w-0">
+                            <Label>Instructions {compare && COLUMN_LABELS[index]}</Label>
+                            <Textarea
+                                value={column.instructions}
+                                onChange={(e) => updateColumn(index, (current) => ({ ...current, instructions: e.target.value }))}
+                                rows={4}
+                                disabled={isSending}
+                            />
+                            <div className="flex flex-col gap-y-2 min-h-24">
+                                {column.turns.length === 0 && (
+                                    <p className="text-sm text-muted-foreground">Ask something to start.</p>
+                                )}
+                                {column.turns.map((turn, i) => (
+                                    <div
+                                        key={i}
+                                        className={cn(
+                                            "rounded-lg px-3 py-2 text-sm whitespace-pre-wrap",
+                                            turn.role === "user" ? "bg-muted self-end max-w-[85%]" : "border",
+                                            turn.failed && "border-rose-800/20 text-rose-800",
+                                        )}
+                                    >
+                                        {turn.content}
+                                        {turn.expected !== undefined && (
+                                            <div className="mt-2 pt-2 border-t text-muted-foreground">
+                                                <span className="text-xs font-medium">Saved answer</span>
+                                                <p>{turn.expected}</p>
+                                            </div>
+                                        )}
+                                        {turn.debug && (
+                                            <p className="mt-1 text-xs text-muted-foreground">
+                                                {turn.debug.usage.promptTokens} prompt + {turn.debug.usage.completionTokens} completion tokens · {turn.debug.latencyMs} ms
+                                            </p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            {lastDebug && (
+                                <details className="text-sm">
+                                    <summary className="cursor-pointer text-muted-foreground">
+                                        Effective system prompt ({lastDebug.provider}{lastDebug.model ? ` · ${lastDebug.model}` : ""})
+                                    </summary>
+                                    <pre className="mt-2 whitespace-pre-wrap text-xs bg-muted rounded-lg p-3">{lastDebug.systemPrompt}</pre>
+                                </details>
+                            )}
+                            <div className="flex items-center gap-x-2">
+                                <Input
+                                    value={fixtureNames[index]}
+                                    onChange={(e) => setFixtureNames((current) => current.map((name, i) => (i === index ? e.target.value : name)))}
+                                    placeholder="Fixture name"
+                                />
+                                <Button
+                                    variant="outline"
+                                    disabled={isSending || createFixture.isPending || column.turns.filter((turn) => !turn.failed).length < 2}
+                                    onClick={() => handleSaveFixture(index)}
+                                >
+                                    <SaveIcon />
+                                    Save
+                                </Button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <form
+                className="flex items-center gap-x-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSend();
+                }}
+            >
+                <Input value={message} onChange={(e) => setMessage(e.target.value)} placeholder="Ask the agent..." />
+                <Button type="submit" disabled={isSending || !message.trim()}>
+                    {isSending ? <Loader2Icon className="animate-spin" /> : <SendIcon />}
+                    Send
+                </Button>
+            </form>
+            <div className="flex flex-col gap-y-2">
+                <p className="font-medium">Regression fixtures</p>
+                {fixtures && fixtures.length > 0 ? (
+                    <div className="flex flex-col divide-y border rounded-lg">
+                        {fixtures.map((fixture) => (
+                            <div key={fixture.id} className="flex items-center justify-between gap-x-2 px-4 py-3 text-sm">
+                                <div className="flex flex-col min-w-0">
+                                    <span className="font-medium truncate">{fixture.name}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {fixture.transcript.filter((turn) => turn.role === "user").length} questions
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-x-2">
+                                    <Button variant="outline" disabled={isSending} onClick={() => handleReplay(fixture)}>
+                                        <PlayIcon />
+                                        Replay
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        disabled={removeFixture.isPending}
+                                        onClick={() => removeFixture.mutate({ id: fixture.id })}
+                                    >
+                                        <TrashIcon />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Save a conversation to replay it after changing the instructions.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
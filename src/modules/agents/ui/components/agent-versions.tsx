@@ -0,0 +1,186 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useConfirm } from "@/hooks/use-confirm";
+import { cn } from "@/lib/utils";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { HistoryIcon } from "lucide-react";
+import { toast } from "sonner";
+import { AgentGetVersions } from "../../types";
+
+interface Props {
+    agentId: string;
+}
+
+type Version = AgentGetVersions[number];
+
+type DiffLine = { type: "same" | "added" | "removed"; text: string };
+
+const SETTING_LABELS: Record<string, string> = {
+    provider: "Provider",
+    model: "Model",
+    temperature: "Temperature",
+    maxTokens: "Max tokens",
+    responseStyle: "Response style",
+    voiceId: "Voice",
+    browserVoice: "Browser voice",
+    autoReply: "Auto reply",
+    wakePhrases: "Wake phrases",
+};
+
+// Line diff from the longest common subsequence; instructions are short enough for the O(n*m) table
+function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split("\n");
+    const b = after.split("\n");
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: "same", text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: "removed", text: a[i++] });
+        } else {
+            lines.push({ type: "added", text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+    while (j < b.length) lines.push({ type: "added", text: b[j++] });
+    return lines;
+}
+
+const formatSetting = (value: unknown) =>
+    value === null || value === undefined || value === ""
+        ? "default"
+        : Array.isArray(value) ? value.join(", ") : String(value);
+
+const VersionChanges = ({ version, previous }: { version: Version; previous?: Version }) => {
+    if (!previous) {
+        return <pre className="whitespace-pre-wrap text-xs bg-muted rounded-lg p-3">{version.instructions}</pre>;
+    }
+
+    const settings = Object.keys(SETTING_LABELS).filter(
+        (key) => JSON.stringify(version[key as keyof Version]) !== JSON.stringify(previous[key as keyof Version]),
+    );
+    const instructionsChanged = version.instructions !== previous.instructions;
+
+    return (
+        <div className="flex flex-col gap-y-2">
+            {settings.length > 0 && (
+                <ul className="text-xs text-muted-foreground">
+                    {settings.map((key) => (
+                        <li key={key}>
+                            {SETTING_LABELS[key]}: {formatSetting(previous[key as keyof Version])} → {formatSetting(version[key as keyof Version])}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {instructionsChanged && (
+                <pre className="whitespace-pre-wrap text-xs bg-muted rounded-lg p-3">
+                    {diffLines(previous.instructions, version.instructions).map((line, i) => (
+                        <div
+                            key={i}
+                            className={cn(
+                                line.type === "added" && "bg-emerald-500/20 text-emerald-800",
+                                line.type === "removed" && "bg-rose-300/20 text-rose-800 line-through",
+                            )}
+                        >
+                            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                            {line.text}
+                        </div>
+                    ))}
+                </pre>
+            )}
+            {settings.length === 0 && !instructionsChanged && (
+                <p className="text-xs text-muted-foreground">No changes from the previous version.</p>
+            )}
+        </div>
+    );
+};
+
+export const AgentVersions = ({ agentId }: Props) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const { data: versions } = useQuery(trpc.agents.getVersions.queryOptions({ agentId }));
+
+    const [RollbackConfirmation, confirmRollback] = useConfirm(
+        "Roll back?",
+        "The agent's instructions and settings will be restored from this version. The current version stays in the history.",
+    );
+
+    const rollback = useMutation(
+        trpc.agents.rollback.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.agents.getVersions.queryOptions({ agentId }));
+                await queryClient.invalidateQueries(trpc.agents.getOne.queryOptions({ id: agentId }));
+                toast.success("Agent rolled back");
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const handleRollback = async (versionId: string) => {
+        const ok = await confirmRollback();
+        if (!ok) return;
+        await rollback.mutateAsync({ versionId });
+    };
+
+    return (
+        <div className="flex flex-col gap-y-4">
+            <RollbackConfirmation />
+            <div>
+                <p className="text-lg font-medium">History</p>
+                <p className="text-sm text-muted-foreground">
+                    Every change to the instructions or settings, and the meetings that ran with it.
+                </p>
+            </div>
+            {versions && versions.length > 0 ? (
+                <div className="flex flex-col divide-y border rounded-lg">
+                    {versions.map((version, i) => (
+                        <div key={version.id} className="flex flex-col gap-y-2 px-4 py-3 text-sm">
+                            <div className="flex items-center justify-between gap-x-2">
+                                <div className="flex items-center gap-x-2">
+                                    <span className="font-medium">Version {version.version}</span>
+                                    {i === 0 && <Badge variant="outline">Current</Badge>}
+                                    {version.restoredFrom && (
+                                        <Badge variant="outline">Restored from v{version.restoredFrom}</Badge>
+                                    )}
+                                    <span className="text-xs text-muted-foreground">
+                                        {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })} · {version.meetingCount} {version.meetingCount === 1 ? "meeting" : "meetings"}
+                                    </span>
+                                </div>
+                                {i > 0 && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={rollback.isPending}
+                                        onClick={() => handleRollback(version.id)}
+                                    >
+                                        <HistoryIcon />
+                                        Roll back
+                                    </Button>
+                                )}
+                            </div>
+                            <VersionChanges version={version} previous={versions[i + 1]} />
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">No versions recorded yet.</p>
+            )}
+        </div>
+    );
+};
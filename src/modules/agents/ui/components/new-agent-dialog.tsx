@@ -1,5 +1,13 @@
 'use client';
 import { ResponsiveDialog } from "@/components/responsive-dialog";
+import { Button } from "@/components/ui/button";
+import { GeneratedAvatar } from "@/components/generated-avatar";
+import { ArrowLeftIcon, FileUpIcon, PlusIcon } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import z from "zod";
+import { agentExportSchema, agentsInsertSchema } from "../../schemas";
+import { AGENT_TEMPLATES, toAgentExport } from "../../templates";
 import { AgentForm } from "./agent-form";
 
 
@@ -8,21 +16,97 @@ interface NewAgentDialogProps {
     onOpenChange: (open:boolean) => void;
 };
 
+type AgentFormValues = z.infer<typeof agentsInsertSchema>;
+
+// "blank" skips the gallery with an empty form
+type Start = AgentFormValues | "blank" | null;
+
 export const NewAgentDialog=({
     open,
     onOpenChange,
 }:NewAgentDialogProps) => {
+   const [start, setStart] = useState<Start>(null);
+   const inputRef = useRef<HTMLInputElement>(null);
+
+   const handleOpenChange = (value: boolean) => {
+      if (!value) setStart(null);
+      onOpenChange(value);
+   };
+
+   const handleImport = async (file: File | undefined) => {
+      if (!file) return;
+      try {
+         const parsed = agentExportSchema.safeParse(JSON.parse(await file.text()));
+         if (!parsed.success) {
+            toast.error("This file is not a valid agent export");
+            return;
+         }
+         setStart(parsed.data.agent);
+      } catch {
+         toast.error("This file is not valid JSON");
+      } finally {
+         if (inputRef.current) inputRef.current.value = "";
+      }
+   };
+
    return (
     <ResponsiveDialog
      title="New Agent"
-      description="Create a new Agent"
+      description={start ? "Create a new Agent" : "Start from a template, import a shared agent or start blank"}
       open={open}
-      onOpenChange={onOpenChange}
+      onOpenChange={handleOpenChange}
     >
-    <AgentForm 
-      onSuccess={() => onOpenChange(false)}
-       onCancel={()=> onOpenChange(false)}
-    />
+    {start ? (
+      <div className="flex flex-col gap-y-4">
+        <Button variant="ghost" size="sm" className="self-start" onClick={() => setStart(null)}>
+          <ArrowLeftIcon/>
+          Templates
+        </Button>
+        <AgentForm
+          // Remount so the form picks up the new defaults
+          key={start === "blank" ? "blank" : JSON.stringify(start)}
+          templateValues={start === "blank" ? undefined : start}
+          onSuccess={() => handleOpenChange(false)}
+          onCancel={()=> handleOpenChange(false)}
+        />
+      </div>
+    ) : (
+      <div className="flex flex-col gap-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-[60vh] overflow-y-auto">
+          {AGENT_TEMPLATES.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              className="flex items-start gap-x-3 rounded-lg border p-3 text-left hover:bg-muted"
+              onClick={() => setStart(toAgentExport(template.values).agent)}
+            >
+              <GeneratedAvatar variant="botttsNeutral" seed={template.values.name} className="size-8 shrink-0"/>
+              <div className="flex flex-col">
+                <span className="text-sm font-medium">{template.title}</span>
+                <span className="text-xs text-muted-foreground">{template.description}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+        <div className="flex justify-between gap-x-2">
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <FileUpIcon/>
+            Import JSON
+          </Button>
+          <Button onClick={() => setStart("blank")}>
+            <PlusIcon/>
+            Blank agent
+          </Button>
+        </div>
+      </div>
+    )}
     </ResponsiveDialog>
    )
-}
\ No newline at end of file
+}
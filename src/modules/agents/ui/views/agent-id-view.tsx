@@ -13,6 +13,12 @@ import { toast } from "sonner";
 import { useConfirm } from "@/hooks/use-confirm";
 import { useState } from "react";
 import { UpdateAgentDialog } from "../components/update-agent-dialog";
+import { AgentKnowledgeBase } from "../components/agent-knowledge-base";
+import { AgentMemories } from "../components/agent-memories";
+import { AgentPlayground } from "../components/agent-playground";
+import { AgentVersions } from "../components/agent-versions";
+import { toAgentExport } from "../../templates";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 interface Props {
     agentId: string;
@@ -48,6 +54,17 @@ export const AgentIdView = ({ agentId }: Props) => {
         await removeAgent.mutateAsync({ id: agentId });
     }
 
+    // Shareable definition other accounts can load from the new agent dialog
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(toAgentExport(data), null, 2)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${data.name.replace(/[^a-z0-9-_]+/gi, "-").toLowerCase() || "agent"}.agent.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     return (
         <>
         <RemoveConfirmation/>
@@ -61,6 +78,7 @@ export const AgentIdView = ({ agentId }: Props) => {
               agentId={agentId}
               agentName={data.name}
               onEdit={()=>setUpdateAgentDialogOpen(true)}
+              onExport={handleExport}
               onRemove={handleRemoveAgent}
               />
               <div className="bg-white rounded-lg border">
@@ -80,10 +98,33 @@ export const AgentIdView = ({ agentId }: Props) => {
                         <VideoIcon/>
                         {data.meetingCount} {data.meetingCount === 1 ? "meeting" : "meetings"}
                     </Badge>
-                    <div className="flex flex-col gap-y-4">
-                        <p className="text-lg font-medium "> Instructions</p>
-                            <p className="text-neutral-800">{data.instructions}</p>
-                    </div>                
+                    <Tabs defaultValue="overview">
+                        <TabsList>
+                            <TabsTrigger value="overview">Overview</TabsTrigger>
+                            <TabsTrigger value="knowledge">Knowledge base</TabsTrigger>
+                            <TabsTrigger value="memory">Memory</TabsTrigger>
+                            <TabsTrigger value="playground">Playground</TabsTrigger>
+                            <TabsTrigger value="history">History</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="overview">
+                            <div className="flex flex-col gap-y-4">
+                                <p className="text-lg font-medium "> Instructions</p>
+                                    <p className="text-neutral-800">{data.instructions}</p>
+                            </div>
+                        </TabsContent>
+                        <TabsContent value="knowledge">
+                            <AgentKnowledgeBase agentId={agentId}/>
+                        </TabsContent>
+                        <TabsContent value="memory">
+                            <AgentMemories agentId={agentId}/>
+                        </TabsContent>
+                        <TabsContent value="playground">
+                            <AgentPlayground agentId={agentId} instructions={data.instructions}/>
+                        </TabsContent>
+                        <TabsContent value="history">
+                            <AgentVersions agentId={agentId}/>
+                        </TabsContent>
+                    </Tabs>
                 </div>
               </div>
         </div>
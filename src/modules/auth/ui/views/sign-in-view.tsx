@@ -26,7 +26,11 @@ const formSchema = z.object({
     email: z.string().email(),
     password: z.string().min(1, {message: "password is required"}),
 });
-export const SignInView = () => {
+interface Props {
+    callbackURL?: string;
+}
+
+export const SignInView = ({ callbackURL = "/" }: Props) => {
     const router =useRouter();
     const [pending,setPending]=useState(false);
     const [error,setError] = useState<string | null>(null);
@@ -46,12 +50,12 @@ export const SignInView = () => {
           {
             email:data.email,
             password: data.password,
-            callbackURL:"/"
+            callbackURL
           },
           {
             onSuccess: () => {
                 setPending(false);
-                router.push("/");
+                router.push(callbackURL);
             },
             onError: ({error}) => {
                 setPending(false);
@@ -70,7 +74,7 @@ export const SignInView = () => {
         authClient.signIn.social(
           {
             provider:provider,
-            callbackURL:"/"
+            callbackURL
           },
           {
             onSuccess: () => {
@@ -182,7 +186,7 @@ export const SignInView = () => {
                             </div>
                             */}
                             <div className="text-center text-sm">
-                                Don't have an account? <Link href="/sign-up" className="underline underline-offset-4">Sign up</Link>
+                                Don't have an account? <Link href={callbackURL === "/" ? "/sign-up" : `/sign-up?callbackURL=${encodeURIComponent(callbackURL)}`} className="underline underline-offset-4">Sign up</Link>
                             </div>
                         </div>
                       </form>
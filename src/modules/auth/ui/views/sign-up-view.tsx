@@ -33,7 +33,11 @@ const formSchema = z.object({
     message: "Passwords don't match",
     path: ["confirmPassword"]
 })
-export const SignUpView = () => {
+interface Props {
+    callbackURL?: string;
+}
+
+export const SignUpView = ({ callbackURL = "/" }: Props) => {
   const router = useRouter();
     const [pending,setPending]=useState(false);
     const [error,setError] = useState<string | null>(null);
@@ -56,12 +60,12 @@ export const SignUpView = () => {
             name: data.name,
             email:data.email,
             password: data.password,
-            callbackURL:"/"
+            callbackURL
           },
           {
             onSuccess: () => {
                 setPending(false);
-                router.push("/");
+                router.push(callbackURL);
             },
             onError: ({error}) => {
                 setPending(false);
@@ -80,7 +84,7 @@ export const SignUpView = () => {
         authClient.signIn.social(
           {
             provider:provider,
-            callbackURL:"/"
+            callbackURL
           },
           {
             onSuccess: () => {
@@ -230,7 +234,7 @@ export const SignUpView = () => {
                             </div>
                             */}
                             <div className="text-center text-sm">
-                                Already have an account? <Link href="/sign-in" className="underline underline-offset-4">Sign in</Link>
+                                Already have an account? <Link href={callbackURL === "/" ? "/sign-in" : `/sign-in?callbackURL=${encodeURIComponent(callbackURL)}`} className="underline underline-offset-4">Sign in</Link>
                             </div>
                         </div>
                       </form>
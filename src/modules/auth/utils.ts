@@ -0,0 +1,6 @@
+// Only same-origin paths are accepted as post-auth redirects. Browsers treat "\" as "/" and
+// drop tabs and newlines, so "/\evil.com" or "/\t/evil.com" would still leave the site.
+export function getSafeCallbackURL(value?: string | null) {
+    if (!value || !value.startsWith("/") || value.startsWith("//") || /[\\\u0000-\u001f]/.test(value)) return "/";
+    return value;
+}
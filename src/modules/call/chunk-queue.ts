@@ -0,0 +1,189 @@
+// Persistent upload queue for transcript lines. Lines are stored in IndexedDB
+// before they are sent to /api/conversation-sync and removed only once the
+// server has them, so a flaky connection or a closed tab doesn't lose them.
+// Each line carries an idempotency key; the server ignores repeated uploads.
+
+export type QueuedChunk = {
+    speaker: "user" | "ai";
+    userId?: string;
+    userName?: string;
+    text: string;
+    ts: number;
+};
+
+type QueueRecord = {
+    // Idempotency key, sent as the chunk id
+    key: string;
+    meetingId: string;
+    chunk: QueuedChunk;
+    attempts: number;
+};
+
+const DB_NAME = "collabsphereai";
+const STORE = "pendingChunks";
+// Retry delay doubles per failed flush up to the cap
+const RETRY_BASE_MS = 1_000;
+const RETRY_MAX_MS = 30_000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Used when IndexedDB is unavailable (e.g. some private browsing modes); retries still apply
+const memoryQueue: QueueRecord[] = [];
+let flushing: Promise<void> | null = null;
+// Set when a line is queued during a flush, whose snapshot of the queue no longer includes it
+let dirty = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let failures = 0;
+let pendingCount = 0;
+const listeners = new Set<(count: number) => void>();
+
+const openDatabase = () => {
+    dbPromise ??= new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === "undefined") return resolve(null);
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            // Keys are time-ordered, so the key order is the order lines were spoken
+            request.result.createObjectStore(STORE, { keyPath: "key" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+    });
+    return dbPromise;
+};
+
+const run = <T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+async function readAll(): Promise<QueueRecord[]> {
+    const db = await openDatabase();
+    return db ? run<QueueRecord[]>(db, "readonly", (store) => store.getAll()) : [...memoryQueue];
+}
+
+async function put(record: QueueRecord) {
+    const db = await openDatabase();
+    if (db) {
+        await run(db, "readwrite", (store) => store.put(record));
+    } else {
+        const index = memoryQueue.findIndex((queued) => queued.key === record.key);
+        if (index >= 0) memoryQueue[index] = record;
+        else memoryQueue.push(record);
+    }
+}
+
+async function remove(key: string) {
+    const db = await openDatabase();
+    if (db) {
+        await run(db, "readwrite", (store) => store.delete(key));
+    } else {
+        const index = memoryQueue.findIndex((queued) => queued.key === key);
+        if (index >= 0) memoryQueue.splice(index, 1);
+    }
+}
+
+async function refreshPendingCount() {
+    pendingCount = (await readAll()).length;
+    listeners.forEach((listener) => listener(pendingCount));
+}
+
+// Sortable key: zero-padded timestamp, then randomness for lines in the same millisecond
+const createKey = (ts: number) => `${ts.toString().padStart(15, "0")}-${crypto.randomUUID()}`;
+
+// false means "try again later"; malformed lines the server rejects are dropped instead of blocking the queue
+async function upload(record: QueueRecord): Promise<boolean> {
+    try {
+        const response = await fetch("/api/conversation-sync", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                meetingId: record.meetingId,
+                mode: "append",
+                chunk: { ...record.chunk, id: record.key },
+            }),
+        });
+        if (response.ok) return true;
+        if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+            console.warn(`[Chunk queue] Dropping line rejected with ${response.status}`);
+            return true;
+        }
+        return false;
+    } catch {
+        return false;
+    }
+}
+
+function scheduleRetry() {
+    if (retryTimer) return;
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.min(failures, 10));
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushInBackground();
+    }, delay);
+}
+
+/**
+ * Uploads queued lines in the order they were spoken, until the queue is empty.
+ * Only one flush runs at a time and lines queued meanwhile are part of it; a
+ * failure stops the flush (keeping the order) and schedules a retry.
+ */
+export function flushChunkQueue(): Promise<void> {
+    dirty = true;
+    flushing ??= (async () => {
+        try {
+            while (dirty) {
+                dirty = false;
+                const records = (await readAll()).sort((a, b) => a.key.localeCompare(b.key));
+                for (const record of records) {
+                    if (!(await upload(record))) {
+                        failures++;
+                        await put({ ...record, attempts: record.attempts + 1 });
+                        scheduleRetry();
+                        return;
+                    }
+                    failures = 0;
+                    await remove(record.key);
+                    await refreshPendingCount();
+                }
+            }
+        } finally {
+            flushing = null;
+            await refreshPendingCount();
+        }
+    })();
+    return flushing;
+}
+
+// Background flushes only log; the lines stay queued for the next attempt
+const flushInBackground = () => {
+    flushChunkQueue().catch((error) => console.error("[Chunk queue] Flush failed:", error));
+};
+
+export async function enqueueChunk(meetingId: string, chunk: QueuedChunk) {
+    await put({ key: createKey(chunk.ts), meetingId, chunk, attempts: 0 });
+    await refreshPendingCount();
+    await flushChunkQueue();
+}
+
+// Reports the number of lines not yet stored on the server, now and on every change
+export function subscribePendingChunks(listener: (count: number) => void) {
+    listeners.add(listener);
+    listener(pendingCount);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Lines left over from an earlier tab or a dropped connection go out as soon as possible
+if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+        failures = 0;
+        flushInBackground();
+    });
+    refreshPendingCount()
+        .then(() => {
+            if (pendingCount > 0) flushInBackground();
+        })
+        .catch((error) => console.error("[Chunk queue] Failed to read pending lines:", error));
+}
@@ -0,0 +1,124 @@
+import { Call, CallingState, SfuModels, StreamVideoClient } from "@stream-io/video-react-sdk";
+import { useEffect, useState } from "react";
+
+// Renewal interval; the server lease is longer so one missed heartbeat does not hand the role over
+const HEARTBEAT_MS = 5_000;
+
+type SpeakerResponse =
+    | { speaker: false; reason?: string }
+    | { speaker: true; leaseMs: number; agent: { id: string; name: string }; token: string };
+
+const postSpeaker = async (body: Record<string, unknown>): Promise<SpeakerResponse> => {
+    const response = await fetch("/api/agent-speaker", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) throw new Error(`Agent speaker request failed: ${response.status}`);
+    return response.json();
+};
+
+/**
+ * Takes part in the election of the browser that voices the agent. While this
+ * browser holds the role it joins the call as the agent user and publishes an
+ * audio track fed by the returned element, so everyone (including this browser,
+ * through the main call) hears each answer once.
+ *
+ * Returns the element to play neural TTS audio through, or null when another
+ * browser (or nobody, without neural TTS) is the speaker.
+ */
+export const useAgentSpeaker = ({ meetingId, enabled }: { meetingId: string; enabled: boolean }) => {
+    const [speakerAudio, setSpeakerAudio] = useState<HTMLAudioElement | null>(null);
+
+    useEffect(() => {
+        if (!enabled || typeof window === "undefined" || !window.AudioContext) return;
+
+        const sessionId = crypto.randomUUID();
+        let client: StreamVideoClient | null = null;
+        let agentCall: Call | null = null;
+        let audioContext: AudioContext | null = null;
+        let transition: Promise<void> = Promise.resolve();
+        let stopped = false;
+
+        const becomeSpeaker = async (grant: Extract<SpeakerResponse, { speaker: true }>) => {
+            client = new StreamVideoClient({
+                apiKey: process.env.NEXT_PUBLIC_STREAM_VIDEO_API_KEY!,
+                user: { id: grant.agent.id, name: grant.agent.name },
+                token: grant.token,
+            });
+            agentCall = client.call("default", meetingId);
+            // The agent only publishes the synthesized track, never this browser's devices
+            await agentCall.camera.disable();
+            await agentCall.microphone.disable();
+            await agentCall.join();
+
+            audioContext = new AudioContext();
+            const element = new Audio();
+            const destination = audioContext.createMediaStreamDestination();
+            // Routed only into the track: this browser hears the agent through the call like everyone else
+            audioContext.createMediaElementSource(element).connect(destination);
+            // Contexts created outside a user gesture start suspended
+            element.addEventListener("play", () => { audioContext?.resume().catch(() => {}); });
+            await agentCall.publish(destination.stream, SfuModels.TrackType.AUDIO);
+
+            if (stopped) return;
+            console.log("[Agent speaker] This browser is voicing the agent");
+            setSpeakerAudio(element);
+        };
+
+        const stepDown = async () => {
+            setSpeakerAudio(null);
+            const call = agentCall;
+            const videoClient = client;
+            const context = audioContext;
+            agentCall = null;
+            client = null;
+            audioContext = null;
+            try {
+                if (call && call.state.callingState !== CallingState.LEFT) await call.leave();
+            } catch {}
+            await videoClient?.disconnectUser().catch(() => {});
+            await context?.close().catch(() => {});
+        };
+
+        const heartbeat = () => {
+            // Serialized so a slow join cannot overlap with the next renewal
+            transition = transition.then(async () => {
+                if (stopped) return;
+                try {
+                    const result = await postSpeaker({ meetingId, sessionId });
+                    if (stopped) return;
+                    if (result.speaker && !agentCall) {
+                        await becomeSpeaker(result);
+                    } else if (!result.speaker && agentCall) {
+                        await stepDown();
+                    }
+                } catch (error) {
+                    console.error("[Agent speaker] Heartbeat failed:", error);
+                    // Publishing without a lease risks a second voice; give the role up until the next beat
+                    if (agentCall) await stepDown();
+                }
+            });
+        };
+
+        const release = () => {
+            navigator.sendBeacon?.("/api/agent-speaker", new Blob(
+                [JSON.stringify({ meetingId, sessionId, release: true })],
+                { type: "application/json" },
+            ));
+        };
+
+        heartbeat();
+        const intervalId = setInterval(heartbeat, HEARTBEAT_MS);
+        window.addEventListener("pagehide", release);
+
+        return () => {
+            stopped = true;
+            clearInterval(intervalId);
+            window.removeEventListener("pagehide", release);
+            transition.then(stepDown).finally(release);
+        };
+    }, [meetingId, enabled]);
+
+    return speakerAudio;
+};
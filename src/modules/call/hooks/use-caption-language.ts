@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { MEETING_LANGUAGE_CODES, MeetingLanguage } from "@/modules/meetings/languages";
+
+// "original" shows each line as spoken; a language translates every line into it
+export type CaptionLanguage = "off" | "original" | MeetingLanguage;
+
+const STORAGE_KEY = "collabsphereai.captionLanguage";
+
+const isCaptionLanguage = (value: string | null): value is CaptionLanguage =>
+    value === "off" || value === "original" || MEETING_LANGUAGE_CODES.includes(value as MeetingLanguage);
+
+/**
+ * This participant's caption language, remembered across meetings in this browser.
+ */
+export const useCaptionLanguage = () => {
+    const [captionLanguage, setCaptionLanguage] = useState<CaptionLanguage>("off");
+
+    useEffect(() => {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        if (isCaptionLanguage(stored)) setCaptionLanguage(stored);
+    }, []);
+
+    const update = (value: CaptionLanguage) => {
+        setCaptionLanguage(value);
+        window.localStorage.setItem(STORAGE_KEY, value);
+    };
+
+    return [captionLanguage, update] as const;
+};
@@ -0,0 +1,34 @@
+import { useTRPC } from "@/trpc/client";
+import { useQuery } from "@tanstack/react-query";
+import { CaptionLanguage } from "./use-caption-language";
+
+// Without the meeting's event stream, new lines show up within this long of being spoken
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * The meeting's transcript while the call is running, translated into the
+ * caption language when one is picked. Shared by the captions overlay and the
+ * transcript panel, so both read one query. While `live` (the event stream is
+ * connected) it is refreshed on pushed chunks instead of polled.
+ */
+export const useLiveTranscript = ({
+    meetingId,
+    language,
+    enabled,
+    live,
+}: {
+    meetingId: string;
+    language: CaptionLanguage;
+    enabled: boolean;
+    live: boolean;
+}) => {
+    const trpc = useTRPC();
+    return useQuery({
+        ...trpc.meetings.getTranscript.queryOptions({
+            id: meetingId,
+            language: language === "off" || language === "original" ? null : language,
+        }),
+        enabled,
+        refetchInterval: live ? false : POLL_INTERVAL_MS,
+    });
+};
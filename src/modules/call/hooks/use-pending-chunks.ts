@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+import { subscribePendingChunks } from "../chunk-queue";
+
+/**
+ * Number of transcript lines spoken in this browser that the server doesn't have yet.
+ */
+export const usePendingChunks = () => {
+    const [pendingChunks, setPendingChunks] = useState(0);
+
+    useEffect(() => subscribePendingChunks(setPendingChunks), []);
+
+    return pendingChunks;
+};
@@ -0,0 +1,269 @@
+import type { STTEngine } from "@/modules/meetings/schemas";
+
+// Web Speech API types (not yet in the DOM lib)
+interface SpeechRecognition extends EventTarget {
+    continuous: boolean;
+    interimResults: boolean;
+    lang: string;
+    start(): void;
+    stop(): void;
+    abort(): void;
+    onresult: ((event: SpeechRecognitionEvent) => void) | null;
+    onerror: ((event: Event) => void) | null;
+    onend: (() => void) | null;
+}
+
+interface SpeechRecognitionEvent extends Event {
+    results: SpeechRecognitionResultList;
+    resultIndex: number;
+}
+
+declare global {
+    interface Window {
+        SpeechRecognition: new () => SpeechRecognition;
+        webkitSpeechRecognition: new () => SpeechRecognition;
+    }
+}
+
+/**
+ * A speech recognition engine for the local participant's microphone. Mirrors
+ * the Web Speech API's start/stop/onend lifecycle so the call can switch
+ * engines without changing how it pauses recognition around agent speech.
+ */
+export interface SpeechToText {
+    engine: STTEngine;
+    start(): void;
+    stop(): void;
+    // Stops without delivering speech that is still being recognized
+    abort(): void;
+    // Final results carry the recognized text; interim ones only signal ongoing speech (text may be empty)
+    onresult: ((transcript: string, isFinal: boolean) => void) | null;
+    onerror: ((error: unknown) => void) | null;
+    onend: (() => void) | null;
+}
+
+// Server engine: level above which the mic counts as speech, sampled every LEVEL_SAMPLE_MS
+const SPEECH_LEVEL = 0.02;
+const LEVEL_SAMPLE_MS = 100;
+// A chunk ends at a pause after speech, or at the length cap so long monologues still arrive
+const CHUNK_SILENCE_MS = 700;
+const CHUNK_MAX_MS = 15_000;
+// Chunks without speech are dropped at this length instead of being uploaded
+const CHUNK_IDLE_MS = 10_000;
+
+const hasBrowserRecognition = () =>
+    typeof window !== "undefined" && !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+
+const hasMediaRecorder = () =>
+    typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+const recorderMimeType = () =>
+    ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"].find((type) => MediaRecorder.isTypeSupported(type));
+
+function createBrowserSpeechToText(language: string): SpeechToText {
+    const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = language;
+
+    const engine: SpeechToText = {
+        engine: "browser",
+        start: () => recognition.start(),
+        stop: () => recognition.stop(),
+        abort: () => recognition.abort(),
+        onresult: null,
+        onerror: null,
+        onend: null,
+    };
+
+    recognition.onresult = (event) => {
+        let finalTranscript = "";
+        let interimTranscript = "";
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const result = event.results[i];
+            if (result.isFinal) {
+                finalTranscript += result[0].transcript;
+            } else {
+                interimTranscript += result[0].transcript;
+            }
+        }
+        if (finalTranscript.trim()) {
+            engine.onresult?.(finalTranscript.trim(), true);
+        } else {
+            engine.onresult?.(interimTranscript, false);
+        }
+    };
+    recognition.onerror = (event) => engine.onerror?.(event);
+    recognition.onend = () => engine.onend?.();
+    return engine;
+}
+
+/**
+ * Records the microphone in speech-delimited chunks and transcribes each one
+ * through `/api/stt`. Silent chunks are never uploaded, and results are
+ * delivered in recording order.
+ */
+function createServerSpeechToText({ meetingId, language }: { meetingId: string; language: string }): SpeechToText {
+    let running = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let recorder: MediaRecorder | null = null;
+    let analyser: AnalyserNode | null = null;
+    const samples = new Float32Array(2048);
+    let levelTimer: ReturnType<typeof setInterval> | null = null;
+    let chunkStartedAt = 0;
+    let lastSpeechAt = 0;
+    let heardSpeech = false;
+    let aborted = false;
+    // Previous result, passed as the prompt so names carry across chunk boundaries
+    let lastText = "";
+    let uploads: Promise<void> = Promise.resolve();
+
+    const engine: SpeechToText = {
+        engine: "server",
+        start() {
+            if (running) return;
+            running = true;
+            aborted = false;
+            open().catch((error) => {
+                release();
+                engine.onerror?.(error);
+                engine.onend?.();
+            });
+        },
+        stop() {
+            if (!running) return;
+            release();
+            engine.onend?.();
+        },
+        abort() {
+            aborted = true;
+            engine.stop();
+        },
+        onresult: null,
+        onerror: null,
+        onend: null,
+    };
+
+    const upload = (audio: Blob) => {
+        uploads = uploads.then(async () => {
+            const form = new FormData();
+            form.append("audio", audio);
+            form.append("meetingId", meetingId);
+            form.append("language", language);
+            if (lastText) form.append("prompt", lastText);
+            try {
+                const response = await fetch("/api/stt", { method: "POST", body: form });
+                if (!response.ok) throw new Error(`Transcription failed: ${response.status}`);
+                const { text } = (await response.json()) as { text?: string };
+                if (text?.trim()) {
+                    lastText = text.trim();
+                    engine.onresult?.(lastText, true);
+                }
+            } catch (error) {
+                // A lost chunk is a missed sentence; keep listening
+                console.error("[STT] Chunk upload failed:", error);
+            }
+        });
+    };
+
+    const recordChunk = () => {
+        if (!stream) return;
+        const chunk: Blob[] = [];
+        const mimeType = recorderMimeType();
+        const current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        recorder = current;
+        chunkStartedAt = Date.now();
+        heardSpeech = false;
+        current.ondataavailable = (event) => {
+            if (event.data.size > 0) chunk.push(event.data);
+        };
+        current.onstop = () => {
+            if (heardSpeech && chunk.length > 0 && !aborted) {
+                upload(new Blob(chunk, { type: current.mimeType }));
+            }
+            // After stop() the recorder is cleared, so a restarted engine isn't given a second recorder
+            if (running && recorder === current) recordChunk();
+        };
+        current.start();
+    };
+
+    const sampleLevel = () => {
+        if (!analyser) return;
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        const now = Date.now();
+        if (rms > SPEECH_LEVEL) {
+            heardSpeech = true;
+            lastSpeechAt = now;
+            engine.onresult?.("", false);
+        }
+
+        const elapsed = now - chunkStartedAt;
+        const pausedAfterSpeech = heardSpeech && now - lastSpeechAt > CHUNK_SILENCE_MS;
+        const idle = !heardSpeech && elapsed > CHUNK_IDLE_MS;
+        if (recorder?.state === "recording" && (pausedAfterSpeech || idle || elapsed > CHUNK_MAX_MS)) {
+            recorder.stop();
+        }
+    };
+
+    const open = async () => {
+        const media = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: true, noiseSuppression: true },
+        });
+        if (!running) {
+            media.getTracks().forEach((track) => track.stop());
+            return;
+        }
+        stream = media;
+
+        audioContext = new AudioContext();
+        analyser = audioContext.createAnalyser();
+        analyser.fftSize = samples.length;
+        audioContext.createMediaStreamSource(media).connect(analyser);
+        levelTimer = setInterval(sampleLevel, LEVEL_SAMPLE_MS);
+
+        recordChunk();
+    };
+
+    // Stops capturing; a chunk in progress is still uploaded if it contains speech, unless aborted
+    const release = () => {
+        running = false;
+        if (levelTimer) clearInterval(levelTimer);
+        levelTimer = null;
+        if (recorder?.state === "recording") recorder.stop();
+        recorder = null;
+        stream?.getTracks().forEach((track) => track.stop());
+        stream = null;
+        analyser = null;
+        audioContext?.close().catch(() => {});
+        audioContext = null;
+    };
+
+    return engine;
+}
+
+/**
+ * Picks the meeting's speech recognition engine for this browser. Browsers
+ * without the Web Speech API (e.g. Firefox) use the server engine when it is
+ * configured; a server meeting falls back to the browser engine when it is not.
+ * Returns null when neither can run here.
+ */
+export async function createSpeechToText({
+    engine,
+    meetingId,
+    language,
+}: {
+    engine: STTEngine;
+    meetingId: string;
+    language: string;
+}): Promise<SpeechToText | null> {
+    if ((engine === "server" || !hasBrowserRecognition()) && hasMediaRecorder()) {
+        const { available } = await fetch("/api/stt")
+            .then((response) => response.json())
+            .catch(() => ({ available: false }));
+        if (available) return createServerSpeechToText({ meetingId, language });
+    }
+    return hasBrowserRecognition() ? createBrowserSpeechToText(language) : null;
+}
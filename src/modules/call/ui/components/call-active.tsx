@@ -3,47 +3,98 @@ import Link from "next/link";
 import Image from "next/image";
 import { useEffect, useRef, useState } from "react";
 import { CustomSpeakerLayout } from "./custom-speaker-layout";
+import { WaitingRoomPanel } from "./waiting-room-panel";
+import { LiveCaptions } from "./live-captions";
+import { TranscriptPanel } from "./transcript-panel";
+import { Button } from "@/components/ui/button";
+import { ScrollTextIcon } from "lucide-react";
+import { MeetingGetTranscript } from "@/modules/meetings/types";
 import { authClient } from "@/lib/auth-client";
 import { useToast } from "@/hooks/use-toast";
+import {
+    AGENT_SPEAKER_EVENT,
+    AgentSpeakerRequest,
+    appendCitedSources,
+    defaultWakePhrases,
+    matchWakePhrase,
+    readChatStream,
+    takeCompleteSentences,
+} from "../../utils";
+import { useAgentSpeaker } from "../../hooks/use-agent-speaker";
+import { createSpeechToText, SpeechToText } from "../../speech-to-text";
+import { useTRPC } from "@/trpc/client";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMeetingEvents } from "@/modules/meetings/hooks/use-meeting-events";
+import { AgentStatus } from "@/modules/meetings/events";
+import type { STTEngine } from "@/modules/meetings/schemas";
+import { DEFAULT_MEETING_LANGUAGE, isSameLanguage, MEETING_LANGUAGES } from "@/modules/meetings/languages";
+import { CaptionLanguage, useCaptionLanguage } from "../../hooks/use-caption-language";
+import { useLiveTranscript } from "../../hooks/use-live-transcript";
+import { usePendingChunks } from "../../hooks/use-pending-chunks";
+import { enqueueChunk, flushChunkQueue } from "../../chunk-queue";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface Props {
     onLeave: () => void;
     meetingId: string;
     meetingName: string;
     agentId?: string;
+    isHost?: boolean;
 }
 
-// Speech Recognition types
-interface SpeechRecognition extends EventTarget {
-    continuous: boolean;
-    interimResults: boolean;
-    lang: string;
-    start(): void;
-    stop(): void;
-    abort(): void;
-    onresult: ((event: SpeechRecognitionEvent) => void) | null;
-    onerror: ((event: any) => void) | null;
-    onend: (() => void) | null;
-}
+// Phrases of an answer that may still be streaming in; playback waits at the end of the queue until `done`
+type PhraseFeed = {
+    phrases: string[];
+    done: boolean;
+    notify?: () => void;
+};
 
-interface SpeechRecognitionEvent extends Event {
-    results: SpeechRecognitionResultList;
-    resultIndex: number;
-}
+const waitForFeed = (feed: PhraseFeed) => new Promise<void>((resolve) => {
+    feed.notify = () => {
+        feed.notify = undefined;
+        resolve();
+    };
+});
+
+// Wake-word replies: how long the speaker must pause before the addressed question is sent,
+// and how long a bare "Hey Atlas" waits for the question itself
+const WAKE_SILENCE_MS = 1200;
+const WAKE_EMPTY_TIMEOUT_MS = 6000;
+// How long leaving waits for queued transcript lines before finalizing without them
+const LEAVE_FLUSH_TIMEOUT_MS = 3000;
 
-declare global {
-    interface Window {
-        SpeechRecognition: new () => SpeechRecognition;
-        webkitSpeechRecognition: new () => SpeechRecognition;
-    }
-}
 
-export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props) => {
+export const CallActive = ({ onLeave, meetingId, meetingName, agentId, isHost }: Props) => {
     const { useParticipants } = useCallStateHooks();
     const participants = useParticipants();
     const call = useCall();
     const { data: session } = authClient.useSession();
     const { toast } = useToast();
+    const trpc = useTRPC();
+    // Already loaded by the call view; only the speech settings are needed here
+    const { data: meeting } = useQuery(trpc.meetings.getOne.queryOptions({ id: meetingId }));
+    const sttEngine = (meeting?.sttEngine ?? 'browser') as STTEngine;
+    const meetingLanguage = meeting?.language ?? DEFAULT_MEETING_LANGUAGE;
+    const [captionLanguage, setCaptionLanguage] = useCaptionLanguage();
+    const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+    const queryClient = useQueryClient();
+    // The agent's status as reported by whichever browser is answering, when it isn't this one
+    const [isAgentThinking, setIsAgentThinking] = useState(false);
+    const [remoteAgentStatus, setRemoteAgentStatus] = useState<AgentStatus>("idle");
+    const isEventStreamLive = useMeetingEvents(meetingId, (event) => {
+        if (event.type === "chunk") {
+            queryClient.invalidateQueries(trpc.meetings.getTranscript.pathFilter());
+        } else if (event.type === "agent" && event.userId !== session?.user?.id) {
+            setRemoteAgentStatus(event.status);
+        }
+    });
+    const { data: transcriptLines = [] } = useLiveTranscript({
+        meetingId,
+        language: captionLanguage,
+        enabled: isTranscriptOpen || captionLanguage !== "off",
+        live: isEventStreamLive,
+    });
+    const pendingChunks = usePendingChunks();
     const [isListening, setIsListening] = useState(false);
     const [isAgentSpeaking, setIsAgentSpeaking] = useState(false);
     const [isAIMuted, setIsAIMuted] = useState(false);
@@ -52,14 +103,37 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
     const [selectedVoice, setSelectedVoice] = useState("default");
     const [availableVoices, setAvailableVoices] = useState<string[]>([]);
     const [waitingForQuestion, setWaitingForQuestion] = useState(false);
-    const recognitionRef = useRef<SpeechRecognition | null>(null);
+    const recognitionRef = useRef<SpeechToText | null>(null);
     const recognitionPausedByTTSRef = useRef(false);
     const ttsStopRequestedRef = useRef(false);
     const isShuttingDownRef = useRef(false);
     const greetedRef = useRef(false);
     const lastMicStateRef = useRef<boolean | null>(null);
     const lastQuestionRef = useRef<string>("");
+    const chatAbortRef = useRef<AbortController | null>(null);
     const conversationLogRef = useRef<string[]>([]);
+    // Recognition handlers are bound once, so wake-word state lives in refs
+    const [autoReply, setAutoReply] = useState(false);
+    const autoReplyRef = useRef(false);
+    const wakePhrasesRef = useRef<string[]>([]);
+    const addressedRef = useRef<{ question: string; since: number } | null>(null);
+    const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const respondRef = useRef<((question: string, trigger: 'manual' | 'wake') => Promise<void>) | null>(null);
+    const userMessageRef = useRef<((message: string) => void) | null>(null);
+    const extendWakeUtteranceRef = useRef<(() => void) | null>(null);
+    // One browser voices the agent for everyone by publishing its audio into the call.
+    // `speakerAudio` is set while that is this browser; otherwise requests are forwarded to it.
+    const speakerAudio = useAgentSpeaker({ meetingId, enabled: !!agentId });
+    const agentParticipant = participants.find((participant) => participant.userId === agentId);
+    const isRemoteSpeaker = !!agentParticipant && !speakerAudio;
+    const isAgentVoiceActive = !!agentParticipant?.isSpeaking;
+    const speakerAudioRef = useRef<HTMLAudioElement | null>(null);
+    const isRemoteSpeakerRef = useRef(false);
+    const isAgentVoiceActiveRef = useRef(false);
+    const speakerRequestRef = useRef<((request: AgentSpeakerRequest) => void) | null>(null);
+    speakerAudioRef.current = speakerAudio;
+    isRemoteSpeakerRef.current = isRemoteSpeaker;
+    isAgentVoiceActiveRef.current = isAgentVoiceActive;
     const [localUserName, setLocalUserName] = useState<string>("User");
     const accountUserId = session?.user?.id as string | undefined;
     const accountUserName = session?.user?.name as string | undefined;
@@ -107,7 +181,7 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
             const resp = await fetch('/api/tts', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ text }),
+                body: JSON.stringify({ text, agentId, language: meetingLanguage }),
             });
             if (!resp.ok) {
                 try {
@@ -139,7 +213,7 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
     };
 
     // Play a sequence of phrases via neural TTS, one request per phrase
-    const playNeuralTTSPhrases = async (phrases: string[]): Promise<{ playedAny: boolean; quotaExceeded: boolean }> => {
+    const playNeuralTTSPhrases = async (feed: PhraseFeed): Promise<{ playedAny: boolean; quotaExceeded: boolean }> => {
         const avail = await fetch('/api/tts', { method: 'GET' }).then(r => r.json()).catch(() => ({ available: false }));
         if (!avail?.available) return { playedAny: false, quotaExceeded: false };
         if (!audioRef.current) audioRef.current = new Audio();
@@ -154,9 +228,14 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
         let playedAny = false;
         let quotaExceeded = false;
 
-        for (let i = 0; i < phrases.length; i++) {
+        for (let i = 0; ; i++) {
+            if (i >= feed.phrases.length) {
+                if (feed.done) break;
+                await waitForFeed(feed);
+                if (i >= feed.phrases.length) break;
+            }
             if (ttsStopRequestedRef.current || isShuttingDownRef.current || isAIMuted || quotaExceeded) break;
-            const p = phrases[i];
+            const p = feed.phrases[i];
             // ElevenLabs can fail on long payloads; keep phrase <= 300 chars to be safe
             const subparts = splitByMaxLength(p, 300);
             for (const sub of subparts) {
@@ -164,7 +243,7 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
                 const resp = await fetch('/api/tts', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ text: sub }),
+                    body: JSON.stringify({ text: sub, agentId, language: meetingLanguage }),
                 });
                 if (!resp.ok) {
                     try { 
@@ -240,7 +319,13 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
         tryAgain(300);
     };
 
-    // Get agent name from database
+    // Cancel an agent answer that is still streaming in
+    const abortAgentResponse = () => {
+        chatAbortRef.current?.abort();
+        chatAbortRef.current = null;
+    };
+
+    // Get agent name and saved browser voice from database
     useEffect(() => {
         if (agentId) {
             fetch(`/api/agent-info?agentId=${agentId}`)
@@ -249,6 +334,13 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
                     if (data.name) {
                         setAgentName(data.name);
                     }
+                    if (data.browserVoice) {
+                        setSelectedVoice(data.browserVoice);
+                        lockedVoiceNameRef.current = null;
+                    }
+                    autoReplyRef.current = !!data.autoReply;
+                    setAutoReply(!!data.autoReply);
+                    wakePhrasesRef.current = data.wakePhrases?.length ? data.wakePhrases : defaultWakePhrases(data.name ?? '');
                 })
                 .catch(err => console.error('Failed to get agent name:', err));
         }
@@ -285,7 +377,7 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
             const loadVoices = () => {
                 const voices = window.speechSynthesis.getVoices();
                 const voiceNames = voices
-                    .filter(voice => voice.lang.startsWith('en'))
+                    .filter(voice => isSameLanguage(voice.lang, meetingLanguage))
                     .map(voice => voice.name);
                 setAvailableVoices(voiceNames);
             };
@@ -300,110 +392,7 @@ export const CallActive = ({ onLeave, meetingId, meetingName, agentId }: Props)
                 window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
             };
         }
-    }, []);
-
-    // Monitor mic state changes and sync with AI speech recognition
-    useEffect(() => {
-        if (!call || !agentId || isAIListeningDisabled) return;
-
-        const checkMicState = () => {
-            const isMicEnabled = call.microphone.enabled;
-            
-            if (lastMicStateRef.current !== isMicEnabled) {
-                lastMicStateRef.current = isMicEnabled;
-                
-                if (isMicEnabled && !isListening) {
-                    if (recognitionRef.current && !isShuttingDownRef.current) {
-                        try {
-                            recognitionRef.current.start();
-                            setIsListening(true);
-                            // Remove automatic greeting - only greet when manually triggered
-                        } catch (e) {
-                            console.error('Failed to start recognition:', e);
-                        }
-                    }
-                } else if (!isMicEnabled && isListening) {
-                    if (recognitionRef.current) {
-                        try {
-                            recognitionRef.current.stop();
-                            setIsListening(false);
-                        } catch (e) {
-                            console.error('Failed to stop recognition:', e);
-                        }
-                    }
-                    
-                    // Stop AI from speaking when mic is disabled
-                    if (isAgentSpeaking) {
-                        console.log('[Mic disabled] Stopping AI speech');
-                        ttsStopRequestedRef.current = true;
-                        forceStopTTS();
-                        setIsAgentSpeaking(false);
-                    }
-                    
-                    // Keep the last question so user can still trigger the response manually
-                }
-            }
-        };
-
-        checkMicState();
-        const intervalId = setInterval(checkMicState, 500);
-
-        return () => clearInterval(intervalId);
-    }, [call, agentId, isListening, isAIListeningDisabled, isAgentSpeaking]);
-
-    // Initialize speech recognition
-    useEffect(() => {
-        isShuttingDownRef.current = false;
-        ttsStopRequestedRef.current = false;
-        greetedRef.current = false;
-        recognitionPausedByTTSRef.current = false;
-        lastMicStateRef.current = null;
-
-        if (typeof window !== "undefined" && (window.SpeechRecognition || window.webkitSpeechRecognition)) {
-            const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-            recognitionRef.current = new SpeechRecognition();
-            
-            if (recognitionRef.current) {
-                recognitionRef.current.continuous = true;
-                recognitionRef.current.interimResults = true;
-                recognitionRef.current.lang = 'en-US';
-
-                recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
-                    if (isShuttingDownRef.current) return;
-                    let finalTranscript = '';
-                    
-                    for (let i = event.resultIndex; i < event.results.length; i++) {
-                        const result = event.results[i];
-                        if (result.isFinal) {
-                            finalTranscript += result[0].transcript;
-                        }
-                    }
-
-                    if (finalTranscript.trim()) {
-                        handleUserMessage(finalTranscript.trim());
-                    }
-                };
-
-                recognitionRef.current.onerror = (event) => {
-                    if (isShuttingDownRef.current) return;
-                    console.error('Speech recognition error:', event);
-                    setIsListening(false);
-                };
-
-                recognitionRef.current.onend = () => {
-                    if (isShuttingDownRef.current) return;
-                    setIsListening(false);
-                };
-            }
-        }
-
-        return () => {
-            if (recognitionRef.current) {
-                try { recognitionRef.current.stop(); } catch {}
-            }
-        };
-    }, []);
-
+    }, [meetingLanguage]);
 
 // Monitor mic state changes and sync with AI speech recognition
 useEffect(() => {
@@ -454,7 +443,7 @@ useEffect(() => {
     return () => clearInterval(intervalId);
 }, [call, agentId, isListening, isAIListeningDisabled, isAgentSpeaking]);
 
-// Initialize speech recognition
+// Initialize speech recognition with the meeting's engine
 useEffect(() => {
     isShuttingDownRef.current = false;
     ttsStopRequestedRef.current = false;
@@ -462,54 +451,51 @@ useEffect(() => {
     recognitionPausedByTTSRef.current = false;
     lastMicStateRef.current = null;
 
-    if (typeof window !== "undefined" && (window.SpeechRecognition || window.webkitSpeechRecognition)) {
-        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-        recognitionRef.current = new SpeechRecognition();
-        
-        if (recognitionRef.current) {
-            recognitionRef.current.continuous = true;
-            recognitionRef.current.interimResults = true;
-            recognitionRef.current.lang = 'en-US';
+    let cancelled = false;
+    createSpeechToText({ engine: sttEngine, meetingId, language: meetingLanguage })
+        .then((recognition) => {
+            if (cancelled || !recognition) return;
+            recognitionRef.current = recognition;
 
-            recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
+            recognition.onresult = (transcript, isFinal) => {
                 if (isShuttingDownRef.current) return;
-                let finalTranscript = '';
-                
-                for (let i = event.resultIndex; i < event.results.length; i++) {
-                    const result = event.results[i];
-                    if (result.isFinal) {
-                        finalTranscript += result[0].transcript;
-                    }
-                }
-
-                if (finalTranscript.trim()) {
-                    handleUserMessage(finalTranscript.trim());
+                if (isFinal) {
+                    userMessageRef.current?.(transcript);
                 }
+                // Interim results count as speech too, postponing the end of an addressed utterance
+                extendWakeUtteranceRef.current?.();
             };
 
-            recognitionRef.current.onerror = (event) => {
+            recognition.onerror = (error) => {
                 if (isShuttingDownRef.current) return;
-                console.error('Speech recognition error:', event);
+                console.error('Speech recognition error:', error);
                 setIsListening(false);
             };
 
-            recognitionRef.current.onend = () => {
+            recognition.onend = () => {
                 if (isShuttingDownRef.current) return;
                 setIsListening(false);
             };
-        }
-    }
+
+            // The engine is picked asynchronously; let the mic monitor start it if the mic is already on
+            lastMicStateRef.current = null;
+        })
+        .catch((error) => console.error('Failed to set up speech recognition:', error));
 
     return () => {
+        cancelled = true;
         if (recognitionRef.current) {
             try { recognitionRef.current.stop(); } catch {}
+            recognitionRef.current = null;
         }
     };
-}, []);
+}, [sttEngine, meetingId, meetingLanguage]);
 
 // Handle user speech input
 const handleUserMessage = async (message: string) => {
     if (!message) return;
+    // The shared agent voice comes out of this browser's speakers too; don't transcribe it as the user
+    if (isAgentVoiceActiveRef.current) return;
 
     // Log user message, then send to your agent backend or LLM
     // Append to conversation log and sync per-user chunk
@@ -517,29 +503,58 @@ const handleUserMessage = async (message: string) => {
     // Store the question for later manual response
     lastQuestionRef.current = message;
     setWaitingForQuestion(false);
-    try {
-        fetch('/api/conversation-sync', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                meetingId,
-                mode: 'append',
-                chunk: {
-                    speaker: 'user',
-                    userId: accountUserId,
-                    userName: accountUserName || localUserName,
-                    text: message,
-                    ts: Date.now(),
-                },
-            }),
-        }).catch(() => {});
-    } catch {}
+    enqueueChunk(meetingId, {
+        speaker: 'user',
+        userId: accountUserId,
+        userName: accountUserName || localUserName,
+        text: message,
+        ts: Date.now(),
+    }).catch((error) => console.error('[CallActive] Failed to queue transcript line:', error));
     
-    // Don't respond immediately - wait for manual trigger
     console.log(`[User asked]: ${message}`);
-    
-    // Never respond automatically - only store the question
-    // Response will only happen when user clicks the manual trigger button
+
+    // Without wake-word replies the question only waits for the manual trigger button
+    trackWakeUtterance(message);
+};
+userMessageRef.current = handleUserMessage;
+
+// Starts collecting an utterance that addresses the agent, or extends the one in progress
+const trackWakeUtterance = (message: string) => {
+    if (!autoReplyRef.current) return;
+    if (addressedRef.current) {
+        addressedRef.current.question = `${addressedRef.current.question} ${message}`.trim();
+        return;
+    }
+    const question = matchWakePhrase(message, wakePhrasesRef.current);
+    if (question === null) return;
+    console.log(`[Wake word] Addressed: ${question || '(waiting for question)'}`);
+    addressedRef.current = { question, since: Date.now() };
+};
+
+// End-of-utterance detection: the addressed question is sent once the speaker pauses
+const extendWakeUtterance = () => {
+    if (!addressedRef.current) return;
+    if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+    silenceTimerRef.current = setTimeout(finishWakeUtterance, WAKE_SILENCE_MS);
+};
+extendWakeUtteranceRef.current = extendWakeUtterance;
+
+const finishWakeUtterance = () => {
+    silenceTimerRef.current = null;
+    const addressed = addressedRef.current;
+    if (!addressed) return;
+    if (!addressed.question) {
+        // "Hey Atlas" ... pause ... question: keep waiting a little for the question itself
+        if (Date.now() - addressed.since < WAKE_EMPTY_TIMEOUT_MS) {
+            silenceTimerRef.current = setTimeout(finishWakeUtterance, WAKE_SILENCE_MS);
+        } else {
+            addressedRef.current = null;
+        }
+        return;
+    }
+    addressedRef.current = null;
+    lastQuestionRef.current = addressed.question;
+    respondRef.current?.(addressed.question, 'wake');
 };
 
 // Helper: split long text into manageable chunks
@@ -615,6 +630,8 @@ const sanitizeForTTS = (input: string): string => {
     out = out.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1');
     // Remove any remaining asterisks
     out = out.replace(/\*/g, '');
+    // Knowledge base citations like [1] stay in the transcript but are not spoken
+    out = out.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '');
     // Collapse multiple dots
     out = out.replace(/\.\.\.+/g, '…');
     // Normalize spaces
@@ -622,37 +639,46 @@ const sanitizeForTTS = (input: string): string => {
     return out;
 };
 
+// Append to conversation log and sync AI chunk (keep original text for logs/transcript)
+const logAgentResponse = (text: string) => {
+    conversationLogRef.current.push(`AI: ${text}`);
+    enqueueChunk(meetingId, {
+        speaker: 'ai',
+        text,
+        ts: Date.now(),
+    }).catch((error) => console.error('[CallActive] Failed to queue transcript line:', error));
+};
+
+// Sanitized phrases ready for playback
+const toSpeechPhrases = (text: string): string[] =>
+    splitTextIntoChunks(sanitizeForTTS(text)).flatMap(chunk => splitIntoPhrases(chunk));
+
 // Text-to-speech for agent responses
 const speakResponse = async (text: string) => {
     if (!text) return;
+    if (isRemoteSpeakerRef.current) {
+        forwardToAgentSpeaker({ action: 'say', text });
+        return;
+    }
     if (isAIMuted) return; // allow neural even if speechSynthesis is unavailable
     if (isShuttingDownRef.current) return;
-    // Append to conversation log and sync AI chunk (keep original text for logs/transcript)
     if (!ttsStopRequestedRef.current) {
-        conversationLogRef.current.push(`AI: ${text}`);
-        try {
-            fetch('/api/conversation-sync', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    meetingId,
-                    mode: 'append',
-                    chunk: {
-                        speaker: 'ai',
-                        text,
-                        ts: Date.now(),
-                    },
-                }),
-            }).catch(() => {});
-        } catch {}
+        logAgentResponse(text);
     }
+    await speakPhraseFeed({ phrases: toSpeechPhrases(text), done: true });
+};
+
+// Plays a phrase feed; streamed answers start speaking before the feed is complete
+const speakPhraseFeed = async (feed: PhraseFeed) => {
+    if (isAIMuted) return;
+    if (isShuttingDownRef.current) return;
     if (isAgentSpeaking) {
         console.log('[TTS] Already speaking, stopping current speech first');
         forceStopTTS();
         // Wait a bit before starting new speech
         setTimeout(() => {
             if (!isShuttingDownRef.current && !ttsStopRequestedRef.current && !isAIMuted) {
-                speakResponse(text);
+                speakPhraseFeed(feed);
             }
         }, 100);
         return;
@@ -670,20 +696,16 @@ const speakResponse = async (text: string) => {
     // Reset stop flag
     ttsStopRequestedRef.current = false;
 
-    const spokenText = sanitizeForTTS(text);
-
     // Force browser-only mode
     if (FORCE_BROWSER_ONLY) {
         ttsModeRef.current = 'browser';
     }
 
-    // FORCE neural-only: always attempt neural, never fall back
-    if (FORCE_NEURAL_ONLY) {
-        // Build phrase queue for robustness and natural pacing
-        const sentenceChunks = splitTextIntoChunks(spokenText);
-        const phraseQueue = sentenceChunks.flatMap(chunk => splitIntoPhrases(chunk));
+    // FORCE neural-only: always attempt neural, never fall back.
+    // The agent speaker always does: its audio element feeds the agent's published track.
+    if (FORCE_NEURAL_ONLY || speakerAudioRef.current) {
         setIsAgentSpeaking(true);
-        const { playedAny, quotaExceeded } = await playNeuralTTSPhrases(phraseQueue);
+        const { playedAny, quotaExceeded } = await playNeuralTTSPhrases(feed);
         setIsAgentSpeaking(false);
         if (playedAny) {
             if (
@@ -710,8 +732,15 @@ const speakResponse = async (text: string) => {
         return;
     }
 
+    // Whole-text neural synthesis needs the complete answer
+    const waitForFullText = async () => {
+        while (!feed.done) await waitForFeed(feed);
+        return feed.phrases.join(' ');
+    };
+
     // Decide and lock TTS mode on first use
     if (!ttsModeRef.current) {
+        const spokenText = await waitForFullText();
         const ok = await playNeuralTTS(spokenText);
         if (ok) {
             ttsModeRef.current = 'neural';
@@ -748,7 +777,7 @@ const speakResponse = async (text: string) => {
 
     if (ttsModeRef.current === 'neural') {
         // Always stick to neural; if it fails, do not fallback to avoid voice change
-        const ok = await playNeuralTTS(spokenText);
+        const ok = await playNeuralTTS(await waitForFullText());
         if (ok) {
             setIsAgentSpeaking(true);
             const onEnded = () => {
@@ -781,14 +810,19 @@ const speakResponse = async (text: string) => {
 
     await ensureVoicesLoaded();
 
-    const sentenceChunks = splitTextIntoChunks(spokenText);
-    const phraseQueue = sentenceChunks.flatMap(chunk => splitIntoPhrases(chunk));
-    if (phraseQueue.length === 0) return;
+    const phraseQueue = feed.phrases;
+    if (feed.done && phraseQueue.length === 0) return;
 
     setIsAgentSpeaking(true);
 
     const pickBetterDefaultVoice = () => {
         const voices = window.speechSynthesis.getVoices();
+        // Any voice for the meeting's language beats a natural-sounding English one
+        if (!isSameLanguage(meetingLanguage, 'en')) {
+            const native = voices.find(v => v.lang.replace('_', '-') === meetingLanguage)
+                || voices.find(v => isSameLanguage(v.lang, meetingLanguage));
+            if (native) return native;
+        }
         // Prefer natural/neural voices where available
         const preferredNames = [
             'Microsoft Aria Online (Natural)',
@@ -813,6 +847,11 @@ const speakResponse = async (text: string) => {
             setIsAgentSpeaking(false);
             return;
         }
+        if (index >= phraseQueue.length && !feed.done) {
+            // Streaming answer: resume once the next sentence arrives
+            waitForFeed(feed).then(() => speakPhraseAt(index));
+            return;
+        }
         if (index >= phraseQueue.length) {
             setIsAgentSpeaking(false);
             // Resume STT if we paused it AND mic is still enabled
@@ -915,7 +954,8 @@ const greetIfNeededOnGesture = () => {
     setTimeout(() => {
         if (greetedRef.current || isShuttingDownRef.current || isAIMuted) return;
         
-        const participantCount = participants.length;
+        // The agent's own participant (when voiced through the call) isn't someone to greet
+        const participantCount = participants.filter((participant) => participant.userId !== agentId).length;
         const greeting = participantCount > 1 
             ? `Hello everyone! I'm ${agentName}. I'm here to help all ${participantCount} of you during this call. I'll wait for your questions and respond when you trigger me.`
             : `Hello! I'm ${agentName}. I'm here to help you during this call. I'll wait for your questions and respond when you trigger me.`;
@@ -927,10 +967,15 @@ const greetIfNeededOnGesture = () => {
 
 // Manual trigger for AI response
 const handleManualTrigger = async () => {
+    if (isRemoteSpeakerRef.current && isAgentVoiceActiveRef.current) {
+        forwardToAgentSpeaker({ action: 'stop' });
+        return;
+    }
     if (isAgentSpeaking) {
         // AI is currently speaking - stop it
         console.log('[Manual trigger] Stopping current AI speech');
         ttsStopRequestedRef.current = true;
+        abortAgentResponse();
         forceStopTTS();
         setIsAgentSpeaking(false);
         return;
@@ -938,38 +983,7 @@ const handleManualTrigger = async () => {
 
     if (lastQuestionRef.current && !isAIMuted) {
         // Respond to the last question (prioritize this over greeting)
-        try {
-            console.log(`[Manual trigger] Responding to: ${lastQuestionRef.current}`);
-            
-            const response = await fetch('/api/groq-chat', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    message: lastQuestionRef.current,
-                    agentId,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error('Failed to get agent response');
-            }
-
-            const data = await response.json();
-            console.log(`[Agent response]: ${data.response}`);
-            
-            if (isShuttingDownRef.current) return;
-            speakResponse(data.response);
-            // Clear the last question after speaking the response
-            lastQuestionRef.current = "";
-            setWaitingForQuestion(true);
-            
-        } catch (error) {
-            if (!isShuttingDownRef.current) {
-                console.error('Error getting agent response:', error);
-            }
-        }
+        await respondToQuestion(lastQuestionRef.current, 'manual');
     } else if (!greetedRef.current && !isAIMuted) {
         // No question asked yet and haven't greeted - give initial greeting
         greetIfNeededOnGesture();
@@ -980,6 +994,166 @@ const handleManualTrigger = async () => {
     }
 };
 
+// "Ask the agent about this line" from the transcript panel
+const handleAskAboutLine = (line: MeetingGetTranscript[number]) => {
+    if (isAIMuted) {
+        toast({ title: `${agentName} is muted`, description: 'Unmute the agent to ask about this line.' });
+        return;
+    }
+    const question = `${line.userName ?? 'A participant'} said: "${line.text}". Can you tell us more about that?`;
+    lastQuestionRef.current = question;
+    respondToQuestion(question, 'manual');
+};
+
+// Streams the answer so the first sentence is spoken while the rest is generated
+const respondToQuestion = async (question: string, trigger: 'manual' | 'wake') => {
+    if (isAIMuted || isShuttingDownRef.current) return;
+    if (isRemoteSpeakerRef.current) {
+        // The speaker's browser answers, logs and voices it
+        forwardToAgentSpeaker({ action: 'ask', question, trigger });
+        lastQuestionRef.current = "";
+        setWaitingForQuestion(true);
+        return;
+    }
+    const controller = new AbortController();
+    abortAgentResponse();
+    chatAbortRef.current = controller;
+    ttsStopRequestedRef.current = false;
+    setIsAgentThinking(true);
+    const feed: PhraseFeed = { phrases: [], done: false };
+    let started = false;
+    const enqueueSpeech = (text: string) => {
+        const phrases = toSpeechPhrases(text);
+        if (phrases.length === 0) return;
+        feed.phrases.push(...phrases);
+        feed.notify?.();
+        if (!started) {
+            started = true;
+            speakPhraseFeed(feed);
+        }
+    };
+
+    try {
+        console.log(`[${trigger === 'wake' ? 'Wake word' : 'Manual trigger'}] Responding to: ${question}`);
+        
+        const response = await fetch('/api/groq-chat/stream', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                message: question,
+                agentId,
+                meetingId,
+                trigger,
+            }),
+            signal: controller.signal,
+        });
+
+        if (trigger === 'wake' && response.status === 409) {
+            // Another participant's browser heard the same wake phrase and is answering
+            console.log('[Wake word] Reply already claimed by another participant');
+            return;
+        }
+        if (!response.ok || !response.body) {
+            throw new Error('Failed to get agent response');
+        }
+
+        let pending = '';
+        let answer = '';
+        let sources: string[] = [];
+        await readChatStream(response.body, (event) => {
+            if (event.type === 'delta') {
+                pending += event.text;
+                const { sentences, rest } = takeCompleteSentences(pending);
+                pending = rest;
+                if (sentences.length > 0 && !isShuttingDownRef.current) enqueueSpeech(sentences.join(' '));
+            } else if (event.type === 'done') {
+                answer = event.response;
+                sources = event.sources ?? [];
+            } else if (event.type === 'tool') {
+                // The agent confirms aloud; the toast covers muted agents
+                toast({
+                    title: event.ok ? agentName : `${agentName} could not complete that`,
+                    description: event.summary,
+                    variant: event.ok ? 'default' : 'destructive',
+                });
+            } else {
+                throw new Error(event.error);
+            }
+        });
+        if (isShuttingDownRef.current) return;
+        enqueueSpeech(started ? pending : answer);
+        console.log(`[Agent response]: ${answer}`);
+
+        if (!ttsStopRequestedRef.current && answer) {
+            logAgentResponse(appendCitedSources(answer, sources));
+        }
+        // Clear the last question after speaking the response
+        lastQuestionRef.current = "";
+        setWaitingForQuestion(true);
+        
+    } catch (error) {
+        if (!isShuttingDownRef.current && !controller.signal.aborted) {
+            console.error('Error getting agent response:', error);
+        }
+    } finally {
+        feed.done = true;
+        feed.notify?.();
+        if (chatAbortRef.current === controller) chatAbortRef.current = null;
+        setIsAgentThinking(false);
+    }
+};
+
+// Tell the other participants what the agent is doing while this browser answers
+const localAgentStatus: AgentStatus = isAgentSpeaking ? 'speaking' : isAgentThinking ? 'thinking' : 'idle';
+const reportedAgentStatusRef = useRef<AgentStatus>('idle');
+useEffect(() => {
+    if (reportedAgentStatusRef.current === localAgentStatus) return;
+    reportedAgentStatusRef.current = localAgentStatus;
+    fetch('/api/meeting-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ meetingId, status: localAgentStatus }),
+    }).catch(() => {});
+}, [localAgentStatus, meetingId]);
+respondRef.current = respondToQuestion;
+
+const forwardToAgentSpeaker = (request: AgentSpeakerRequest) => {
+    call?.sendCustomEvent({ type: AGENT_SPEAKER_EVENT, ...request })
+        .catch((error) => console.error('[Agent speaker] Failed to forward request:', error));
+};
+
+// Runs requests forwarded by other participants while this browser voices the agent
+const handleSpeakerRequest = (request: AgentSpeakerRequest) => {
+    if (request.action === 'ask') {
+        lastQuestionRef.current = request.question;
+        respondToQuestion(request.question, request.trigger);
+    } else if (request.action === 'say') {
+        speakResponse(request.text);
+    } else if (request.action === 'stop') {
+        ttsStopRequestedRef.current = true;
+        abortAgentResponse();
+        forceStopTTS();
+        setIsAgentSpeaking(false);
+    }
+};
+speakerRequestRef.current = handleSpeakerRequest;
+
+useEffect(() => {
+    if (!call) return;
+    return call.on('custom', (event) => {
+        if (event.custom?.type !== AGENT_SPEAKER_EVENT || !speakerAudioRef.current) return;
+        speakerRequestRef.current?.(event.custom as AgentSpeakerRequest);
+    });
+}, [call]);
+
+// Neural playback goes through the speaker element while this browser voices the agent
+useEffect(() => {
+    forceStopTTS();
+    audioRef.current = speakerAudio;
+}, [speakerAudio]);
+
 // Handle voice change
 const handleVoiceChange = (voice: string) => {
     // Stop any ongoing speech immediately when changing voice
@@ -1065,10 +1239,16 @@ const handleLeaveAndStopAudio = async () => {
     ttsStopRequestedRef.current = true;
     isShuttingDownRef.current = true;
     // Stop TTS/STT aggressively
+    abortAgentResponse();
     try { forceStopTTS(); } catch {}
     try { recognitionRef.current?.abort(); } catch {}
     // Send conversation for summary and mark meeting completed
     try {
+        // Give queued lines a moment to reach the server so the summary includes them
+        await Promise.race([
+            flushChunkQueue(),
+            new Promise((resolve) => setTimeout(resolve, LEAVE_FLUSH_TIMEOUT_MS)),
+        ]);
         // Fetch merged transcript across all participants from sync API
         const joined = await fetch(`/api/conversation-sync?meetingId=${encodeURIComponent(meetingId)}&format=joined`).then(r => r.json()).catch(() => null);
         const mergedTranscript: string = joined?.transcript || conversationLogRef.current.join('\n');
@@ -1089,6 +1269,7 @@ const handleLeaveAndStopAudio = async () => {
 // Ensure TTS/STS stop when component unmounts or tab becomes hidden
 useEffect(() => {
     const stopAudioPipelines = () => {
+        abortAgentResponse();
         forceStopTTS();
         try { recognitionRef.current?.abort(); } catch (_) {}
         setIsListening(false);
@@ -1132,15 +1313,50 @@ useEffect(() => {
                     <div className="text-sm text-gray-300">
                         Participants: {participantNames.length > 0 ? participantNames.join(', ') : 'You'}, {agentName}
                     </div>
+                    {pendingChunks > 0 && (
+                        <div className="text-xs text-yellow-400">
+                            {pendingChunks === 1 ? "1 line" : `${pendingChunks} lines`} waiting to sync
+                        </div>
+                    )}
+                    {remoteAgentStatus === "thinking" && (
+                        <div className="text-xs text-gray-400">{agentName} is thinking…</div>
+                    )}
+                    {autoReply && wakePhrasesRef.current.length > 0 && (
+                        <div className="text-xs text-gray-400">
+                            Say &quot;{wakePhrasesRef.current[0]}&quot; to ask {agentName}
+                        </div>
+                    )}
                 </div>
+                <Select value={captionLanguage} onValueChange={(value) => setCaptionLanguage(value as CaptionLanguage)}>
+                    <SelectTrigger size="sm" className="ml-auto w-[180px] bg-white/10 border-none text-white">
+                        <SelectValue/>
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="off">Captions off</SelectItem>
+                        <SelectItem value="original">Captions as spoken</SelectItem>
+                        {MEETING_LANGUAGES.map((language) => (
+                            <SelectItem key={language.code} value={language.code}>Captions in {language.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="hover:bg-white/10 hover:text-white"
+                    onClick={() => setIsTranscriptOpen((open) => !open)}
+                >
+                    <ScrollTextIcon />
+                    {isTranscriptOpen ? "Hide transcript" : "Transcript"}
+                </Button>
             </div>
 
                 {/* Participants Grid with AI */}
                 <div className="flex-1 flex flex-col gap-4">
+                    {isHost && <WaitingRoomPanel meetingId={meetingId}/>}
                     {/* Human Participants */}
-                    <div className="flex-1">
+                    <div className="flex-1 relative">
                         <CustomSpeakerLayout
-                            isAgentSpeaking={isAgentSpeaking}
+                            isAgentSpeaking={isAgentSpeaking || isAgentVoiceActive || remoteAgentStatus === "speaking"}
                             isListening={isListening}
                             onToggleAIMute={handleToggleAIMute}
                             onToggleAIListening={handleToggleAIListening}
@@ -1152,6 +1368,11 @@ useEffect(() => {
                             onVoiceChange={handleVoiceChange}
                             availableVoices={availableVoices}
                         />
+                        {captionLanguage !== "off" && (
+                            <div className="absolute inset-x-4 bottom-4 flex justify-center pointer-events-none">
+                                <LiveCaptions lines={transcriptLines} agentName={agentName}/>
+                            </div>
+                        )}
                     </div>
                 </div>
                 
@@ -1159,6 +1380,14 @@ useEffect(() => {
                     <CallControls onLeave={handleLeaveAndStopAudio} />
                 </div>
             </div>
+            {isTranscriptOpen && (
+                <TranscriptPanel
+                    lines={transcriptLines}
+                    agentName={agentName}
+                    onAskAgent={handleAskAboutLine}
+                    onClose={() => setIsTranscriptOpen(false)}
+                />
+            )}
         </div>
     );
 };
\ No newline at end of file
@@ -4,13 +4,14 @@ import { useTRPC } from "@/trpc/client";
 import { Call, CallingState, StreamCall, StreamVideo, StreamVideoClient } from "@stream-io/video-react-sdk";
 import { useMutation } from "@tanstack/react-query";
 import { LoaderIcon } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { CallUI } from "./call-ui";
 
 interface Props {
     meetingId:string;
     meetingName:string;
     agentId:string;
+    isHost:boolean;
     userId:string;
     userName:string;
     userImage:string;
@@ -20,6 +21,7 @@ export const CallConnect = ({
    meetingId,
    meetingName,
    agentId,
+   isHost,
    userId,
    userName,
    userImage,
@@ -31,15 +33,10 @@ export const CallConnect = ({
     );
     const [client,setClient]=useState<StreamVideoClient>();
     
+    // The lobby only previews local devices; the user connects to Stream when entering the call
     useEffect(()=> {
         const _client=new StreamVideoClient({
            apiKey:process.env.NEXT_PUBLIC_STREAM_VIDEO_API_KEY!,
-           user:{
-            id:userId,
-            name:userName,
-            image:userImage,
-           },
-           tokenProvider:generateToken,
         });
         setClient(_client);
 
@@ -48,7 +45,20 @@ export const CallConnect = ({
             setClient(undefined);
         };
         
-    },[userId, userName, userImage, generateToken]);
+    },[]);
+
+    // Tokens are only issued once the server has admitted the user to this meeting
+    const connectUser = useCallback(async () => {
+        if (!client) return;
+        await client.connectUser(
+            {
+                id:userId,
+                name:userName,
+                image:userImage,
+            },
+            () => generateToken({ meetingId }),
+        );
+    },[client, meetingId, userId, userName, userImage, generateToken]);
 
     const [call,setCall]=useState<Call>();
     useEffect(()=>{
@@ -79,7 +89,7 @@ export const CallConnect = ({
     return (
         <StreamVideo client={client}>
             <StreamCall call={call}>
-                <CallUI meetingId={meetingId} meetingName={meetingName} agentId={agentId}/> 
+                <CallUI meetingId={meetingId} meetingName={meetingName} agentId={agentId} isHost={isHost} onConnect={connectUser}/> 
             </StreamCall>
             <div>Call connect</div>
         </StreamVideo>
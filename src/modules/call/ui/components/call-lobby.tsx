@@ -2,12 +2,13 @@ import { Button } from "@/components/ui/button";
 import { authClient } from "@/lib/auth-client";
 import { generatedAvatarUri } from "@/lib/avatar";
 import { DefaultVideoPlaceholder, StreamVideoParticipant, ToggleAudioPreviewButton, ToggleVideoPreviewButton, useCallStateHooks, VideoPreview } from "@stream-io/video-react-sdk";
-import { LogInIcon } from "lucide-react";
+import { LoaderIcon, LogInIcon } from "lucide-react";
 import Link from "next/link";
 
 
 interface Props {
     onJoin:()=> void;
+    admission?: "waiting" | "rejected" | "failed" | null;
 }
 
 const DisabledVideoPreview = () => {
@@ -38,7 +39,7 @@ const AllowBrowserPermissions = () => {
     )
 }
 
-export const CallLobby=({onJoin}:Props)=>{
+export const CallLobby=({onJoin, admission}:Props)=>{
     const {useCameraState,useMicrophoneState}=useCallStateHooks();
 
     const {hasBrowserPermission:hasMicPermission}=useMicrophoneState();
@@ -51,8 +52,27 @@ export const CallLobby=({onJoin}:Props)=>{
             <div className="py-4 px-8 flex flex-1 items-center justify-center ">
                 <div className="flex flex-col items-center justify-center gap-y-6 bg-background rounded-lg p-10 shadow-sm">
                 <div className="flex flex-col gap-y-2 text-center">
-                    <h6 className="text-lg font-medium">Ready to join?</h6>
-                    <p className="text-sm">Set up your call before joining</p>
+                    {admission === "waiting" ? (
+                        <>
+                            <h6 className="text-lg font-medium">Waiting for the host</h6>
+                            <p className="text-sm">You&apos;ll join as soon as the host lets you in</p>
+                        </>
+                    ) : admission === "failed" ? (
+                        <>
+                            <h6 className="text-lg font-medium">Couldn&apos;t join the call</h6>
+                            <p className="text-sm">Check your connection and try again</p>
+                        </>
+                    ) : admission === "rejected" ? (
+                        <>
+                            <h6 className="text-lg font-medium">Request declined</h6>
+                            <p className="text-sm">The host didn&apos;t let you into this call</p>
+                        </>
+                    ) : (
+                        <>
+                            <h6 className="text-lg font-medium">Ready to join?</h6>
+                            <p className="text-sm">Set up your call before joining</p>
+                        </>
+                    )}
                 </div>
                 <VideoPreview
                     DisabledVideoPreview={
@@ -71,9 +91,9 @@ export const CallLobby=({onJoin}:Props)=>{
                            Cancel
                         </Link>
                     </Button>
-                    <Button onClick={onJoin}>
-                        <LogInIcon/>
-                        Join Call
+                    <Button onClick={onJoin} disabled={admission === "waiting" || admission === "rejected"}>
+                        {admission === "waiting" ? <LoaderIcon className="animate-spin"/> : <LogInIcon/>}
+                        {admission === "waiting" ? "Waiting..." : admission === "failed" ? "Try again" : "Join Call"}
                     </Button>
                 </div>
                 </div>
@@ -9,9 +9,10 @@ interface Props {
     meetingId:string;
     meetingName:string;
     agentId:string;
+    ownerId:string;
 }
 
-export const CallProvider = ({meetingId,meetingName,agentId}:Props)=> {
+export const CallProvider = ({meetingId,meetingName,agentId,ownerId}:Props)=> {
     const {data,isPending} = authClient.useSession();
 
     if(!data || isPending){
@@ -28,6 +29,7 @@ export const CallProvider = ({meetingId,meetingName,agentId}:Props)=> {
            meetingId={meetingId}
            meetingName={meetingName}
            agentId={agentId}
+           isHost={data.user.id === ownerId}
            userId={data.user.id}
            userName={data.user.name}
            userImage={
@@ -1,7 +1,8 @@
 import { StreamTheme, useCall, useCallStateHooks, CallingState } from "@stream-io/video-react-sdk";
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { useTRPC } from "@/trpc/client";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TRPCClientError } from "@trpc/client";
 import { CallLobby } from "./call-lobby";
 import { CallActive } from "./call-active";
 import { CallEnded } from "./call-ended";
@@ -10,13 +11,17 @@ interface Props {
     meetingId: string;
     meetingName: string;
     agentId: string;
+    isHost: boolean;
+    // Connects this user to Stream; rejected until the server has admitted them
+    onConnect: () => Promise<void>;
 };
 
-export const CallUI=({meetingId, meetingName, agentId}:Props)=>{
+export const CallUI=({meetingId, meetingName, agentId, isHost, onConnect}:Props)=>{
     const call=useCall();
     const { useCallCallingState } = useCallStateHooks();
     const callingState = useCallCallingState();
     const [show,setShow]=useState<"lobby" | "call" | "ended" >("lobby");
+    const [admission,setAdmission]=useState<"waiting" | "rejected" | "failed" | null>(null);
     const trpc = useTRPC();
     const { mutateAsync: joinMeeting } = useMutation(trpc.meetings.join.mutationOptions());
     const { mutateAsync: leaveMeeting } = useMutation(trpc.meetings.leave.mutationOptions());
@@ -67,16 +72,56 @@ export const CallUI=({meetingId, meetingName, agentId}:Props)=>{
         };
     }, [call, callingState]);
 
+    // Poll our own participant row while the host decides on the waiting-room request
+    const { data: participation } = useQuery({
+        ...trpc.meetings.getParticipation.queryOptions({ meetingId }),
+        enabled: admission === "waiting",
+        refetchInterval: 2000,
+    });
+
+    const enterCall = useCallback(async () => {
+        if (!call) return;
+        try {
+            await onConnect();
+            await call.join();
+            setAdmission(null);
+            setShow("call");
+        } catch (e) {
+            console.error("[CallUI] Failed to join the call:", e);
+            setAdmission("failed");
+        }
+    }, [call, onConnect]);
+
+    useEffect(() => {
+        if (admission !== "waiting" || !call || !participation) return;
+        if (participation.status === "admitted") {
+            // Stop polling so a slow join isn't started twice
+            setAdmission(null);
+            enterCall();
+        } else if (participation.status === "rejected") {
+            setAdmission("rejected");
+        }
+    }, [admission, call, participation, enterCall]);
+
     const handleJoin = async () => {
         if (!call) return;
-        // record participant before joining UI
+        // record participant before joining UI; the server only lets admitted participants into the call
         try {
-            await joinMeeting({ meetingId, role: "attendee" });
+            const participant = await joinMeeting({ meetingId, role: "attendee" });
+            if (participant.status === "waiting") {
+                setAdmission("waiting");
+                return;
+            }
         } catch (e) {
-            console.warn("[CallUI] Failed to record participant join:", e);
+            if (e instanceof TRPCClientError && e.data?.code === "FORBIDDEN") {
+                setAdmission("rejected");
+                return;
+            }
+            console.error("[CallUI] Failed to record participant join:", e);
+            setAdmission("failed");
+            return;
         }
-        await call.join();
-        setShow("call"); 
+        await enterCall();
     };
 
     const handleLeave= async () => {
@@ -95,8 +140,8 @@ export const CallUI=({meetingId, meetingName, agentId}:Props)=>{
     };
     return (
         <StreamTheme className="h-full">
-            {show === "lobby" && <CallLobby onJoin={handleJoin}/>}
-            {show === "call" && <CallActive onLeave={handleLeave} meetingId={meetingId} meetingName={meetingName} agentId={agentId}/>}
+            {show === "lobby" && <CallLobby onJoin={handleJoin} admission={admission}/>}
+            {show === "call" && <CallActive onLeave={handleLeave} meetingId={meetingId} meetingName={meetingName} agentId={agentId} isHost={isHost}/>}
             {show === "ended" && <CallEnded/>}
         </StreamTheme>
     )
@@ -1,4 +1,4 @@
-import { useCallStateHooks, ParticipantView } from "@stream-io/video-react-sdk";
+import { useCallStateHooks, ParticipantView, ParticipantsAudio } from "@stream-io/video-react-sdk";
 import { AIParticipant } from "./ai-participant";
 
 interface CustomSpeakerLayoutProps {
@@ -29,11 +29,15 @@ export const CustomSpeakerLayout = ({
     availableVoices
 }: CustomSpeakerLayoutProps) => {
     const { useParticipants } = useCallStateHooks();
-    const participants = useParticipants();
+    // The agent joins as its own participant when one browser voices it; it keeps the AI tile
+    const allParticipants = useParticipants();
+    const participants = allParticipants.filter((participant) => participant.userId !== agentId);
+    const agentParticipants = allParticipants.filter((participant) => participant.userId === agentId);
 
     // Fixed layout with absolute positioning - no shifting ever
     return (
         <div className="relative h-full w-full">
+            <ParticipantsAudio participants={agentParticipants} />
             {/* Fixed grid positions - never change */}
             
             {/* Top Left - Always Human 1 */}
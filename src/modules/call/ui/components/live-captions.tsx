@@ -0,0 +1,28 @@
+import { MeetingGetTranscript } from "@/modules/meetings/types";
+
+interface Props {
+    lines: MeetingGetTranscript;
+    agentName: string;
+}
+
+// Lines kept on screen; older ones scroll away
+const VISIBLE_LINES = 2;
+
+// Latest transcript lines over the video, in the participant's caption language
+export const LiveCaptions = ({ lines, agentName }: Props) => {
+    const visible = lines.slice(-VISIBLE_LINES);
+    if (visible.length === 0) return null;
+
+    return (
+        <div className="max-w-2xl bg-black/70 rounded-lg px-4 py-2 flex flex-col gap-y-1 text-sm">
+            {visible.map((line) => (
+                <p key={line.id}>
+                    <span className="font-medium text-gray-300">
+                        {line.speaker === "ai" ? agentName : (line.userName ?? "User")}:
+                    </span>{" "}
+                    {line.translation ?? line.text}
+                </p>
+            ))}
+        </div>
+    );
+};
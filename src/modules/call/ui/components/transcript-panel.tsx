@@ -0,0 +1,102 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MeetingGetTranscript } from "@/modules/meetings/types";
+import { format } from "date-fns";
+import { MessageSquareIcon, SearchIcon, XIcon } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface Props {
+    lines: MeetingGetTranscript;
+    agentName: string;
+    onAskAgent: (line: MeetingGetTranscript[number]) => void;
+    onClose: () => void;
+}
+
+// Collapsible side panel with everyone's transcript lines while the call runs
+export const TranscriptPanel = ({ lines, agentName, onAskAgent, onClose }: Props) => {
+    const [search, setSearch] = useState("");
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const filtered = lines.filter((line) =>
+        [line.text, line.translation ?? "", line.userName ?? ""].some((text) =>
+            text.toLowerCase().includes(search.toLowerCase()),
+        ),
+    );
+
+    // Follow new lines unless the list is being searched
+    useEffect(() => {
+        if (!search) bottomRef.current?.scrollIntoView({ block: "end" });
+    }, [lines.length, search]);
+
+    const handleCopy = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            toast.success("Line copied");
+        } catch {
+            toast.error("Could not copy the line");
+        }
+    };
+
+    return (
+        <div className="w-80 shrink-0 bg-[#101213] rounded-lg m-4 ml-0 flex flex-col min-h-0">
+            <div className="flex items-center justify-between px-4 pt-4">
+                <span className="text-sm font-medium">Transcript</span>
+                <Button variant="ghost" size="icon" className="size-7 hover:bg-white/10" onClick={onClose}>
+                    <XIcon />
+                </Button>
+            </div>
+            <div className="relative px-4 py-3">
+                <Input
+                    placeholder="Search transcript"
+                    className="pl-7 h-8 bg-white/10 border-none text-white"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                <SearchIcon className="absolute left-6 top-1/2 -translate-y-1/2 size-4 text-gray-400" />
+            </div>
+            <div className="flex-1 overflow-y-auto px-4 pb-4 flex flex-col gap-y-3">
+                {filtered.length === 0 ? (
+                    <p className="text-sm text-gray-400">
+                        {search ? "No matching lines." : "Nothing has been said yet."}
+                    </p>
+                ) : (
+                    filtered.map((line) => {
+                        const name = line.speaker === "ai" ? agentName : (line.userName ?? "User");
+                        const text = line.translation ?? line.text;
+                        return (
+                            <div key={line.id} className="group flex flex-col gap-y-1 rounded-md p-2 hover:bg-white/5">
+                                <div className="flex items-center gap-x-2 text-xs">
+                                    <span className="font-medium">{name}</span>
+                                    <span className="text-gray-400">{format(new Date(line.ts), "p")}</span>
+                                    {line.speaker !== "ai" && (
+                                        <button
+                                            type="button"
+                                            className="ml-auto flex items-center gap-x-1 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-white"
+                                            onClick={() => onAskAgent(line)}
+                                        >
+                                            <MessageSquareIcon className="size-3" />
+                                            Ask {agentName}
+                                        </button>
+                                    )}
+                                </div>
+                                <button
+                                    type="button"
+                                    title="Click to copy"
+                                    className="text-left text-sm text-gray-200"
+                                    onClick={() => handleCopy(`${name}: ${text}`)}
+                                >
+                                    {text}
+                                </button>
+                                {line.translation && (
+                                    <span className="text-xs text-gray-500">{line.text}</span>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+                <div ref={bottomRef} />
+            </div>
+        </div>
+    );
+};
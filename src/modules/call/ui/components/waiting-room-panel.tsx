@@ -0,0 +1,71 @@
+import { Avatar, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { GeneratedAvatar } from "@/components/generated-avatar";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckIcon, XIcon } from "lucide-react";
+import { toast } from "sonner";
+
+interface Props {
+    meetingId: string;
+}
+
+// Host-only queue of people waiting in the lobby
+export const WaitingRoomPanel = ({ meetingId }: Props) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const { data: waiting } = useQuery({
+        ...trpc.meetings.getWaitingParticipants.queryOptions({ meetingId }),
+        refetchInterval: 2000,
+    });
+    const admitParticipant = useMutation(
+        trpc.meetings.admitParticipant.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.meetings.getWaitingParticipants.queryOptions({ meetingId }));
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    if (!waiting?.length) return null;
+
+    return (
+        <div className="bg-[#101213] rounded-lg p-3 flex flex-col gap-y-2">
+            <span className="text-sm font-medium">
+                Waiting to join ({waiting.length})
+            </span>
+            {waiting.map((participant) => (
+                <div key={participant.id} className="flex items-center gap-x-2">
+                    {participant.user.image ? (
+                        <Avatar className="size-6">
+                            <AvatarImage src={participant.user.image}/>
+                        </Avatar>
+                    ) : (
+                        <GeneratedAvatar seed={participant.user.name} variant="initials" className="size-6"/>
+                    )}
+                    <span className="flex-1 truncate text-sm">{participant.user.name}</span>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-rose-400 hover:text-rose-300"
+                        disabled={admitParticipant.isPending}
+                        onClick={() => admitParticipant.mutate({ meetingId, userId: participant.userId, admit: false })}
+                    >
+                        <XIcon/>
+                        Reject
+                    </Button>
+                    <Button
+                        size="sm"
+                        disabled={admitParticipant.isPending}
+                        onClick={() => admitParticipant.mutate({ meetingId, userId: participant.userId, admit: true })}
+                    >
+                        <CheckIcon/>
+                        Admit
+                    </Button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -27,5 +27,5 @@ export const CallView = ({
             </div>
         )
     }
-    return <CallProvider meetingId={meetingId} meetingName={data.name} agentId={data.agentId}/>
+    return <CallProvider meetingId={meetingId} meetingName={data.name} agentId={data.agentId} ownerId={data.userId}/>
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+// Server-sent events emitted by `/api/groq-chat/stream` (one JSON object per `data:` line)
+export type ChatStreamEvent =
+    | { type: "delta"; text: string }
+    | { type: "tool"; name: string; ok: boolean; summary: string }
+    | { type: "done"; response: string; agent: string; sources?: string[] }
+    | { type: "error"; error: string };
+
+// Reads the `/api/groq-chat/stream` SSE body, invoking `onEvent` for each event
+export async function readChatStream(body: ReadableStream<Uint8Array>, onEvent: (event: ChatStreamEvent) => void) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf("\n\n");
+        while (boundary !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            const data = frame
+                .split("\n")
+                .filter((line) => line.startsWith("data:"))
+                .map((line) => line.slice(5).trimStart())
+                .join("\n");
+            if (data) {
+                try {
+                    onEvent(JSON.parse(data) as ChatStreamEvent);
+                } catch {
+                    console.warn("[Chat stream] Skipping malformed event");
+                }
+            }
+            boundary = buffer.indexOf("\n\n");
+        }
+    }
+}
+
+// Appends the knowledge base documents the answer cites as [n] so the transcript keeps them
+export function appendCitedSources(answer: string, sources: string[] = []): string {
+    const cited = sources
+        .map((name, i) => ({ name, label: `[${i + 1}]` }))
+        .filter(({ label }) => answer.includes(label));
+    if (cited.length === 0) return answer;
+    return `${answer}\n\nSources: ${cited.map(({ name, label }) => `${label} ${name}`).join("; ")}`;
+}
+
+/**
+ * Splits streamed text into the sentences that are already complete and the
+ * unfinished remainder. Line breaks count as boundaries so list items are spoken as they arrive.
+ */
+export function takeCompleteSentences(text: string): { sentences: string[]; rest: string } {
+    // A period after a digit is usually a list marker or decimal, not a sentence end
+    const boundary = /(?<!\d)[.!?…]["')\]]*\s+|\n+/g;
+    let end = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        end = match.index + match[0].length;
+    }
+    const sentences = text
+        .slice(0, end)
+        .split(/\n+/)
+        .map((s) => s.trim())
+        .filter(Boolean);
+    return { sentences, rest: text.slice(end) };
+}
+
+// Phrases that address an agent when it has none configured: "Hey Atlas" or "OK Atlas". A bare
+// name is not enough, since names like "Scrum" or a mention of the agent come up in conversation.
+export function defaultWakePhrases(agentName: string): string[] {
+    const name = agentName.trim();
+    const firstName = name.split(/\s+/)[0] ?? "";
+    if (!firstName) return [];
+    return Array.from(new Set([`hey ${name}`, `ok ${name}`, `hey ${firstName}`, `ok ${firstName}`]));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Returns the question addressed to the agent when `utterance` contains one of the
+ * wake phrases (with the phrase removed, possibly empty), or null when it does not.
+ * Longer phrases win, so "hey atlas" is removed whole rather than leaving "hey".
+ */
+export function matchWakePhrase(utterance: string, phrases: string[]): string | null {
+    const sorted = [...phrases].sort((a, b) => b.length - a.length);
+    for (const phrase of sorted) {
+        const words = phrase.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+        if (words.length === 0) continue;
+        // Speech recognition may put commas between the words ("Hey, Atlas")
+        const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${words.join("[\\s,.!?]+")}(?=$|[^\\p{L}\\p{N}])`, "iu");
+        const match = pattern.exec(utterance);
+        if (!match) continue;
+        const before = utterance.slice(0, match.index + match[1].length);
+        const after = utterance.slice(match.index + match[0].length);
+        return `${before.trim()} ${after.replace(/^[\s,.!?]+/, "")}`.replace(/[\s,]+$/, "").trim();
+    }
+    return null;
+}
+
+// Custom call event asking the browser that voices the agent to answer, speak or stop
+export const AGENT_SPEAKER_EVENT = "agent-speaker";
+
+export type AgentSpeakerRequest =
+    | { action: "ask"; question: string; trigger: "manual" | "wake" }
+    | { action: "say"; text: string }
+    | { action: "stop" };
@@ -0,0 +1,100 @@
+import { db } from "@/db";
+import { jobs } from "@/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { JobStatus, JobType } from "../types";
+
+export type Job = typeof jobs.$inferSelect;
+
+// A running job whose worker died is handed out again after this long
+export const JOB_LOCK_TIMEOUT_MINUTES = 10;
+
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+
+export function getRetryDelayMs(attempts: number) {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueJob(
+    type: JobType,
+    options: { meetingId?: string; payload?: Record<string, unknown>; maxAttempts?: number; runAt?: Date } = {},
+) {
+    const [job] = await db
+        .insert(jobs)
+        .values({
+            type,
+            meetingId: options.meetingId,
+            payload: JSON.stringify(options.payload ?? {}),
+            maxAttempts: options.maxAttempts,
+            runAt: options.runAt,
+        })
+        .returning();
+    return job;
+}
+
+/**
+ * Atomically claims the next due job (or one whose lock went stale).
+ * `FOR UPDATE SKIP LOCKED` keeps concurrent workers from picking the same row.
+ */
+export async function claimNextJob(now: Date = new Date()): Promise<Job | null> {
+    const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MINUTES * 60_000);
+
+    const [job] = await db
+        .update(jobs)
+        .set({
+            status: JobStatus.Running,
+            lockedAt: now,
+            attempts: sql`${jobs.attempts} + 1`,
+            updatedAt: now,
+        })
+        .where(
+            eq(
+                jobs.id,
+                sql`(
+                    SELECT id FROM ${jobs}
+                    WHERE (${jobs.status} = ${JobStatus.Pending} AND ${jobs.runAt} <= ${now.toISOString()}::timestamp)
+                       OR (${jobs.status} = ${JobStatus.Running} AND ${jobs.lockedAt} < ${staleBefore.toISOString()}::timestamp)
+                    ORDER BY ${jobs.runAt}
+                    LIMIT 1
+                    FOR UPDATE SKIP LOCKED
+                )`,
+            ),
+        )
+        .returning();
+
+    return job ?? null;
+}
+
+export async function completeJob(job: Job) {
+    await db
+        .update(jobs)
+        .set({ status: JobStatus.Completed, lockedAt: null, completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(jobs.id, job.id));
+}
+
+// Schedules a retry with exponential backoff, or gives up once attempts are exhausted
+export async function failJob(job: Job, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    await db
+        .update(jobs)
+        .set({
+            status: exhausted ? JobStatus.Failed : JobStatus.Pending,
+            lockedAt: null,
+            lastError: message,
+            runAt: exhausted ? job.runAt : new Date(Date.now() + getRetryDelayMs(job.attempts)),
+            updatedAt: new Date(),
+        })
+        .where(eq(jobs.id, job.id));
+
+    return { exhausted };
+}
+
+export function getJobPayload<T>(job: Job): Partial<T> {
+    try {
+        return JSON.parse(job.payload) as Partial<T>;
+    } catch {
+        return {};
+    }
+}
@@ -0,0 +1,68 @@
+import { db } from "@/db";
+import { meetings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import {
+    releaseStuckMeeting,
+    runMeetingInsightsJob,
+    runMeetingSummaryJob,
+} from "@/modules/meetings/server/post-processing";
+import { generateProjectPlan, getProjectPlan } from "@/modules/tasks/server/project-plan";
+import { failAgentDocumentJob, runAgentDocumentJob } from "@/modules/agents/server/knowledge";
+import { runAgentMemoryJob } from "@/modules/agents/server/memory";
+import { JobType } from "../types";
+import { claimNextJob, completeJob, failJob, Job } from "./queue";
+
+async function runProjectPlanJob(job: Job) {
+    if (!job.meetingId) return;
+    // Re-running analysis must not duplicate tasks that already exist for the meeting
+    if (await getProjectPlan(job.meetingId)) return;
+
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, job.meetingId));
+    if (!meeting) return;
+
+    await generateProjectPlan(meeting);
+}
+
+const handlers: Record<JobType, (job: Job) => Promise<void>> = {
+    [JobType.MeetingSummary]: runMeetingSummaryJob,
+    [JobType.MeetingInsights]: runMeetingInsightsJob,
+    [JobType.ProjectPlan]: runProjectPlanJob,
+    [JobType.AgentDocument]: runAgentDocumentJob,
+    [JobType.AgentMemory]: runAgentMemoryJob,
+};
+
+/**
+ * Drains due jobs one at a time. Safe to run from several processes at once:
+ * each claim locks its row, so a job is only ever handled by one worker.
+ */
+export async function runJobWorker({ maxJobs = 10 }: { maxJobs?: number } = {}) {
+    let completed = 0;
+    let failed = 0;
+
+    for (let i = 0; i < maxJobs; i++) {
+        const job = await claimNextJob();
+        if (!job) break;
+
+        const handler = handlers[job.type as JobType];
+        try {
+            if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+            await handler(job);
+            await completeJob(job);
+            completed++;
+        } catch (error) {
+            failed++;
+            const { exhausted } = await failJob(job, error);
+            console.error(`[Job Worker] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+            // Only the summary and insights steps hold the meeting in `processing`
+            if (exhausted && job.meetingId && (job.type === JobType.MeetingSummary || job.type === JobType.MeetingInsights)) {
+                await releaseStuckMeeting(job.meetingId);
+            }
+            if (exhausted && job.type === JobType.AgentDocument) {
+                await failAgentDocumentJob(job, error);
+            }
+        }
+    }
+
+    return { completed, failed };
+}
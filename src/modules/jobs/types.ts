@@ -0,0 +1,14 @@
+export enum JobStatus {
+    Pending = "pending",
+    Running = "running",
+    Completed = "completed",
+    Failed = "failed",
+}
+
+export enum JobType {
+    MeetingSummary = "meeting-summary",
+    MeetingInsights = "meeting-insights",
+    ProjectPlan = "project-plan",
+    AgentDocument = "agent-document",
+    AgentMemory = "agent-memory",
+}
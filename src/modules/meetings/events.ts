@@ -0,0 +1,21 @@
+// Events pushed to everyone in a meeting over /api/meeting-events
+export const AGENT_STATUSES = ["idle", "thinking", "speaking"] as const;
+
+export type AgentStatus = typeof AGENT_STATUSES[number];
+
+export type MeetingEvent =
+    | {
+        type: "chunk";
+        chunk: {
+            id: string;
+            speaker: string;
+            userId: string | null;
+            userName: string | null;
+            text: string;
+            ts: string;
+        };
+    }
+    // Something about the meeting's tasks changed; clients reload them
+    | { type: "tasks" }
+    // Reported by the browser that is answering; `userId` is the participant it runs for
+    | { type: "agent"; status: AgentStatus; userId: string };
@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from "react";
+import { MeetingEvent } from "../events";
+
+/**
+ * Subscribes to the meeting's server-sent events. Returns whether the stream is
+ * connected, so callers can fall back to polling while it isn't (the browser
+ * reconnects on its own).
+ */
+export const useMeetingEvents = (meetingId: string, onEvent: (event: MeetingEvent) => void) => {
+    const [connected, setConnected] = useState(false);
+    // Latest handler without resubscribing on every render
+    const onEventRef = useRef(onEvent);
+    onEventRef.current = onEvent;
+
+    useEffect(() => {
+        if (typeof EventSource === "undefined") return;
+        const source = new EventSource(`/api/meeting-events?meetingId=${encodeURIComponent(meetingId)}`);
+        source.onopen = () => setConnected(true);
+        source.onerror = () => setConnected(false);
+        source.onmessage = (message) => {
+            try {
+                onEventRef.current(JSON.parse(message.data) as MeetingEvent);
+            } catch {
+                console.warn("[Meeting events] Skipping malformed event");
+            }
+        };
+        return () => {
+            source.close();
+            setConnected(false);
+        };
+    }, [meetingId]);
+
+    return connected;
+};
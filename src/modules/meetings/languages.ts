@@ -0,0 +1,33 @@
+// Languages offered for speaking, captions and summaries. Codes are BCP-47 tags,
+// as the Web Speech API expects; the server engine and the LLM take them as is.
+export const MEETING_LANGUAGES = [
+    { code: "en-US", label: "English" },
+    { code: "es-ES", label: "Spanish" },
+    { code: "fr-FR", label: "French" },
+    { code: "de-DE", label: "German" },
+    { code: "it-IT", label: "Italian" },
+    { code: "pt-BR", label: "Portuguese" },
+    { code: "nl-NL", label: "Dutch" },
+    { code: "pl-PL", label: "Polish" },
+    { code: "ru-RU", label: "Russian" },
+    { code: "tr-TR", label: "Turkish" },
+    { code: "ar-SA", label: "Arabic" },
+    { code: "hi-IN", label: "Hindi" },
+    { code: "zh-CN", label: "Chinese (Mandarin)" },
+    { code: "ja-JP", label: "Japanese" },
+    { code: "ko-KR", label: "Korean" },
+] as const;
+
+export type MeetingLanguage = typeof MEETING_LANGUAGES[number]["code"];
+
+export const MEETING_LANGUAGE_CODES = MEETING_LANGUAGES.map((language) => language.code) as [MeetingLanguage, ...MeetingLanguage[]];
+
+export const DEFAULT_MEETING_LANGUAGE: MeetingLanguage = "en-US";
+
+export const languageName = (code: string) =>
+    MEETING_LANGUAGES.find((language) => language.code === code)?.label ?? code;
+
+const primarySubtag = (code: string) => code.split(/[-_]/)[0].toLowerCase();
+
+// Same language for captions and translation purposes ("en-US" and "en-GB" need no translation)
+export const isSameLanguage = (a: string, b: string) => primarySubtag(a) === primarySubtag(b);
@@ -1,11 +1,32 @@
 import z from "zod";
+import { MEETING_LANGUAGE_CODES } from "./languages";
 
+// Where participants' speech is transcribed during the call
+export const STT_ENGINES = ["browser", "server"] as const;
+
+export type STTEngine = typeof STT_ENGINES[number];
 
 export const meetingsInsertSchema = z.object({
     name:z.string().min(1,{message:"Name is required"}),
     agentId: z.string().min(1,{message:"Agent are required"}),
+    scheduledAt: z.coerce.date().nullish(),
+    durationMinutes: z
+        .number()
+        .int()
+        .min(5,{message:"Duration must be at least 5 minutes"})
+        .max(480,{message:"Duration must be at most 8 hours"}),
+    isPublic: z.boolean(),
+    waitingRoomEnabled: z.boolean(),
+    sttEngine: z.enum(STT_ENGINES),
+    language: z.enum(MEETING_LANGUAGE_CODES),
+    summaryLanguage: z.enum(MEETING_LANGUAGE_CODES).nullish(),
+});
+
+export const meetingInviteSchema = z.object({
+    meetingId: z.string().min(1),
+    email: z.string().email({message:"Enter a valid email"}),
 });
 
 export const meetingsUpdateSchema = meetingsInsertSchema.extend({
     id: z.string().min(1, { message: "ID is required" }),
-})
\ No newline at end of file
+})
@@ -0,0 +1,50 @@
+import { db } from "@/db";
+import { meetings } from "@/db/schema";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { streamVideo } from "@/lib/stream-video";
+
+// Speakers renew every few seconds; a closed tab hands over once its lease runs out
+export const AGENT_SPEAKER_LEASE_MS = 15_000;
+
+/**
+ * Claims (or renews) the agent speaker role of a meeting for one browser session.
+ * Only the holder joins the call as the agent and publishes its voice, so every
+ * participant hears each answer exactly once.
+ */
+export async function claimAgentSpeaker(meetingId: string, sessionId: string) {
+    const now = new Date();
+    const [claimed] = await db
+        .update(meetings)
+        .set({
+            agentSpeakerSessionId: sessionId,
+            agentSpeakerLeaseUntil: new Date(now.getTime() + AGENT_SPEAKER_LEASE_MS),
+        })
+        .where(
+            and(
+                eq(meetings.id, meetingId),
+                or(
+                    eq(meetings.agentSpeakerSessionId, sessionId),
+                    isNull(meetings.agentSpeakerLeaseUntil),
+                    lt(meetings.agentSpeakerLeaseUntil, now),
+                ),
+            ),
+        )
+        .returning({ id: meetings.id });
+    return !!claimed;
+}
+
+export async function releaseAgentSpeaker(meetingId: string, sessionId: string) {
+    await db
+        .update(meetings)
+        .set({ agentSpeakerSessionId: null, agentSpeakerLeaseUntil: null })
+        .where(and(eq(meetings.id, meetingId), eq(meetings.agentSpeakerSessionId, sessionId)));
+}
+
+// Lets the speaker's browser join as the agent; scoped to this meeting's call only
+export function generateAgentSpeakerToken(agentId: string, meetingId: string) {
+    return streamVideo.generateCallToken({
+        user_id: agentId,
+        call_cids: [`default:${meetingId}`],
+        validity_in_seconds: 60 * 60,
+    });
+}
@@ -0,0 +1,126 @@
+import { db } from "@/db";
+import { conversationChunks, meetingChatMemory } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getLLMProvider, LLMMessage } from "@/lib/llm";
+import { formatTranscript, getTranscriptChunks } from "./transcript";
+
+type ConversationChunk = typeof conversationChunks.$inferSelect;
+
+export type ChatMessage = LLMMessage;
+
+// Recent turns sent verbatim; anything older is folded into the rolling summary
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.AGENT_CONTEXT_TOKEN_BUDGET) || 3000;
+const SUMMARY_MAX_TOKENS = 400;
+
+// Rough count (~4 characters per token); only used to size the window
+export function estimateTokens(text: string) {
+    return Math.ceil(text.length / 4);
+}
+
+function chunkTokens(chunk: ConversationChunk) {
+    return estimateTokens(formatTranscript([chunk]));
+}
+
+// Newest chunks whose combined size fits the budget, in chronological order
+function takeRecent(chunks: ConversationChunk[], budget: number) {
+    let used = 0;
+    let start = chunks.length;
+    while (start > 0) {
+        const tokens = chunkTokens(chunks[start - 1]);
+        if (used + tokens > budget) break;
+        used += tokens;
+        start -= 1;
+    }
+    return start;
+}
+
+async function summarizeTurns(previousSummary: string | null, turns: ConversationChunk[]) {
+    const llm = getLLMProvider();
+    if (!llm) throw new Error("LLM provider is not configured");
+
+    const completion = await llm.complete(
+        [
+            {
+                role: "system",
+                content: [
+                    "You maintain a running summary of a live meeting for an AI assistant taking part in it.",
+                    "Merge the new turns into the existing summary. Keep who said what, decisions, open questions, names and numbers.",
+                    "Write plain prose under 250 words. Output the summary only.",
+                ].join("\n"),
+            },
+            {
+                role: "user",
+                content: [
+                    `Existing summary:\n${previousSummary || "(none)"}`,
+                    `New turns:\n${formatTranscript(turns)}`,
+                ].join("\n\n"),
+            },
+        ],
+        { tier: "fast", temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS },
+    );
+    const summary = completion.text.trim();
+    if (!summary) throw new Error("Empty summary");
+    return summary;
+}
+
+function toMessages(chunks: ConversationChunk[]): ChatMessage[] {
+    return chunks.map((chunk) =>
+        chunk.speaker === "ai"
+            ? { role: "assistant", content: chunk.text }
+            : { role: "user", content: `${chunk.userName || "User"}: ${chunk.text}` },
+    );
+}
+
+/**
+ * Builds the agent's memory of the meeting so far: a rolling summary of older turns
+ * followed by the most recent turns verbatim, kept within `tokenBudget`.
+ *
+ * Turns are folded into the summary in batches (down to half the budget) so the
+ * summarizer runs once per ~half a window of conversation rather than on every request.
+ */
+export async function getConversationMemory(
+    meetingId: string,
+    { tokenBudget = CONTEXT_TOKEN_BUDGET, latestMessage }: { tokenBudget?: number; latestMessage?: string } = {},
+): Promise<ChatMessage[]> {
+    const [chunks, [memory]] = await Promise.all([
+        getTranscriptChunks(meetingId),
+        db.select().from(meetingChatMemory).where(eq(meetingChatMemory.meetingId, meetingId)),
+    ]);
+
+    let summary = memory?.summary ?? null;
+    let pending = memory ? chunks.filter((chunk) => chunk.ts > memory.summarizedThrough) : chunks;
+
+    const pendingTokens = pending.reduce((sum, chunk) => sum + chunkTokens(chunk), 0);
+    if (pendingTokens > tokenBudget) {
+        const keepFrom = takeRecent(pending, Math.floor(tokenBudget / 2));
+        const folded = pending.slice(0, keepFrom);
+        try {
+            summary = await summarizeTurns(summary, folded);
+            const summarizedThrough = folded[folded.length - 1].ts;
+            await db
+                .insert(meetingChatMemory)
+                .values({ meetingId, summary, summarizedThrough })
+                .onConflictDoUpdate({
+                    target: meetingChatMemory.meetingId,
+                    set: { summary, summarizedThrough, updatedAt: new Date() },
+                });
+            pending = pending.slice(keepFrom);
+        } catch (error) {
+            // Without a fresh summary, fall back to as many recent turns as fit
+            console.error("[chat-memory] Failed to update rolling summary:", error);
+            pending = pending.slice(takeRecent(pending, tokenBudget));
+        }
+    }
+
+    // The question being answered is sent separately, so drop its synced copy
+    const last = pending[pending.length - 1];
+    if (latestMessage && last?.speaker !== "ai" && last?.text.trim() === latestMessage.trim()) {
+        pending = pending.slice(0, -1);
+    }
+
+    const messages = toMessages(pending);
+    if (summary) {
+        messages.unshift({ role: "system", content: `Summary of the earlier part of this meeting:\n${summary}` });
+    }
+    return messages;
+}
@@ -0,0 +1,17 @@
+import { getRealtimeBus } from "@/lib/realtime";
+import { MeetingEvent } from "../events";
+
+const meetingChannel = (meetingId: string) => `meeting:${meetingId}`;
+
+// Best-effort: clients still catch up on reload, so a failed push never fails the request
+export async function publishMeetingEvent(meetingId: string, event: MeetingEvent) {
+    try {
+        await getRealtimeBus().publish(meetingChannel(meetingId), event);
+    } catch (error) {
+        console.error("[Realtime] Failed to publish meeting event:", error);
+    }
+}
+
+export function subscribeToMeeting(meetingId: string, listener: (event: MeetingEvent) => void) {
+    return getRealtimeBus().subscribe(meetingChannel(meetingId), (message) => listener(message as MeetingEvent));
+}
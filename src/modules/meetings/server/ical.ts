@@ -0,0 +1,39 @@
+import { addMinutes } from "date-fns";
+import { ICalEvent } from "@/lib/ical";
+import { MeetingStatus } from "../types";
+
+type CalendarMeeting = {
+    id: string;
+    name: string;
+    status: string;
+    scheduledAt: Date | string | null;
+    durationMinutes: number;
+    sequence: number;
+    startedAt: Date | string | null;
+    createdAt: Date | string;
+    updatedAt: Date | string;
+    agent: { name: string } | null;
+};
+
+// Public origin used for join links; falls back to the origin of the incoming request
+export function getAppUrl(request: Request) {
+    return process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+}
+
+export function meetingToICalEvent(meeting: CalendarMeeting, appUrl: string): ICalEvent {
+    // Unscheduled ("start now") meetings are placed at the time they started or were created
+    const start = new Date(meeting.scheduledAt ?? meeting.startedAt ?? meeting.createdAt);
+    const joinUrl = `${appUrl}/call/${meeting.id}`;
+
+    return {
+        uid: `${meeting.id}@meet-ai`,
+        sequence: meeting.sequence,
+        start,
+        end: addMinutes(start, meeting.durationMinutes),
+        summary: meeting.name,
+        description: `Meeting with ${meeting.agent?.name ?? "AI Agent"}\n\nJoin: ${joinUrl}`,
+        url: joinUrl,
+        status: meeting.status === MeetingStatus.Cancelled ? "CANCELLED" : "CONFIRMED",
+        lastModified: new Date(meeting.updatedAt),
+    };
+}
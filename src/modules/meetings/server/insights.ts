@@ -0,0 +1,128 @@
+import { db } from "@/db";
+import { meetingSentiment, meetingSummaries, participantExpertise, roleSuggestions } from "@/db/schema";
+import { and, asc, desc, eq, isNotNull, isNull } from "drizzle-orm";
+import type { Insights } from "./post-processing";
+
+const clamp01 = (value: unknown) => Math.min(1, Math.max(0, Number(value) || 0));
+
+export async function saveMeetingSummary(meetingId: string, summaryText: string) {
+    await db
+        .insert(meetingSummaries)
+        .values({ meetingId, summaryText })
+        .onConflictDoUpdate({
+            target: meetingSummaries.meetingId,
+            set: { summaryText, updatedAt: new Date() },
+        });
+}
+
+// Replaces the meeting's insight rows with the analyzer output in a single batch
+export async function saveMeetingInsights(meetingId: string, insights: Insights) {
+    const sentiment = insights.sentiment_analysis;
+    const participantSentiment = Object.entries(sentiment?.participants ?? {})
+        .filter(([, value]) => typeof value?.avg_sentiment === "number")
+        .map(([participantName, value]) => ({
+            meetingId,
+            participantName,
+            score: clamp01(value.avg_sentiment),
+            confidence: typeof value.confidence_level === "number" ? clamp01(value.confidence_level) : null,
+        }));
+    const expertise = Object.entries(insights.expertise_detection ?? {}).flatMap(([participantName, skills]) =>
+        Object.entries(skills ?? {}).map(([skill, confidence]) => ({
+            meetingId,
+            participantName,
+            skill,
+            confidence: clamp01(confidence),
+        })),
+    );
+    const roles = (insights.role_suggestions ?? [])
+        .filter((suggestion) => suggestion?.user && suggestion?.role)
+        .map((suggestion) => ({
+            meetingId,
+            participantName: suggestion.user,
+            role: suggestion.role,
+            confidence: clamp01(suggestion.confidence),
+            reasoning: suggestion.reasoning ?? null,
+        }));
+
+    await db.batch([
+        db.delete(meetingSentiment).where(eq(meetingSentiment.meetingId, meetingId)),
+        db.delete(participantExpertise).where(eq(participantExpertise.meetingId, meetingId)),
+        db.delete(roleSuggestions).where(eq(roleSuggestions.meetingId, meetingId)),
+        db.insert(meetingSentiment).values([
+            {
+                meetingId,
+                participantName: null,
+                score: clamp01(sentiment?.overall_score ?? 0.5),
+                trend: sentiment?.trend ?? null,
+                notes: sentiment?.notes ?? [],
+                source: insights.source ?? null,
+            },
+            ...participantSentiment,
+        ]),
+        ...(expertise.length > 0
+            ? [db.insert(participantExpertise).values(expertise).onConflictDoNothing()]
+            : []),
+        ...(roles.length > 0 ? [db.insert(roleSuggestions).values(roles)] : []),
+    ]);
+}
+
+export async function getMeetingSummary(meetingId: string) {
+    const [summary] = await db
+        .select()
+        .from(meetingSummaries)
+        .where(eq(meetingSummaries.meetingId, meetingId));
+    return summary ?? null;
+}
+
+export async function getMeetingInsights(meetingId: string) {
+    const [overall] = await db
+        .select()
+        .from(meetingSentiment)
+        .where(and(eq(meetingSentiment.meetingId, meetingId), isNull(meetingSentiment.participantName)));
+
+    // The meeting-wide sentiment row is always written, so its absence means no insights yet
+    if (!overall) return null;
+
+    const [participants, expertise, roles] = await Promise.all([
+        db
+            .select()
+            .from(meetingSentiment)
+            .where(and(eq(meetingSentiment.meetingId, meetingId), isNotNull(meetingSentiment.participantName)))
+            .orderBy(asc(meetingSentiment.participantName)),
+        db
+            .select()
+            .from(participantExpertise)
+            .where(eq(participantExpertise.meetingId, meetingId))
+            .orderBy(asc(participantExpertise.participantName), desc(participantExpertise.confidence)),
+        db
+            .select()
+            .from(roleSuggestions)
+            .where(eq(roleSuggestions.meetingId, meetingId))
+            .orderBy(desc(roleSuggestions.confidence)),
+    ]);
+
+    return {
+        source: overall.source,
+        sentiment: {
+            overallScore: overall.score,
+            trend: overall.trend ?? [],
+            notes: overall.notes,
+            participants: participants.map((row) => ({
+                participantName: row.participantName!,
+                score: row.score,
+                confidence: row.confidence,
+            })),
+        },
+        expertise: expertise.map((row) => ({
+            participantName: row.participantName,
+            skill: row.skill,
+            confidence: row.confidence,
+        })),
+        roleSuggestions: roles.map((row) => ({
+            participantName: row.participantName,
+            role: row.role,
+            confidence: row.confidence,
+            reasoning: row.reasoning,
+        })),
+    };
+}
@@ -0,0 +1,74 @@
+import { db } from "@/db";
+import { meetingInvitations, meetings } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { sendEmail } from "@/lib/email";
+import { addMeetingParticipant, getMeetingParticipant } from "./participants";
+import { ParticipantStatus } from "../types";
+
+type Invitation = typeof meetingInvitations.$inferSelect;
+
+export function getInvitationUrl(token: string) {
+    return `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/invitations/accept?token=${token}`;
+}
+
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+export async function sendInvitationEmail(invitation: Invitation, meetingName: string, inviterName: string) {
+    const url = getInvitationUrl(invitation.token);
+    return sendEmail({
+        to: invitation.email,
+        subject: `${inviterName} invited you to "${meetingName}"`,
+        text: `${inviterName} invited you to join the meeting "${meetingName}".\n\nAccept the invitation: ${url}`,
+        html: `<p>${escapeHtml(inviterName)} invited you to join the meeting <strong>${escapeHtml(meetingName)}</strong>.</p><p><a href="${url}">Accept the invitation</a></p>`,
+    });
+}
+
+export type AcceptInvitationResult =
+    | { ok: true; meetingId: string }
+    | { ok: false; reason: "not_found" | "revoked" | "already_used" };
+
+/**
+ * Accepts a pending invitation on behalf of the signed-in user and registers them
+ * as a meeting participant. Re-opening the link as the same user is a no-op.
+ */
+export async function acceptInvitation(token: string, userId: string): Promise<AcceptInvitationResult> {
+    const [invitation] = await db
+        .select()
+        .from(meetingInvitations)
+        .innerJoin(meetings, eq(meetingInvitations.meetingId, meetings.id))
+        .where(eq(meetingInvitations.token, token));
+
+    if (!invitation) return { ok: false, reason: "not_found" };
+
+    const { meeting_invitations: existing } = invitation;
+    if (existing.status === "revoked") return { ok: false, reason: "revoked" };
+    if (existing.status === "accepted") {
+        return existing.acceptedById === userId
+            ? { ok: true, meetingId: existing.meetingId }
+            : { ok: false, reason: "already_used" };
+    }
+
+    // Guard on status so two concurrent accepts cannot both claim the invitation
+    const [accepted] = await db
+        .update(meetingInvitations)
+        .set({ status: "accepted", acceptedById: userId, acceptedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(meetingInvitations.id, existing.id), eq(meetingInvitations.status, "pending")))
+        .returning();
+
+    if (!accepted) return { ok: false, reason: "already_used" };
+
+    // Invitees get access to the meeting; the waiting room still decides on entering the call
+    if (!(await getMeetingParticipant(existing.meetingId, userId))) {
+        await addMeetingParticipant(existing.meetingId, userId, {
+            role: "attendee",
+            status: ParticipantStatus.Invited,
+        });
+    }
+    return { ok: true, meetingId: existing.meetingId };
+}
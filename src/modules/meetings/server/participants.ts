@@ -0,0 +1,89 @@
+import { db } from "@/db";
+import { meetingParticipants, meetings } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { MeetingStatus, ParticipantStatus } from "../types";
+
+type Meeting = typeof meetings.$inferSelect;
+type AccessCheckedMeeting = Pick<Meeting, "id" | "userId" | "status" | "isPublic">;
+
+export async function getMeetingParticipant(meetingId: string, userId: string) {
+    const [participant] = await db
+        .select()
+        .from(meetingParticipants)
+        .where(and(eq(meetingParticipants.meetingId, meetingId), eq(meetingParticipants.userId, userId)));
+    return participant ?? null;
+}
+
+/**
+ * Owners and registered participants (e.g. accepted invitees) always have access;
+ * anyone else only while a public meeting is still open. People the host turned
+ * away in the waiting room lose access.
+ */
+export async function canAccessMeeting(meeting: AccessCheckedMeeting, userId: string) {
+    if (meeting.userId === userId) return true;
+
+    const participant = await getMeetingParticipant(meeting.id, userId);
+    if (participant) return participant.status !== ParticipantStatus.Rejected;
+
+    const isOpen = meeting.status === MeetingStatus.Active || meeting.status === MeetingStatus.Upcoming;
+    return meeting.isPublic && isOpen;
+}
+
+// Only the host and admitted participants may get into the Stream call itself
+export async function isAdmittedToMeeting(meeting: Pick<Meeting, "id" | "userId">, userId: string) {
+    if (meeting.userId === userId) return true;
+    const participant = await getMeetingParticipant(meeting.id, userId);
+    return participant?.status === ParticipantStatus.Admitted;
+}
+
+// Registers (or re-activates) a user as participant of a meeting
+export async function addMeetingParticipant(
+    meetingId: string,
+    userId: string,
+    options: { role?: string | null; status?: ParticipantStatus } = {},
+) {
+    const existing = await getMeetingParticipant(meetingId, userId);
+
+    if (existing) {
+        // Update timestamps/role if needed
+        const [updated] = await db
+            .update(meetingParticipants)
+            .set({
+                updatedAt: new Date(),
+                leftAt: null,
+                role: options.role ?? existing.role,
+                status: options.status ?? existing.status,
+            })
+            .where(eq(meetingParticipants.id, existing.id))
+            .returning();
+        return updated;
+    }
+
+    const [created] = await db
+        .insert(meetingParticipants)
+        .values({
+            meetingId,
+            userId,
+            role: options.role ?? "attendee",
+            status: options.status ?? ParticipantStatus.Admitted,
+        })
+        .returning();
+    return created;
+}
+
+/**
+ * Entry point for joining the call. With the waiting room enabled everyone but the
+ * host is queued until admitted; once admitted, reconnects go straight in.
+ */
+export async function requestToJoinMeeting(meeting: Meeting, userId: string, role?: string | null) {
+    if (!meeting.waitingRoomEnabled || meeting.userId === userId) {
+        return addMeetingParticipant(meeting.id, userId, { role, status: ParticipantStatus.Admitted });
+    }
+
+    const existing = await getMeetingParticipant(meeting.id, userId);
+    const status = existing?.status === ParticipantStatus.Admitted
+        ? ParticipantStatus.Admitted
+        : ParticipantStatus.Waiting;
+
+    return addMeetingParticipant(meeting.id, userId, { role, status });
+}
@@ -1,32 +1,75 @@
 import { createTRPCRouter, protectedProcedure } from "@/trpc/init";
 import {db} from "@/db";
-import {agents, meetings, meetingParticipants } from "@/db/schema";
+import {agents, calendarFeeds, jobs, meetingInvitations, meetings, meetingParticipants, user } from "@/db/schema";
 import { TRPCError } from "@trpc/server";
 import z from "zod";
-import { and, count, desc, eq, getTableColumns, ilike, or, sql } from "drizzle-orm";
+import { and, count, desc, eq, getTableColumns, ilike, inArray, isNull, or, sql } from "drizzle-orm";
 import { DEFAULT_PAGE, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MIN_PAGE_SIZE } from "@/constants";
-import { meetingsInsertSchema, meetingsUpdateSchema } from "../schemas";
-import { MeetingStatus } from "../types";
+import { meetingInviteSchema, meetingsInsertSchema, meetingsUpdateSchema } from "../schemas";
+import { MeetingStatus, ParticipantStatus } from "../types";
 import { streamVideo } from "@/lib/stream-video";
 import { generatedAvatarUri } from "@/lib/avatar";
+import { createMeetingCall, upsertAgentStreamUser } from "./stream-call";
+import { addSeriesException } from "@/modules/series/server/spawner";
+import { nanoid } from "nanoid";
+import { canAccessMeeting, getMeetingParticipant, isAdmittedToMeeting, requestToJoinMeeting } from "./participants";
+import { getInvitationUrl, sendInvitationEmail } from "./invitations";
+import { getTranscriptChunks } from "./transcript";
+import { translateChunks } from "./translation";
+import { isSameLanguage, MEETING_LANGUAGE_CODES } from "../languages";
+import { enqueueMeetingProcessing } from "./post-processing";
+import { getMeetingInsights, getMeetingSummary } from "./insights";
+
+// Meetings scheduled in the future wait as `upcoming` until the scheduler activates them
+function getInitialStatus(scheduledAt?: Date | null) {
+    return scheduledAt && scheduledAt.getTime() > Date.now()
+        ? MeetingStatus.Upcoming
+        : MeetingStatus.Active;
+}
 
 export const meetingsRouter=createTRPCRouter({
-    generateToken: protectedProcedure.mutation(async({ctx})=> {
-        await streamVideo.upsertUsers([
-            {
-                id:ctx.auth.user.id,
-                name:ctx.auth.user.name,
-                role:"admin",
-                image:
-                   ctx.auth.user.image ??
-                   generatedAvatarUri({seed:ctx.auth.user.id,variant:"initials"}),
-            },
-        ]);
-        const expirationTime=Math.floor(Date.now()/1000)+3600;
-        const issuedAt=Math.floor(Date.now()/1000)-60;
-        const token=streamVideo.generateUserToken({user_id:ctx.auth.user.id,exp:expirationTime,validity_in_seconds:issuedAt});
-        return token;
-    }),
+    // Scoped to the meeting's call and only issued once the user is let in, so the waiting room can't be bypassed
+    generateToken: protectedProcedure
+        .input(z.object({ meetingId: z.string() }))
+        .mutation(async({ctx, input})=> {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.meetingId));
+
+            if (!existingMeeting || !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+            if (!(await isAdmittedToMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"FORBIDDEN",
+                    message:"Waiting for the host to admit you",
+                });
+            }
+
+            await streamVideo.upsertUsers([
+                {
+                    id:ctx.auth.user.id,
+                    name:ctx.auth.user.name,
+                    role:"admin",
+                    image:
+                       ctx.auth.user.image ??
+                       generatedAvatarUri({seed:ctx.auth.user.id,variant:"initials"}),
+                },
+            ]);
+            const expirationTime=Math.floor(Date.now()/1000)+3600;
+            const issuedAt=Math.floor(Date.now()/1000)-60;
+            const token=streamVideo.generateCallToken({
+                user_id:ctx.auth.user.id,
+                call_cids:[`default:${existingMeeting.id}`],
+                exp:expirationTime,
+                validity_in_seconds:issuedAt,
+            });
+            return token;
+        }),
     remove: protectedProcedure
         .input(z.object({id:z.string()}))
         .mutation(async({input,ctx})=>{
@@ -45,14 +88,43 @@ export const meetingsRouter=createTRPCRouter({
                     message:"Agent not found",
                 });
             }
+            if (removedMeeting.seriesId && removedMeeting.scheduledAt) {
+                await addSeriesException(removedMeeting.seriesId, removedMeeting.scheduledAt);
+            }
             return removedMeeting;
         }),
     update: protectedProcedure
         .input(meetingsUpdateSchema.extend({ id: z.string() }))
         .mutation(async({input,ctx})=>{
+            const [existingMeeting]=await db
+            .select()
+            .from(meetings)
+            .where(
+                and(
+                    eq(meetings.id,input.id),
+                    eq(meetings.userId, ctx.auth.user.id),
+                ),
+            );
+            if(!existingMeeting){
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            // Rescheduling a meeting that nobody has started yet re-derives its status
+            const isNotStarted = !existingMeeting.startedAt &&
+                (existingMeeting.status === MeetingStatus.Upcoming || existingMeeting.status === MeetingStatus.Active);
+            const status = isNotStarted ? getInitialStatus(input.scheduledAt) : existingMeeting.status;
+
             const [updatedMeeting]=await db
             .update(meetings)
-            .set(input)
+            .set({
+                ...input,
+                status,
+                sequence: sql`${meetings.sequence} + 1`,
+                updatedAt: new Date(),
+            })
             .where(
                 and(
                     eq(meetings.id,input.id),
@@ -66,8 +138,58 @@ export const meetingsRouter=createTRPCRouter({
                     message:"Agent not found",
                 });
             }
+            const originalSlot = existingMeeting.scheduledAt;
+            if (existingMeeting.seriesId && originalSlot && updatedMeeting.scheduledAt?.getTime() !== originalSlot.getTime()) {
+                await addSeriesException(existingMeeting.seriesId, originalSlot);
+            }
             return updatedMeeting;
         }),
+    cancel: protectedProcedure
+        .input(z.object({id:z.string()}))
+        .mutation(async({input,ctx})=>{
+            const [cancelledMeeting]=await db
+            .update(meetings)
+            .set({ status: MeetingStatus.Cancelled, sequence: sql`${meetings.sequence} + 1`, updatedAt: new Date() })
+            .where(
+                and(
+                    eq(meetings.id,input.id),
+                    eq(meetings.userId, ctx.auth.user.id),
+                    inArray(meetings.status,[MeetingStatus.Upcoming, MeetingStatus.Active]),
+                    isNull(meetings.startedAt),
+                ),
+            )
+            .returning();
+            if(!cancelledMeeting){
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found or already started",
+                });
+            }
+            return cancelledMeeting;
+        }),
+    reprocess: protectedProcedure
+        .input(z.object({id:z.string()}))
+        .mutation(async({input,ctx})=>{
+            const [reprocessedMeeting]=await db
+            .update(meetings)
+            .set({ status: MeetingStatus.Processing, updatedAt: new Date() })
+            .where(
+                and(
+                    eq(meetings.id,input.id),
+                    eq(meetings.userId, ctx.auth.user.id),
+                    eq(meetings.status, MeetingStatus.Completed),
+                ),
+            )
+            .returning();
+            if(!reprocessedMeeting){
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found or not completed",
+                });
+            }
+            await enqueueMeetingProcessing(reprocessedMeeting.id);
+            return reprocessedMeeting;
+        }),
     create: protectedProcedure.input(meetingsInsertSchema).mutation(async({input,ctx})=>{
             console.log('[Meeting Creation] Starting creation with input:', input);
             console.log('[Meeting Creation] User ID:', ctx.auth.user.id);
@@ -77,47 +199,14 @@ export const meetingsRouter=createTRPCRouter({
             .values({
                 ...input,
                 userId:ctx.auth.user.id,
-                status: "active", // Set to active so it appears on home page immediately
+                // Unscheduled meetings are active right away so they appear on home page immediately
+                status: getInitialStatus(input.scheduledAt),
             })
             .returning();
 
             console.log('[Meeting Creation] Created meeting:', createdMeeting);
 
-            const call = streamVideo.video.call("default",createdMeeting.id);
-            await call.create({
-                data:{
-                    created_by_id:ctx.auth.user.id,
-                    custom:{
-                        meetingId: createdMeeting.id,
-                        meetingName:createdMeeting.name
-                    },
-                    settings_override:{
-                        transcription: {
-                            language:"en",
-                            mode:"auto-on",
-                            closed_caption_mode:"auto-on",
-                        },
-                        recording:{
-                            mode:"auto-on",
-                            quality:"1080p",
-                        },
-                        // Multi-participant settings
-                        audio: {
-                            mic_default_on: false, // Mics off by default for new participants
-                            speaker_default_on: true,
-                            default_device: "speaker", // Default audio output device
-                        },
-                        video: {
-                            camera_default_on: false, // Cameras off by default
-                            target_resolution: {
-                                width: 640,  // Minimum 240, using 640 for better quality
-                                height: 480, // Minimum 240, using 480 for better quality
-                                bitrate: 500000, // 500 kbps bitrate
-                            },
-                        },
-                    }
-                },
-            })
+            await createMeetingCall(createdMeeting, ctx.auth.user.id);
 
             console.log('[Meeting Creation] Stream call created successfully');
 
@@ -137,17 +226,7 @@ export const meetingsRouter=createTRPCRouter({
                 });
             }
 
-            await streamVideo.upsertUsers([
-                {
-                    id: existingAgent.id,
-                    name:existingAgent.name,
-                    role:"user",
-                    image: generatedAvatarUri({
-                        seed:existingAgent.name,
-                        variant:"botttsNeutral",
-                    }),
-                }
-            ]);
+            await upsertAgentStreamUser(existingAgent);
 
             console.log('[Meeting Creation] Meeting creation completed successfully');
             return createdMeeting;
@@ -195,39 +274,13 @@ export const meetingsRouter=createTRPCRouter({
 
             console.log('[Meeting GetOne] Query result:', existingMeeting);
 
-            // Now check access control (owner, active/upcoming, or participant)
-            if (existingMeeting) {
-                // Check if current user is a participant of this meeting
-                const [participant] = await db
-                  .select()
-                  .from(meetingParticipants)
-                  .where(
-                    and(
-                      eq(meetingParticipants.meetingId, existingMeeting.id),
-                      eq(meetingParticipants.userId, ctx.auth.user.id),
-                    ),
-                  );
-
-                const isOwner = existingMeeting.userId === ctx.auth.user.id;
-                const isOpen = existingMeeting.status === MeetingStatus.Active || existingMeeting.status === MeetingStatus.Upcoming;
-                const isParticipant = Boolean(participant);
-                const canAccess = isOwner || isOpen || isParticipant;
-
-                console.log('[Meeting GetOne] Access check:', {
-                    isOwner,
-                    isActive: existingMeeting.status === MeetingStatus.Active,
-                    isUpcoming: existingMeeting.status === MeetingStatus.Upcoming,
-                    isParticipant,
-                    canAccess,
+            // Owner, participant (e.g. accepted invitee), or anyone while a public meeting is open
+            if (existingMeeting && !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                console.log('[Meeting GetOne] Access denied');
+                throw new TRPCError({
+                    code:"FORBIDDEN",
+                    message:"Access denied to this meeting",
                 });
-
-                if (!canAccess) {
-                    console.log('[Meeting GetOne] Access denied');
-                    throw new TRPCError({
-                        code:"FORBIDDEN",
-                        message:"Access denied to this meeting",
-                    });
-                }
             }
 
         if(!existingMeeting){
@@ -282,7 +335,7 @@ export const meetingsRouter=createTRPCRouter({
                 or(
                     eq(meetings.userId, ctx.auth.user.id),
                     // EXISTS subquery to check participation
-                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id})`,
+                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id} AND mp.status <> 'rejected')`,
                 ),
                 search ? ilike(meetings.name, `%${search}%`) : undefined, 
                 status ? eq(meetings.status, status) : undefined,
@@ -300,7 +353,7 @@ export const meetingsRouter=createTRPCRouter({
             and(
                 or(
                     eq(meetings.userId, ctx.auth.user.id),
-                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id})`,
+                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id} AND mp.status <> 'rejected')`,
                 ),
                 search ? ilike(meetings.name, `%${search}%`) : undefined,
                 status ? eq(meetings.status, status) : undefined,
@@ -337,9 +390,14 @@ export const meetingsRouter=createTRPCRouter({
            .innerJoin(agents, eq(meetings.agentId, agents.id))
            .where(
             and(
-                // Show active and upcoming meetings that anyone can join
-                (eq(meetings.status, MeetingStatus.Active) || eq(meetings.status, MeetingStatus.Upcoming)),
-                search ? ilike(meetings.name, `%${search}%`) : undefined, 
+                // Show active and upcoming meetings the user may join
+                inArray(meetings.status, [MeetingStatus.Active, MeetingStatus.Upcoming]),
+                or(
+                    eq(meetings.isPublic, true),
+                    eq(meetings.userId, ctx.auth.user.id),
+                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id} AND mp.status <> 'rejected')`,
+                ),
+                search ? ilike(meetings.name, `%${search}%`) : undefined,
             )
            )
            .orderBy(desc(meetings.createdAt),desc(meetings.id))
@@ -351,7 +409,12 @@ export const meetingsRouter=createTRPCRouter({
            .from(meetings)
            .where(
             and(
-                (eq(meetings.status, MeetingStatus.Active) || eq(meetings.status, MeetingStatus.Upcoming)),
+                inArray(meetings.status, [MeetingStatus.Active, MeetingStatus.Upcoming]),
+                or(
+                    eq(meetings.isPublic, true),
+                    eq(meetings.userId, ctx.auth.user.id),
+                    sql`EXISTS (SELECT 1 FROM meeting_participants mp WHERE mp.meeting_id = ${meetings.id} AND mp.user_id = ${ctx.auth.user.id} AND mp.status <> 'rejected')`,
+                ),
                 search ? ilike(meetings.name, `%${search}%`) : undefined,
             )
            );
@@ -367,28 +430,197 @@ export const meetingsRouter=createTRPCRouter({
     join: protectedProcedure
         .input(z.object({ meetingId: z.string(), role: z.string().nullish() }))
         .mutation(async ({ ctx, input }) => {
-            const userId = ctx.auth.user.id;
-            // Check if record exists
-            const [existing] = await db
+            const [existingMeeting] = await db
               .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.meetingId));
+
+            if (!existingMeeting) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+            // Private meetings are joined by accepting an invitation
+            if (!(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"FORBIDDEN",
+                    message:"Access denied to this meeting",
+                });
+            }
+
+            return requestToJoinMeeting(existingMeeting, ctx.auth.user.id, input.role);
+        }),
+    // `language` adds a cached LLM translation of each line (null when it could not be translated yet);
+    // long transcripts are translated over several requests, newest lines first
+    getTranscript: protectedProcedure
+        .input(z.object({ id: z.string(), language: z.enum(MEETING_LANGUAGE_CODES).nullish() }))
+        .query(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.id));
+
+            if (!existingMeeting || !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            const chunks = await getTranscriptChunks(existingMeeting.id);
+            const { translations, pending } = input.language && !isSameLanguage(input.language, existingMeeting.language)
+                ? await translateChunks(chunks, input.language)
+                : { translations: null, pending: null };
+            return chunks.map((chunk) => ({
+                id: chunk.id,
+                speaker: chunk.speaker,
+                userId: chunk.userId,
+                userName: chunk.userName,
+                text: chunk.text,
+                source: chunk.source,
+                ts: chunk.ts,
+                translation: translations?.get(chunk.id) ?? null,
+                // Still to be translated by a later request
+                translationPending: pending?.has(chunk.id) ?? false,
+            }));
+        }),
+    getSummary: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.id));
+
+            if (!existingMeeting || !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            return getMeetingSummary(existingMeeting.id);
+        }),
+    getInsights: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.id));
+
+            if (!existingMeeting || !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            return getMeetingInsights(existingMeeting.id);
+        }),
+    getProcessingJobs: protectedProcedure
+        .input(z.object({ meetingId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(eq(meetings.id, input.meetingId));
+
+            if (!existingMeeting || !(await canAccessMeeting(existingMeeting, ctx.auth.user.id))) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            return db
+              .select({
+                id: jobs.id,
+                type: jobs.type,
+                status: jobs.status,
+                attempts: jobs.attempts,
+                maxAttempts: jobs.maxAttempts,
+                runAt: jobs.runAt,
+                lastError: jobs.lastError,
+                createdAt: jobs.createdAt,
+              })
+              .from(jobs)
+              .where(eq(jobs.meetingId, input.meetingId))
+              .orderBy(desc(jobs.createdAt));
+        }),
+    // Current user's participant row, polled from the lobby while waiting to be admitted
+    getParticipation: protectedProcedure
+        .input(z.object({ meetingId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            return getMeetingParticipant(input.meetingId, ctx.auth.user.id);
+        }),
+    // Waiting-room queue, visible to the host only
+    getWaitingParticipants: protectedProcedure
+        .input(z.object({ meetingId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            return db
+              .select({
+                ...getTableColumns(meetingParticipants),
+                user: {
+                    id: user.id,
+                    name: user.name,
+                    image: user.image,
+                },
+              })
               .from(meetingParticipants)
-              .where(and(eq(meetingParticipants.meetingId, input.meetingId), eq(meetingParticipants.userId, userId)));
-
-            if (existing) {
-                // Update timestamps/role if needed
-                const [updated] = await db
-                  .update(meetingParticipants)
-                  .set({ updatedAt: new Date(), leftAt: null, role: input.role ?? existing.role })
-                  .where(and(eq(meetingParticipants.meetingId, input.meetingId), eq(meetingParticipants.userId, userId)))
-                  .returning();
-                return updated;
+              .innerJoin(meetings, eq(meetingParticipants.meetingId, meetings.id))
+              .innerJoin(user, eq(meetingParticipants.userId, user.id))
+              .where(
+                and(
+                    eq(meetingParticipants.meetingId, input.meetingId),
+                    eq(meetings.userId, ctx.auth.user.id),
+                    eq(meetingParticipants.status, ParticipantStatus.Waiting),
+                ),
+              )
+              .orderBy(meetingParticipants.updatedAt);
+        }),
+    admitParticipant: protectedProcedure
+        .input(z.object({
+            meetingId: z.string(),
+            userId: z.string(),
+            admit: z.boolean(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+              .select()
+              .from(meetings)
+              .where(and(eq(meetings.id, input.meetingId), eq(meetings.userId, ctx.auth.user.id)));
+
+            if (!existingMeeting) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
             }
 
-            const [created] = await db
-              .insert(meetingParticipants)
-              .values({ meetingId: input.meetingId, userId, role: input.role ?? "attendee" })
+            const [decided] = await db
+              .update(meetingParticipants)
+              .set({
+                status: input.admit ? ParticipantStatus.Admitted : ParticipantStatus.Rejected,
+                updatedAt: new Date(),
+              })
+              .where(
+                and(
+                    eq(meetingParticipants.meetingId, input.meetingId),
+                    eq(meetingParticipants.userId, input.userId),
+                    eq(meetingParticipants.status, ParticipantStatus.Waiting),
+                ),
+              )
               .returning();
-            return created;
+
+            if (!decided) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Participant is no longer waiting",
+                });
+            }
+            return decided;
         }),
 
     // Mark current user as left from a meeting
@@ -403,4 +635,122 @@ export const meetingsRouter=createTRPCRouter({
               .returning();
             return updated ?? null;
         }),
-});
\ No newline at end of file
+    // Token for the subscribable iCalendar feed, null until the user enables it
+    getCalendarFeed: protectedProcedure.query(async ({ ctx }) => {
+        const [feed] = await db
+            .select()
+            .from(calendarFeeds)
+            .where(eq(calendarFeeds.userId, ctx.auth.user.id));
+        return feed ?? null;
+    }),
+    // Creates the feed token, or replaces it so previously shared URLs stop working
+    rotateCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+        const token = nanoid(32);
+        const [feed] = await db
+            .insert(calendarFeeds)
+            .values({ userId: ctx.auth.user.id, token })
+            .onConflictDoUpdate({
+                target: calendarFeeds.userId,
+                set: { token, updatedAt: new Date() },
+            })
+            .returning();
+        return feed;
+    }),
+    // Invite someone by email; the invitation link can also be shared directly
+    invite: protectedProcedure
+        .input(meetingInviteSchema)
+        .mutation(async ({ ctx, input }) => {
+            const [existingMeeting] = await db
+                .select()
+                .from(meetings)
+                .where(and(eq(meetings.id, input.meetingId), eq(meetings.userId, ctx.auth.user.id)));
+
+            if (!existingMeeting) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Meeting not found",
+                });
+            }
+
+            const email = input.email.trim().toLowerCase();
+            // Re-inviting the same address issues a fresh token and revives revoked invitations
+            const [invitation] = await db
+                .insert(meetingInvitations)
+                .values({
+                    meetingId: existingMeeting.id,
+                    email,
+                    token: nanoid(32),
+                    invitedById: ctx.auth.user.id,
+                })
+                .onConflictDoUpdate({
+                    target: [meetingInvitations.meetingId, meetingInvitations.email],
+                    set: {
+                        token: nanoid(32),
+                        status: "pending",
+                        acceptedById: null,
+                        acceptedAt: null,
+                        invitedById: ctx.auth.user.id,
+                        updatedAt: new Date(),
+                    },
+                })
+                .returning();
+
+            const emailSent = await sendInvitationEmail(invitation, existingMeeting.name, ctx.auth.user.name);
+
+            return {
+                ...invitation,
+                url: getInvitationUrl(invitation.token),
+                emailSent,
+            };
+        }),
+    getInvitations: protectedProcedure
+        .input(z.object({ meetingId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            const data = await db
+                .select(getTableColumns(meetingInvitations))
+                .from(meetingInvitations)
+                .innerJoin(meetings, eq(meetingInvitations.meetingId, meetings.id))
+                .where(
+                    and(
+                        eq(meetingInvitations.meetingId, input.meetingId),
+                        eq(meetings.userId, ctx.auth.user.id),
+                    ),
+                )
+                .orderBy(desc(meetingInvitations.createdAt));
+
+            return data.map((invitation) => ({
+                ...invitation,
+                url: getInvitationUrl(invitation.token),
+            }));
+        }),
+    revokeInvitation: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const [invitation] = await db
+                .select(getTableColumns(meetingInvitations))
+                .from(meetingInvitations)
+                .innerJoin(meetings, eq(meetingInvitations.meetingId, meetings.id))
+                .where(
+                    and(
+                        eq(meetingInvitations.id, input.id),
+                        eq(meetings.userId, ctx.auth.user.id),
+                    ),
+                );
+
+            if (!invitation) {
+                throw new TRPCError({
+                    code:"NOT_FOUND",
+                    message:"Invitation not found",
+                });
+            }
+
+            // Already accepted invitees stay participants; revoking only kills the link
+            const [revokedInvitation] = await db
+                .update(meetingInvitations)
+                .set({ status: "revoked", updatedAt: new Date() })
+                .where(eq(meetingInvitations.id, invitation.id))
+                .returning();
+
+            return revokedInvitation;
+        }),
+});
@@ -0,0 +1,66 @@
+import { db } from "@/db";
+import { meetings } from "@/db/schema";
+import { and, eq, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import { MeetingStatus } from "../types";
+import { spawnAllSeriesOccurrences } from "@/modules/series/server/spawner";
+
+// How long an activated meeting may sit without anyone joining before it is treated as a no-show
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+export type MeetingSchedulerResult = {
+    spawned: string[];
+    activated: string[];
+    cancelled: string[];
+};
+
+/**
+ * Moves scheduled meetings through their lifecycle:
+ * - recurring series spawn their next occurrences as `upcoming` meetings
+ * - `upcoming` meetings whose start time has passed become `active`
+ * - `active` meetings nobody joined within the grace period (or before the
+ *   scheduled end) are cancelled as no-shows
+ *
+ * Safe to call repeatedly; every transition is guarded by the current status.
+ */
+export async function runMeetingScheduler(now: Date = new Date()): Promise<MeetingSchedulerResult> {
+    const spawned = await spawnAllSeriesOccurrences(now);
+
+    const activated = await db
+        .update(meetings)
+        .set({ status: MeetingStatus.Active, updatedAt: now })
+        .where(
+            and(
+                eq(meetings.status, MeetingStatus.Upcoming),
+                isNotNull(meetings.scheduledAt),
+                lte(meetings.scheduledAt, now),
+            ),
+        )
+        .returning({ id: meetings.id });
+
+    // A session start (webhook) sets startedAt, so a null startedAt means nobody showed up
+    const cancelled = await db
+        .update(meetings)
+        .set({ status: MeetingStatus.Cancelled, sequence: sql`${meetings.sequence} + 1`, updatedAt: now })
+        .where(
+            and(
+                eq(meetings.status, MeetingStatus.Active),
+                isNotNull(meetings.scheduledAt),
+                isNull(meetings.startedAt),
+                lte(
+                    meetings.scheduledAt,
+                    sql`${now.toISOString()}::timestamp - make_interval(mins => LEAST(${meetings.durationMinutes}, ${NO_SHOW_GRACE_MINUTES}))`,
+                ),
+            ),
+        )
+        .returning({ id: meetings.id });
+
+    if (activated.length > 0 || cancelled.length > 0) {
+        console.log('[Meeting Scheduler] Activated:', activated.map((m) => m.id), 'Cancelled (no-show):', cancelled.map((m) => m.id));
+    }
+
+    return {
+        spawned,
+        activated: activated.map((m) => m.id),
+        cancelled: cancelled.map((m) => m.id),
+    };
+}
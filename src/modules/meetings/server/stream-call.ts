@@ -0,0 +1,60 @@
+import { streamVideo } from "@/lib/stream-video";
+import { generatedAvatarUri } from "@/lib/avatar";
+
+// Creates the Stream call backing a meeting, with the app-wide call settings
+export async function createMeetingCall(
+    meeting: { id: string; name: string },
+    createdById: string,
+) {
+    const call = streamVideo.video.call("default",meeting.id);
+    await call.create({
+        data:{
+            created_by_id:createdById,
+            custom:{
+                meetingId: meeting.id,
+                meetingName:meeting.name
+            },
+            settings_override:{
+                transcription: {
+                    language:"en",
+                    mode:"auto-on",
+                    closed_caption_mode:"auto-on",
+                },
+                recording:{
+                    mode:"auto-on",
+                    quality:"1080p",
+                },
+                // Multi-participant settings
+                audio: {
+                    mic_default_on: false, // Mics off by default for new participants
+                    speaker_default_on: true,
+                    default_device: "speaker", // Default audio output device
+                },
+                video: {
+                    camera_default_on: false, // Cameras off by default
+                    target_resolution: {
+                        width: 640,  // Minimum 240, using 640 for better quality
+                        height: 480, // Minimum 240, using 480 for better quality
+                        bitrate: 500000, // 500 kbps bitrate
+                    },
+                },
+            }
+        },
+    });
+    return call;
+}
+
+// Registers the agent as a Stream user so it can be shown in the call
+export async function upsertAgentStreamUser(agent: { id: string; name: string }) {
+    await streamVideo.upsertUsers([
+        {
+            id: agent.id,
+            name:agent.name,
+            role:"user",
+            image: generatedAvatarUri({
+                seed:agent.name,
+                variant:"botttsNeutral",
+            }),
+        }
+    ]);
+}
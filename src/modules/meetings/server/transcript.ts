@@ -0,0 +1,95 @@
+import { db } from "@/db";
+import { agents, conversationChunks, user } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+
+// One line of Stream's JSONL transcript; timestamps are offsets (ms) from the start of the transcription
+type StreamTranscriptItem = {
+    type: string;
+    speaker_id: string;
+    text: string;
+    start_ts: number;
+    stop_ts: number;
+};
+
+export function parseStreamTranscript(jsonl: string): StreamTranscriptItem[] {
+    return jsonl
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .flatMap((line) => {
+            try {
+                return [JSON.parse(line) as StreamTranscriptItem];
+            } catch {
+                console.warn("[Transcript] Skipping malformed transcript line");
+                return [];
+            }
+        })
+        .filter((item) => item.type === "speech" && typeof item.text === "string" && item.text.trim());
+}
+
+/**
+ * Downloads a Stream transcript and stores it as speaker-attributed conversation chunks.
+ * Replaces previously ingested Stream chunks, so webhook retries are idempotent.
+ */
+export async function ingestStreamTranscript(
+    meeting: { id: string; agentId: string },
+    transcriptUrl: string,
+    startedAt: Date,
+) {
+    const response = await fetch(transcriptUrl);
+    if (!response.ok) {
+        throw new Error(`Failed to download transcript: ${response.status}`);
+    }
+    const items = parseStreamTranscript(await response.text());
+
+    const speakerIds = [...new Set(items.map((item) => item.speaker_id))];
+    const [speakers, speakerAgents] = speakerIds.length === 0
+        ? [[], []]
+        : await Promise.all([
+            db.select({ id: user.id, name: user.name }).from(user).where(inArray(user.id, speakerIds)),
+            db.select({ id: agents.id, name: agents.name }).from(agents).where(inArray(agents.id, speakerIds)),
+        ]);
+    const names = new Map([...speakers, ...speakerAgents].map((s) => [s.id, s.name]));
+
+    // Replace in one batch so a failed insert doesn't leave the meeting without its Stream transcript
+    await db.batch([
+        db.delete(conversationChunks)
+            .where(and(eq(conversationChunks.meetingId, meeting.id), eq(conversationChunks.source, "stream"))),
+        ...(items.length > 0
+            ? [db.insert(conversationChunks).values(
+                items.map((item) => {
+                    const isAgent = item.speaker_id === meeting.agentId;
+                    return {
+                        meetingId: meeting.id,
+                        speaker: isAgent ? "ai" : "user",
+                        userId: !isAgent && names.has(item.speaker_id) ? item.speaker_id : null,
+                        userName: names.get(item.speaker_id) ?? null,
+                        text: item.text.trim(),
+                        source: "stream",
+                        ts: new Date(startedAt.getTime() + item.start_ts),
+                    };
+                }),
+            )]
+            : []),
+    ]);
+    return items.length;
+}
+
+// Stream's transcript is preferred once ingested; until then the live browser capture is used
+export async function getTranscriptChunks(meetingId: string) {
+    const rows = await db
+        .select()
+        .from(conversationChunks)
+        .where(eq(conversationChunks.meetingId, meetingId))
+        .orderBy(conversationChunks.ts);
+
+    const streamRows = rows.filter((row) => row.source === "stream");
+    return streamRows.length > 0 ? streamRows : rows;
+}
+
+// "Speaker: text" lines, the format the summarizer and planners consume
+export function formatTranscript(rows: { speaker: string; userName: string | null; text: string }[]) {
+    return rows
+        .map((c) => `${c.speaker === "ai" ? "AI" : (c.userName || "User")}: ${c.text}`)
+        .join("\n");
+}
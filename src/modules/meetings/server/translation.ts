@@ -0,0 +1,122 @@
+import { db } from "@/db";
+import { conversationChunkTranslations } from "@/db/schema";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { getLLMProvider } from "@/lib/llm";
+import { languageName } from "../languages";
+
+// Lines per LLM call; small enough that the JSON answer fits comfortably in MAX_TOKENS
+const TRANSLATION_BATCH_SIZE = 20;
+const MAX_TOKENS = 2000;
+// Lines translated per request, newest first; captions poll, so the rest follow on later requests
+const MAX_LINES_PER_REQUEST = 40;
+// Lines the LLM could not translate are shown untranslated for this long before being tried again
+const FAILED_RETRY_MS = 10 * 60_000;
+
+type TranslatableChunk = { id: string; text: string };
+
+async function translateBatch(texts: string[], language: string): Promise<string[] | null> {
+    const llm = getLLMProvider();
+    if (!llm) return null;
+
+    const completion = await llm.complete([
+        {
+            role: "system",
+            content: [
+                `You translate meeting transcript lines into ${languageName(language)}.`,
+                "Return a JSON array of strings with exactly one translation per input line, in the same order.",
+                "Keep names, numbers and technical terms as they are. Lines already in the target language are returned unchanged.",
+                "Output JSON only.",
+            ].join("\n"),
+        },
+        { role: "user", content: JSON.stringify(texts) },
+    ], { tier: "fast", temperature: 0, maxTokens: MAX_TOKENS });
+
+    const raw = completion.text;
+    const start = raw.indexOf("[");
+    const end = raw.lastIndexOf("]");
+    try {
+        const parsed = JSON.parse(start >= 0 && end > start ? raw.slice(start, end + 1) : raw);
+        // A miscounted answer can't be matched to its lines
+        if (!Array.isArray(parsed) || parsed.length !== texts.length || parsed.some((line) => typeof line !== "string")) {
+            return null;
+        }
+        return parsed as string[];
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Translations of transcript chunks into `language`, keyed by chunk id.
+ * Each chunk is translated once per language and cached. At most
+ * MAX_LINES_PER_REQUEST new lines are translated per call, the newest first;
+ * the ids of lines left for a later call are returned as `pending`. Lines the
+ * LLM could not translate (or all of them, without a provider) are missing
+ * from both, so callers show the original text.
+ */
+export async function translateChunks(
+    chunks: TranslatableChunk[],
+    language: string,
+): Promise<{ translations: Map<string, string>; pending: Set<string> }> {
+    const translations = new Map<string, string>();
+    const pending = new Set<string>();
+    if (chunks.length === 0) return { translations, pending };
+
+    const cached = await db
+        .select({
+            chunkId: conversationChunkTranslations.chunkId,
+            text: conversationChunkTranslations.text,
+            failedAt: conversationChunkTranslations.failedAt,
+        })
+        .from(conversationChunkTranslations)
+        .where(and(
+            eq(conversationChunkTranslations.language, language),
+            inArray(conversationChunkTranslations.chunkId, chunks.map((chunk) => chunk.id)),
+        ));
+    const recentlyFailed = new Set<string>();
+    const retryFailedBefore = Date.now() - FAILED_RETRY_MS;
+    for (const row of cached) {
+        if (row.text !== null) translations.set(row.chunkId, row.text);
+        else if (row.failedAt && row.failedAt.getTime() > retryFailedBefore) recentlyFailed.add(row.chunkId);
+    }
+
+    const missing = chunks.filter((chunk) => !translations.has(chunk.id) && !recentlyFailed.has(chunk.id));
+    const current = missing.slice(-MAX_LINES_PER_REQUEST);
+    for (const chunk of missing.slice(0, -MAX_LINES_PER_REQUEST)) pending.add(chunk.id);
+
+    const batches: TranslatableChunk[][] = [];
+    for (let i = 0; i < current.length; i += TRANSLATION_BATCH_SIZE) {
+        batches.push(current.slice(i, i + TRANSLATION_BATCH_SIZE));
+    }
+    await Promise.all(batches.map(async (batch) => {
+        const translated = await translateBatch(batch.map((chunk) => chunk.text), language).catch((error) => {
+            console.error("[Translation] Batch failed:", error);
+            return null;
+        });
+        if (!translated) {
+            // Remembered so polling viewers don't retry the same lines every few seconds
+            await db
+                .insert(conversationChunkTranslations)
+                .values(batch.map((chunk) => ({ chunkId: chunk.id, language, text: null, failedAt: new Date() })))
+                .onConflictDoUpdate({
+                    target: [conversationChunkTranslations.chunkId, conversationChunkTranslations.language],
+                    set: { failedAt: new Date() },
+                    setWhere: isNull(conversationChunkTranslations.text),
+                });
+            return;
+        }
+
+        const rows = batch.map((chunk, j) => ({ chunkId: chunk.id, language, text: translated[j], failedAt: null }));
+        // Concurrent viewers may translate the same lines; the first stored translation wins
+        await db
+            .insert(conversationChunkTranslations)
+            .values(rows)
+            .onConflictDoUpdate({
+                target: [conversationChunkTranslations.chunkId, conversationChunkTranslations.language],
+                set: { text: sql`excluded.text`, failedAt: null },
+                setWhere: isNull(conversationChunkTranslations.text),
+            });
+        for (const row of rows) translations.set(row.chunkId, row.text);
+    }));
+    return { translations, pending };
+}
@@ -4,6 +4,8 @@ import type {AppRouter} from "@/trpc/routers/_app";
 
 export type MeetingGetOne = inferRouterOutputs<AppRouter>["meetings"]["getOne"];
 export type MeetingGetMany = inferRouterOutputs<AppRouter>["meetings"]["getMany"]["items"];
+export type MeetingInsights = NonNullable<inferRouterOutputs<AppRouter>["meetings"]["getInsights"]>;
+export type MeetingGetTranscript = inferRouterOutputs<AppRouter>["meetings"]["getTranscript"];
 
 export enum MeetingStatus {
     Upcoming = "upcoming",
@@ -11,4 +13,10 @@ export enum MeetingStatus {
     Completed = "completed",
     Processing = "processing",
     Cancelled = "cancelled",
-}
\ No newline at end of file
+}
+export enum ParticipantStatus {
+    Invited = "invited",
+    Waiting = "waiting",
+    Admitted = "admitted",
+    Rejected = "rejected",
+}
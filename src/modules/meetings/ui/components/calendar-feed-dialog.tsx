@@ -0,0 +1,90 @@
+'use client';
+import { ResponsiveDialog } from "@/components/responsive-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CopyIcon, RefreshCwIcon } from "lucide-react";
+import { toast } from "sonner";
+import { useEffect, useState } from "react";
+
+interface CalendarFeedDialogProps {
+    open:boolean;
+    onOpenChange: (open:boolean) => void;
+};
+
+export const CalendarFeedDialog=({
+    open,
+    onOpenChange,
+}:CalendarFeedDialogProps) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const [origin, setOrigin] = useState("");
+    const feed = useQuery({
+        ...trpc.meetings.getCalendarFeed.queryOptions(),
+        enabled: open,
+    });
+    const rotateFeed = useMutation(
+        trpc.meetings.rotateCalendarFeed.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.meetings.getCalendarFeed.queryOptions());
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    useEffect(() => {
+        setOrigin(window.location.origin);
+    }, []);
+
+    const feedUrl = feed.data ? `${origin}/api/calendar-feed/${feed.data.token}.ics` : "";
+
+    const onCopy = async () => {
+        await navigator.clipboard.writeText(feedUrl);
+        toast.success("Calendar URL copied");
+    };
+
+    return (
+        <ResponsiveDialog
+            title="Calendar Subscription"
+            description="Subscribe to this URL from Google Calendar, Outlook or Apple Calendar to see your upcoming meetings"
+            open={open}
+            onOpenChange={onOpenChange}
+        >
+            {feed.data ? (
+                <div className="flex flex-col gap-y-4">
+                    <div className="flex items-center gap-x-2">
+                        <Input readOnly value={feedUrl} onFocus={(e)=>e.target.select()}/>
+                        <Button variant="outline" size="icon" onClick={onCopy}>
+                            <CopyIcon/>
+                        </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        Anyone with this URL can see your meetings. Regenerate it to revoke access.
+                    </p>
+                    <div className="flex justify-end">
+                        <Button
+                            variant="ghost"
+                            disabled={rotateFeed.isPending}
+                            onClick={()=>rotateFeed.mutate()}
+                        >
+                            <RefreshCwIcon/>
+                            Regenerate URL
+                        </Button>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex justify-end">
+                    <Button
+                        disabled={feed.isLoading || rotateFeed.isPending}
+                        onClick={()=>rotateFeed.mutate()}
+                    >
+                        Create calendar URL
+                    </Button>
+                </div>
+            )}
+        </ResponsiveDialog>
+    )
+}
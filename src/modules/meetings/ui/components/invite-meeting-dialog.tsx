@@ -0,0 +1,145 @@
+'use client';
+import { ResponsiveDialog } from "@/components/responsive-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useTRPC } from "@/trpc/client";
+import { cn } from "@/lib/utils";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CopyIcon, SendIcon, XIcon } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import z from "zod";
+import { meetingInviteSchema } from "../../schemas";
+
+interface InviteMeetingDialogProps {
+    open:boolean;
+    onOpenChange: (open:boolean) => void;
+    meetingId: string;
+};
+
+const inviteFormSchema = meetingInviteSchema.pick({ email: true });
+
+const statusColorMap = {
+    pending: "bg-yellow-500/20 text-yellow-800 border-yellow-800/5",
+    accepted: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5",
+    revoked: "bg-rose-300/20 text-rose-800 border-rose-800/5",
+};
+
+export const InviteMeetingDialog=({
+    open,
+    onOpenChange,
+    meetingId,
+}:InviteMeetingDialogProps) => {
+    const trpc = useTRPC();
+    const queryClient = useQueryClient();
+    const invitations = useQuery({
+        ...trpc.meetings.getInvitations.queryOptions({ meetingId }),
+        enabled: open,
+    });
+
+    const invalidateInvitations = () =>
+        queryClient.invalidateQueries(trpc.meetings.getInvitations.queryOptions({ meetingId }));
+
+    const inviteMutation = useMutation(
+        trpc.meetings.invite.mutationOptions({
+            onSuccess: async (data) => {
+                await invalidateInvitations();
+                form.reset();
+                if (data.emailSent) {
+                    toast.success(`Invitation sent to ${data.email}`);
+                } else {
+                    await navigator.clipboard.writeText(data.url);
+                    toast.success("Invitation link copied to clipboard");
+                }
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+    const revokeMutation = useMutation(
+        trpc.meetings.revokeInvitation.mutationOptions({
+            onSuccess: invalidateInvitations,
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const form = useForm<z.infer<typeof inviteFormSchema>>({
+        resolver: zodResolver(inviteFormSchema),
+        defaultValues: { email: "" },
+    });
+
+    const onSubmit = (values: z.infer<typeof inviteFormSchema>) => {
+        inviteMutation.mutate({ meetingId, email: values.email });
+    };
+
+    const onCopy = async (url: string) => {
+        await navigator.clipboard.writeText(url);
+        toast.success("Invitation link copied");
+    };
+
+    return (
+        <ResponsiveDialog
+            title="Invite People"
+            description="Invited people can join this meeting once they accept"
+            open={open}
+            onOpenChange={onOpenChange}
+        >
+            <Form {...form}>
+                <form className="flex items-start gap-x-2" onSubmit={form.handleSubmit(onSubmit)}>
+                    <FormField
+                      name="email"
+                      control={form.control}
+                      render={({field}) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                             <Input {...field} type="email" placeholder="name@example.com"/>
+                          </FormControl>
+                        <FormMessage/>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" disabled={inviteMutation.isPending}>
+                        <SendIcon/>
+                        Invite
+                    </Button>
+                </form>
+            </Form>
+            {!!invitations.data?.length && (
+                <div className="flex flex-col gap-y-2 mt-4">
+                    {invitations.data.map((invitation) => (
+                        <div key={invitation.id} className="flex items-center gap-x-2 rounded-md border px-3 py-2">
+                            <span className="flex-1 truncate text-sm">{invitation.email}</span>
+                            <Badge
+                                variant="outline"
+                                className={cn("capitalize", statusColorMap[invitation.status])}
+                            >
+                                {invitation.status}
+                            </Badge>
+                            {invitation.status === "pending" && (
+                                <>
+                                    <Button variant="ghost" size="icon" onClick={()=>onCopy(invitation.url)}>
+                                        <CopyIcon/>
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        disabled={revokeMutation.isPending}
+                                        onClick={()=>revokeMutation.mutate({ id: invitation.id })}
+                                    >
+                                        <XIcon/>
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </ResponsiveDialog>
+    )
+}
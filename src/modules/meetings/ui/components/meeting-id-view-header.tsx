@@ -2,17 +2,20 @@ import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbS
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu";
 import { DropdownMenuTrigger } from "@radix-ui/react-dropdown-menu";
-import { ChevronRightIcon, MoreVerticalIcon, PencilIcon, TrashIcon } from "lucide-react";
+import { CalendarPlusIcon, ChevronRightIcon, MoreVerticalIcon, PencilIcon, RefreshCwIcon, RepeatIcon, TrashIcon, UserPlusIcon } from "lucide-react";
 import Link from "next/link";
 
 interface Props {
     meetingId: string;
     meetingName: string;
+    seriesId?: string | null;
     onEdit: () => void;
+    onInvite: () => void;
     onRemove: () => void;
+    onReprocess?: () => void;
 }
 
-export const MeetingIdViewHeader = ({ meetingId, meetingName , onEdit, onRemove }: Props) => {
+export const MeetingIdViewHeader = ({ meetingId, meetingName , seriesId, onEdit, onInvite, onRemove, onReprocess }: Props) => {
     return (
         <div className="flex items-center justify-between">
             <Breadcrumb>
@@ -43,6 +46,30 @@ export const MeetingIdViewHeader = ({ meetingId, meetingName , onEdit, onRemove
                     </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
+                    {seriesId && (
+                        <DropdownMenuItem asChild>
+                            <Link href={`/series/${seriesId}`}>
+                                <RepeatIcon className="mr-2 size-4" />
+                                View series
+                            </Link>
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem asChild>
+                        <a href={`/api/meeting-ics?meetingId=${meetingId}`} download>
+                            <CalendarPlusIcon className="mr-2 size-4" />
+                            Add to calendar
+                        </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onInvite}>
+                        <UserPlusIcon className="mr-2 size-4" />
+                        Invite
+                    </DropdownMenuItem>
+                    {onReprocess && (
+                        <DropdownMenuItem onClick={onReprocess}>
+                            <RefreshCwIcon className="mr-2 size-4" />
+                            Re-run analysis
+                        </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem onClick={onEdit}>
                         <PencilIcon className="mr-2 size-4" />
                         Edit
@@ -4,7 +4,8 @@ import { useRouter } from "next/navigation";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import z from "zod";
-import { meetingsInsertSchema } from "../../schemas";
+import { meetingsInsertSchema, STT_ENGINES, STTEngine } from "../../schemas";
+import { DEFAULT_MEETING_LANGUAGE, MEETING_LANGUAGES, MeetingLanguage } from "../../languages";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { GeneratedAvatar } from "@/components/generated-avatar";
@@ -15,6 +16,14 @@ import { MeetingGetOne } from "../../types";
 import { useState } from "react";
 import { CommandSelect } from "@/components/command-select";
 import { NewAgentDialog } from "@/modules/agents/ui/components/new-agent-dialog";
+import { DateTimePicker } from "@/components/date-time-picker";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const STT_ENGINE_LABELS: Record<STTEngine, string> = {
+    browser: "Browser (Web Speech API)",
+    server: "Server (works in every browser)",
+};
 
 interface MeetingsFormProps {
     onSuccess?:(id?:string)=>void;
@@ -76,6 +85,13 @@ export const MeetingForm = ({
         defaultValues: {
             name: initialValues?.name?? "",
             agentId:initialValues?.agentId?? "",
+            scheduledAt: initialValues?.scheduledAt ? new Date(initialValues.scheduledAt) : null,
+            durationMinutes: initialValues?.durationMinutes ?? 30,
+            isPublic: initialValues?.isPublic ?? false,
+            waitingRoomEnabled: initialValues?.waitingRoomEnabled ?? false,
+            sttEngine: (initialValues?.sttEngine as STTEngine | undefined) ?? "browser",
+            language: (initialValues?.language as MeetingLanguage | undefined) ?? DEFAULT_MEETING_LANGUAGE,
+            summaryLanguage: (initialValues?.summaryLanguage as MeetingLanguage | null | undefined) ?? null,
         },
     });
 
@@ -152,6 +168,157 @@ export const MeetingForm = ({
                     </FormItem>
                   )}
                   
+                />
+                <FormField
+                  name="scheduledAt"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Start time</FormLabel>
+                      <FormControl>
+                         <DateTimePicker
+                             value={field.value}
+                             onChange={field.onChange}
+                             placeholder="Start now"
+                         />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty to start the meeting right away.
+                      </FormDescription>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                  
+                />
+                <FormField
+                  name="durationMinutes"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                         <Input
+                             type="number"
+                             min={5}
+                             max={480}
+                             step={5}
+                             {...field}
+                             onChange={(e)=>field.onChange(e.target.valueAsNumber)}
+                         />
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                  
+                />
+                <FormField
+                  name="isPublic"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem className="flex items-center justify-between gap-x-4 rounded-lg border p-3">
+                      <div className="space-y-1">
+                        <FormLabel>Public meeting</FormLabel>
+                        <FormDescription>
+                          Anyone signed in can join while the meeting is open. Otherwise only invited people can.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                         <Switch checked={field.value} onCheckedChange={field.onChange}/>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="waitingRoomEnabled"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem className="flex items-center justify-between gap-x-4 rounded-lg border p-3">
+                      <div className="space-y-1">
+                        <FormLabel>Waiting room</FormLabel>
+                        <FormDescription>
+                          Participants wait in the lobby until you admit them.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                         <Switch checked={field.value} onCheckedChange={field.onChange}/>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField
+                    name="language"
+                    control={form.control}
+                    render={({field}) => (
+                      <FormItem>
+                        <FormLabel>Spoken language</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue/>
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {MEETING_LANGUAGES.map((language) => (
+                              <SelectItem key={language.code} value={language.code}>{language.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage/>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    name="summaryLanguage"
+                    control={form.control}
+                    render={({field}) => (
+                      <FormItem>
+                        <FormLabel>Summary language</FormLabel>
+                        <Select
+                          value={field.value ?? "spoken"}
+                          onValueChange={(value) => field.onChange(value === "spoken" ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue/>
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="spoken">Same as spoken</SelectItem>
+                            {MEETING_LANGUAGES.map((language) => (
+                              <SelectItem key={language.code} value={language.code}>{language.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage/>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  name="sttEngine"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Speech recognition</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue/>
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {STT_ENGINES.map((engine) => (
+                            <SelectItem key={engine} value={engine}>{STT_ENGINE_LABELS[engine]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        How the agent hears participants. Browsers without speech recognition, like Firefox, use the server when it is set up.
+                      </FormDescription>
+                      <FormMessage/>
+                    </FormItem>
+                  )}
                 />
                  <div className="flex justify-between gap-x-2">
                     {onCancel && (
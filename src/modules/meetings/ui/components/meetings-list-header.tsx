@@ -1,7 +1,9 @@
 'use client';
 import { Button } from "@/components/ui/button"
-import { PlusIcon, XCircleIcon } from "lucide-react";
+import { CalendarIcon, PlusIcon, RepeatIcon, XCircleIcon } from "lucide-react";
 import { NewMeetingDialog } from "./new-meeting-dialog";
+import { CalendarFeedDialog } from "./calendar-feed-dialog";
+import { NewSeriesDialog } from "@/modules/series/ui/components/new-series-dialog";
 import { useState } from "react";
 import { MeetingsSearchFilter } from "./meetings-search-filter";
 import { StatusFilter } from "./status-filter";
@@ -12,6 +14,8 @@ import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 export const MeetingsListHeader = () => {
     const [filters,setFilters] = useMeetingsFilters();
     const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [isSeriesDialogOpen, setIsSeriesDialogOpen] = useState(false);
+    const [isCalendarDialogOpen, setIsCalendarDialogOpen] = useState(false);
     const isAnyFilterModified=
        !!filters.status || !!filters.search || !!filters.agentId;
 
@@ -26,15 +30,27 @@ export const MeetingsListHeader = () => {
     return (
         <>
         <NewMeetingDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}/>
+        <NewSeriesDialog open={isSeriesDialogOpen} onOpenChange={setIsSeriesDialogOpen}/>
+        <CalendarFeedDialog open={isCalendarDialogOpen} onOpenChange={setIsCalendarDialogOpen}/>
         <div className="py-4 px-4 md:px-8 flex flex-col gap-y-4">
             <div className="flex items-center justify-between">
                 <h5 className="font-medium text-xl">
                     My Meetings
                 </h5>
-                <Button onClick={()=> setIsDialogOpen(true)}>
-                    <PlusIcon/>
-                    New Meeting
-                </Button>
+                <div className="flex items-center gap-x-2">
+                    <Button variant="ghost" onClick={()=> setIsCalendarDialogOpen(true)}>
+                        <CalendarIcon/>
+                        Subscribe
+                    </Button>
+                    <Button variant="outline" onClick={()=> setIsSeriesDialogOpen(true)}>
+                        <RepeatIcon/>
+                        New Series
+                    </Button>
+                    <Button onClick={()=> setIsDialogOpen(true)}>
+                        <PlusIcon/>
+                        New Meeting
+                    </Button>
+                </div>
             </div>
             <ScrollArea>
             <div className="flex items-center gap-x-2 p-1">
@@ -1,10 +1,38 @@
+"use client";
+
 import { EmptyState } from "@/components/empty-state"
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { JobStatus, JobType } from "@/modules/jobs/types";
+import { useTRPC } from "@/trpc/client";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
 
 interface Props {
     meetingId:string;
 }
 
-export const ProcessingState = () => {
+const steps = [
+    { type: JobType.MeetingSummary, label: "Summary" },
+    { type: JobType.MeetingInsights, label: "Insights" },
+    { type: JobType.ProjectPlan, label: "Project plan" },
+    { type: JobType.AgentMemory, label: "Agent memory" },
+];
+
+const statusColorMap: Record<string, string> = {
+    [JobStatus.Pending]: "bg-yellow-500/20 text-yellow-800 border-yellow-800/5",
+    [JobStatus.Running]: "bg-blue-500/20 text-blue-800 border-blue-800/5",
+    [JobStatus.Completed]: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5",
+    [JobStatus.Failed]: "bg-rose-300/20 text-rose-800 border-rose-800/5",
+};
+
+export const ProcessingState = ({ meetingId }: Props) => {
+    const trpc = useTRPC();
+    const { data: jobs } = useQuery({
+        ...trpc.meetings.getProcessingJobs.queryOptions({ meetingId }),
+        refetchInterval: 4000,
+    });
+
     return (
         <div className="bg-white rounded-lg px-4 py-5 flex flex-col gap-y-8 items-center justify-center">
             <EmptyState
@@ -12,6 +40,34 @@ export const ProcessingState = () => {
                title="Meeting completed"
                description ="this meeting was completed,a summary will appear soon"
             />
+            {jobs && jobs.length > 0 && (
+                <div className="w-full max-w-md flex flex-col gap-y-2">
+                    {steps.map((step) => {
+                        // Jobs are returned newest first, so this is the latest run of the step
+                        const job = jobs.find((j) => j.type === step.type);
+                        const isRetrying = job?.status === JobStatus.Pending && job.attempts > 0;
+                        return (
+                            <div key={step.type} className="flex items-center justify-between gap-x-2 text-sm">
+                                <span className="font-medium">{step.label}</span>
+                                <div className="flex items-center gap-x-2">
+                                    {isRetrying && (
+                                        <span className="text-xs text-muted-foreground">
+                                            retry {job.attempts}/{job.maxAttempts} {formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}
+                                        </span>
+                                    )}
+                                    <Badge
+                                        variant="outline"
+                                        className={cn("capitalize text-muted-foreground", job && statusColorMap[job.status])}
+                                        title={job?.lastError ?? undefined}
+                                    >
+                                        {job?.status ?? "waiting"}
+                                    </Badge>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
         </div>
     )
-}
\ No newline at end of file
+}
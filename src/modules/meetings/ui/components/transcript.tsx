@@ -0,0 +1,103 @@
+import { GeneratedAvatar } from "@/components/generated-avatar";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTRPC } from "@/trpc/client";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { SearchIcon } from "lucide-react";
+import { useState } from "react";
+import { MEETING_LANGUAGES, MeetingLanguage } from "../../languages";
+
+// How soon the next slice of a long transcript is requested while it is being translated
+const TRANSLATION_REFETCH_MS = 1000;
+
+interface Props {
+    meetingId: string;
+    agentName: string;
+}
+
+export const Transcript = ({ meetingId, agentName }: Props) => {
+    const trpc = useTRPC();
+    const [search, setSearch] = useState("");
+    const [language, setLanguage] = useState<MeetingLanguage | null>(null);
+    const { data, isLoading } = useQuery({
+        ...trpc.meetings.getTranscript.queryOptions({ id: meetingId, language }),
+        // Each request translates a slice of a long transcript; keep fetching until every line has had its turn
+        refetchInterval: (query) =>
+            query.state.data?.some((item) => item.translationPending) ? TRANSLATION_REFETCH_MS : false,
+    });
+
+    const filtered = (data ?? []).filter((item) =>
+        [item.text, item.translation ?? ""].some((text) => text.toLowerCase().includes(search.toLowerCase())),
+    );
+
+    return (
+        <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4 w-full">
+            <p className="text-sm font-medium">Transcript</p>
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="relative">
+                    <Input
+                        placeholder="Search Transcript"
+                        className="pl-7 h-9 w-[240px]"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                    />
+                    <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 size-4 text-muted-foreground"/>
+                </div>
+                <Select
+                    value={language ?? "original"}
+                    onValueChange={(value) => setLanguage(value === "original" ? null : value as MeetingLanguage)}
+                >
+                    <SelectTrigger className="h-9 w-[200px]">
+                        <SelectValue/>
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="original">Original language</SelectItem>
+                        {MEETING_LANGUAGES.map((option) => (
+                            <SelectItem key={option.code} value={option.code}>Translate to {option.label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading transcript...</p>
+            ) : filtered.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                    {search ? "No matching lines." : "No transcript available for this meeting."}
+                </p>
+            ) : (
+                <ScrollArea className="max-h-[600px]">
+                    <div className="flex flex-col gap-y-4">
+                        {filtered.map((item) => {
+                            const name = item.speaker === "ai" ? agentName : (item.userName ?? "User");
+                            return (
+                                <div key={item.id} className="flex flex-col gap-y-2 hover:bg-muted p-4 rounded-md border">
+                                    <div className="flex gap-x-2 items-center">
+                                        <GeneratedAvatar
+                                            seed={name}
+                                            variant={item.speaker === "ai" ? "botttsNeutral" : "initials"}
+                                            className="size-6"
+                                        />
+                                        <p className="text-sm font-medium">{name}</p>
+                                        <p className="text-sm text-blue-500 font-medium">
+                                            {format(new Date(item.ts), "p")}
+                                        </p>
+                                    </div>
+                                    {item.translation ? (
+                                        <>
+                                            <p className="text-sm text-neutral-700">{item.translation}</p>
+                                            <p className="text-xs text-muted-foreground">{item.text}</p>
+                                        </>
+                                    ) : (
+                                        <p className="text-sm text-neutral-700">{item.text}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </ScrollArea>
+            )}
+        </div>
+    );
+};
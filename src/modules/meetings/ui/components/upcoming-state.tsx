@@ -2,24 +2,33 @@ import { EmptyState } from "@/components/empty-state"
 import { Button } from "@/components/ui/button"
 import { BanIcon, VideoIcon } from "lucide-react"
 import Link from "next/link"
+import { format, formatDistanceToNow } from "date-fns"
 
 interface Props {
     meetingId:string;
+    scheduledAt?: Date | string | null;
+    durationMinutes?: number;
     onCancelMeeting:() => void;
     isCancelling:boolean;
 }
 
 export const UpcomingState=({
     meetingId,
+    scheduledAt,
+    durationMinutes,
     onCancelMeeting,
     isCancelling,
 }:Props) => {
+    const startsAt = scheduledAt ? new Date(scheduledAt) : null;
+
     return (
         <div className="bg-white rounded-lg px-4 py-5 flex flex-col gap-y-8 items-center justify-center">
             <EmptyState
                image="/upcoming.svg"
-               title="Not started yet"
-               description ="Once you start this meeting , a summary will appear here"
+               title={startsAt ? `Starts ${formatDistanceToNow(startsAt, { addSuffix: true })}` : "Not started yet"}
+               description ={startsAt
+                   ? `Scheduled for ${format(startsAt, "PPP 'at' p")}${durationMinutes ? ` (${durationMinutes} min)` : ""}. Once it starts, a summary will appear here`
+                   : "Once you start this meeting , a summary will appear here"}
             />
             <div className="flex flex-col-reverse lg:flex-row lg:justify-center items-center gap-2 w-full">
                 <Button 
@@ -42,4 +51,4 @@ export const UpcomingState=({
             </div>
         </div>
     )
-}
\ No newline at end of file
+}
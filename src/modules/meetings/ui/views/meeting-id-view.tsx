@@ -3,18 +3,21 @@
 import { ErrorState } from "@/components/error-state";
 import { LoadingState } from "@/components/loading-state";
 import { useTRPC } from "@/trpc/client";
-import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
 import { MeetingIdViewHeader } from "../components/meeting-id-view-header";
 import { useRouter } from "next/navigation";
 import { useConfirm } from "@/hooks/use-confirm";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { UpdateMeetingDialog } from "../components/update-meeting-dialog";
+import { InviteMeetingDialog } from "../components/invite-meeting-dialog";
+import { Transcript } from "../components/transcript";
 import { UpcomingState } from "../components/upcoming-state";
 import { ActiveState } from "../components/active-state";
 import { CancelledState } from "../components/cancelled-state";
 import { ProcessingState } from "../components/processing-state";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TasksView } from "../../../tasks/ui/views/tasks-view";
+import { toast } from "sonner";
 
 
 interface Props {
@@ -26,6 +29,7 @@ export const MeetingIdView = ({meetingId} : Props)=>{
     const router=useRouter();
     const queryClient=useQueryClient();
     const [updateMeetingDialogOpen,setUpdateMeetingDialogOpen]=useState(false);
+    const [inviteDialogOpen,setInviteDialogOpen]=useState(false);
     const [RemoveConfirmation,confirmRemove]=useConfirm(
         "Are you sure?",
         "The following action will remove this meeting"
@@ -43,6 +47,50 @@ export const MeetingIdView = ({meetingId} : Props)=>{
         }),
     );
 
+    const [CancelConfirmation,confirmCancel]=useConfirm(
+        "Are you sure?",
+        "The following action will cancel this meeting"
+    );
+    const cancelMeeting=useMutation(
+        trpc.meetings.cancel.mutationOptions({
+            onSuccess:async ()=>{
+                await queryClient.invalidateQueries(trpc.meetings.getMany.queryOptions({}));
+                await queryClient.invalidateQueries(trpc.meetings.getOne.queryOptions({id:meetingId}));
+            },
+            onError:(error)=>{
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const handleCancelMeeting = async () => {
+        const ok = await confirmCancel();
+        if(!ok) return;
+        await cancelMeeting.mutateAsync({id:meetingId});
+    };
+
+    const [ReprocessConfirmation,confirmReprocess]=useConfirm(
+        "Re-run analysis?",
+        "The summary and insights for this meeting will be generated again"
+    );
+    const reprocessMeeting=useMutation(
+        trpc.meetings.reprocess.mutationOptions({
+            onSuccess:async ()=>{
+                await queryClient.invalidateQueries(trpc.meetings.getOne.queryOptions({id:meetingId}));
+                await queryClient.invalidateQueries(trpc.meetings.getProcessingJobs.queryOptions({meetingId}));
+            },
+            onError:(error)=>{
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const handleReprocessMeeting = async () => {
+        const ok = await confirmReprocess();
+        if(!ok) return;
+        await reprocessMeeting.mutateAsync({id:meetingId});
+    };
+
     const handleRemoveMeeting = async () => {
         const ok  = await confirmRemove();
         if(!ok) return;
@@ -65,6 +113,16 @@ export const MeetingIdView = ({meetingId} : Props)=>{
         return () => clearInterval(id);
     }, [isProcessing, queryClient, trpc.meetings.getOne, meetingId]);
 
+    // Pick up scheduler transitions (upcoming -> active/cancelled) while the page is open
+    useEffect(() => {
+        if (!isUpcoming) return;
+        const id = setInterval(() => {
+            const q = trpc.meetings.getOne.queryOptions({ id: meetingId }).queryKey;
+            queryClient.invalidateQueries({ queryKey: q });
+        }, 30000);
+        return () => clearInterval(id);
+    }, [isUpcoming, queryClient, trpc.meetings.getOne, meetingId]);
+
     // Get meeting participants from database
     useEffect(() => {
         if (meetingId) {
@@ -80,36 +138,26 @@ export const MeetingIdView = ({meetingId} : Props)=>{
         }
     }, [meetingId]);
 
-    // Parse structured summary payload if present
-    type InsightsRoleSuggestion = { role: string; user: string; confidence: number; reasoning?: string };
-    type InsightsType = {
-      source?: 'groq' | 'heuristic' | 'hf-sst2' | 'hybrid';
-      sentiment_analysis?: {
-        overall_score?: number;
-        notes?: string[];
-        participants?: Record<string, { avg_sentiment: number; confidence_level?: number }>;
-      };
-      expertise_detection?: Record<string, Record<string, number>>;
-      role_suggestions?: InsightsRoleSuggestion[];
-    };
-    type ParsedSummary = { summaryText?: string; insights?: InsightsType } | null;
-
-    const parsedSummary: ParsedSummary = useMemo(() => {
-        if (!data.summary) return null;
-        try {
-            const obj = JSON.parse(data.summary as unknown as string);
-            if (obj && (obj.summaryText || obj.insights)) return obj as ParsedSummary;
-        } catch (_) {}
-        return null;
-    }, [data.summary]);
+    const {data: summary} = useQuery({
+        ...trpc.meetings.getSummary.queryOptions({id:meetingId}),
+        enabled: isCompleted,
+    });
+    const {data: insights} = useQuery({
+        ...trpc.meetings.getInsights.queryOptions({id:meetingId}),
+        enabled: isCompleted,
+    });
+    const summaryText = summary?.summaryText;
 
-    // Typed memo for insights and expertise map to satisfy TS
-    const insights = useMemo(() => parsedSummary?.insights as InsightsType | undefined, [parsedSummary]);
-
-    const expertise = useMemo(() => (insights?.expertise_detection ?? undefined) as
-      | Record<string, Record<string, number>>
-      | undefined,
-    [insights]);
+    // Expertise grouped per participant: user -> skill -> confidence
+    const expertise = useMemo(() => {
+      if (!insights) return undefined;
+      const map: Record<string, Record<string, number>> = {};
+      for (const row of insights.expertise) {
+        map[row.participantName] = map[row.participantName] || {};
+        map[row.participantName][row.skill] = row.confidence;
+      }
+      return map;
+    }, [insights]);
 
     // Normalize helper for robust name comparisons
     const norm = useCallback((s: string) => s.trim().toLowerCase(), []);
@@ -148,36 +196,34 @@ export const MeetingIdView = ({meetingId} : Props)=>{
 
     // Filtered role suggestions: show only real team participants
     const filteredRoleSuggestions = useMemo(() => {
-      const list = Array.isArray(insights?.role_suggestions) ? insights!.role_suggestions : [];
+      const list = insights?.roleSuggestions ?? [];
       const agentName = (data.agent?.name ?? 'AI Agent');
       const agentNorm = norm(agentName);
       return list.filter((s) => {
-        const u = norm(s.user);
+        const u = norm(s.participantName);
         const heuristicAI = u === agentNorm || u === 'ai' || u === 'ai agent' || u.includes('assistant') || u.includes('bot');
         if (heuristicAI) return false;
         return allowedParticipantNames.size > 0 ? allowedParticipantNames.has(u) : true;
       });
-    }, [insights?.role_suggestions, allowedParticipantNames, data.agent?.name, norm]);
+    }, [insights?.roleSuggestions, allowedParticipantNames, data.agent?.name, norm]);
 
     // Filtered per-participant sentiment
     const filteredSentimentParticipants = useMemo(() => {
-      const parts = insights?.sentiment_analysis?.participants ?? undefined;
-      if (!parts) return undefined;
+      const parts = insights?.sentiment.participants ?? [];
       const agentName = (data.agent?.name ?? 'AI Agent');
       const agentNorm = norm(agentName);
-      const entries = Object.entries(parts).filter(([name]) => {
-        const u = norm(name);
+      return parts.filter((p) => {
+        const u = norm(p.participantName);
         const heuristicAI = u === agentNorm || u === 'ai' || u === 'ai agent' || u.includes('assistant') || u.includes('bot');
         if (heuristicAI) return false;
         return allowedParticipantNames.size > 0 ? allowedParticipantNames.has(u) : true;
       });
-      return Object.fromEntries(entries) as Record<string, { avg_sentiment: number; confidence_level?: number }>;
-    }, [insights?.sentiment_analysis?.participants, allowedParticipantNames, data.agent?.name, norm]);
+    }, [insights?.sentiment.participants, allowedParticipantNames, data.agent?.name, norm]);
 
     // Actions: download insights JSON and copy summary
     const handleDownloadInsights = useCallback(() => {
-      const payload = parsedSummary ? parsedSummary : null;
-      if (!payload) return;
+      if (!summaryText && !insights) return;
+      const payload = { summaryText, insights };
       const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -185,16 +231,16 @@ export const MeetingIdView = ({meetingId} : Props)=>{
       a.download = `meeting-${meetingId}-insights.json`;
       a.click();
       URL.revokeObjectURL(url);
-    }, [parsedSummary, meetingId]);
+    }, [summaryText, insights, meetingId]);
 
     const handleCopySummary = useCallback(async () => {
-      const text = parsedSummary?.summaryText || (data.summary as unknown as string) || '';
+      const text = summaryText || '';
       if (!text) return;
       try { await navigator.clipboard.writeText(text); } catch (_) {}
-    }, [parsedSummary, data.summary]);
+    }, [summaryText]);
 
     const handleDownloadPDF = useCallback(async () => {
-      const text = parsedSummary?.summaryText || (data.summary as unknown as string) || '';
+      const text = summaryText || '';
       if (!text) return;
       
       try {
@@ -258,7 +304,7 @@ export const MeetingIdView = ({meetingId} : Props)=>{
       } catch (error) {
         console.error('Error generating PDF:', error);
         // Fallback: open in new tab for manual PDF generation
-        const text = parsedSummary?.summaryText || (data.summary as unknown as string) || '';
+        const text = summaryText || '';
         if (text) {
           const newWindow = window.open();
           if (newWindow) {
@@ -279,23 +325,33 @@ export const MeetingIdView = ({meetingId} : Props)=>{
           }
         }
       }
-    }, [parsedSummary, data.summary, data.name, data.endedAt, data.startedAt, data.createdAt, data.agent?.name, participantNames]);
+    }, [summaryText, data.name, data.endedAt, data.startedAt, data.createdAt, data.agent?.name, participantNames]);
 
 
     return (
         <>
         <RemoveConfirmation/>
+        <CancelConfirmation/>
+        <ReprocessConfirmation/>
         <UpdateMeetingDialog
            open={updateMeetingDialogOpen}
            onOpenChange={setUpdateMeetingDialogOpen}
            initialValues={data}
+        />
+        <InviteMeetingDialog
+           open={inviteDialogOpen}
+           onOpenChange={setInviteDialogOpen}
+           meetingId={meetingId}
         />
           <div className="flex-1 py-4 px-4 md:px-8 flex flex-col gap-y-4">
             <MeetingIdViewHeader
                meetingId={meetingId}
                meetingName={data.name}
+               seriesId={data.seriesId}
                onEdit={()=>setUpdateMeetingDialogOpen(true)}
+               onInvite={()=>setInviteDialogOpen(true)}
                onRemove={handleRemoveMeeting}
+               onReprocess={isCompleted ? handleReprocessMeeting : undefined}
                />
               {isCancelled && <CancelledState/>}
               {isProcessing && (
@@ -305,7 +361,7 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                         <TabsTrigger value="summary">Summary</TabsTrigger>
                     </TabsList>
                     <TabsContent value="overview">
-                        <ProcessingState/>
+                        <ProcessingState meetingId={meetingId}/>
                     </TabsContent>
                     <TabsContent value="summary">
                         <div className="rounded-lg border p-4 space-y-3 text-sm">
@@ -322,10 +378,12 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                 </Tabs>
               )}
               {isCompleted && (
-                <Tabs defaultValue={(parsedSummary?.summaryText || data.summary) ? "summary" : "overview"}>
+                <Tabs defaultValue={summaryText ? "summary" : "overview"}>
                     <TabsList>
                         <TabsTrigger value="overview">Overview</TabsTrigger>
                         <TabsTrigger value="summary">Summary</TabsTrigger>
+                        <TabsTrigger value="transcript">Transcript</TabsTrigger>
+                        <TabsTrigger value="recording">Recording</TabsTrigger>
                         <TabsTrigger value="insights">Team Insights</TabsTrigger>
                         <TabsTrigger value="tasks">Tasks</TabsTrigger>
                     </TabsList>
@@ -338,13 +396,9 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                             <div><span className="font-medium">Participants:</span> {participantNames.length > 0 ? participantNames.join(', ') : 'You'}, {data.agent?.name ?? 'AI Agent'}</div>
                             <div><span className="font-medium">Date:</span> {new Date(data.endedAt ?? data.startedAt ?? data.createdAt).toLocaleString()}</div>
                           </div>
-                          {parsedSummary?.summaryText ? (
-                            <div className="whitespace-pre-wrap text-sm">
-                              {parsedSummary.summaryText}
-                            </div>
-                          ) : data.summary ? (
+                          {summaryText ? (
                             <div className="whitespace-pre-wrap text-sm">
-                              {data.summary}
+                              {summaryText}
                             </div>
                           ) : (
                             <div className="text-sm">No summary available.</div>
@@ -360,32 +414,32 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                             {/* Source badge */}
                             <div className="flex items-center gap-2 text-xs text-muted-foreground">
                               <span className="rounded bg-muted px-2 py-1">
-                                Source: {insights?.source === 'groq' ? 'Groq (LLM)' : insights?.source === 'heuristic' ? 'Heuristic' : insights?.source === 'hf-sst2' ? 'HF SST-2' : insights?.source === 'hybrid' ? 'Hybrid (HF + Groq)' : 'Unknown'}
+                                Source: {insights.source === 'groq' ? 'Groq (LLM)' : insights.source === 'heuristic' ? 'Heuristic' : insights.source === 'hf-sst2' ? 'HF SST-2' : insights.source === 'hybrid' ? 'Hybrid (HF + Groq)' : 'Unknown'}
                               </span>
                             </div>
                             {/* Sentiment */}
                             <div className="rounded-lg border p-4">
                               <div className="font-medium mb-2">Sentiment Analysis</div>
-                              <div className="text-sm">Overall sentiment: <span className="font-medium">{Math.round((insights.sentiment_analysis?.overall_score ?? 0) * 100)}%</span></div>
-                              {Array.isArray(insights.sentiment_analysis?.notes) && insights.sentiment_analysis.notes.length > 0 && (
+                              <div className="text-sm">Overall sentiment: <span className="font-medium">{Math.round(insights.sentiment.overallScore * 100)}%</span></div>
+                              {insights.sentiment.notes.length > 0 && (
                                 <ul className="list-disc pl-5 mt-2 text-sm text-muted-foreground">
-                                  {insights.sentiment_analysis.notes.map((n: string, i: number) => (
+                                  {insights.sentiment.notes.map((n, i) => (
                                     <li key={i}>{n}</li>
                                   ))}
                                 </ul>
                               )}
                               {/* Per-participant sentiment if available */}
-                              {filteredSentimentParticipants && Object.keys(filteredSentimentParticipants).length > 0 && (
+                              {filteredSentimentParticipants.length > 0 && (
                                 <div className="mt-3">
                                   <div className="text-sm font-medium mb-1">Per‑participant</div>
                                   <div className="flex flex-col gap-2">
-                                    {Object.entries(filteredSentimentParticipants as Record<string, { avg_sentiment: number; confidence_level?: number }>).map(([name, s]) => (
-                                      <div key={name} className="flex items-center gap-2 text-sm">
-                                        <span className="w-32 truncate" title={name}>{name}</span>
+                                    {filteredSentimentParticipants.map((p) => (
+                                      <div key={p.participantName} className="flex items-center gap-2 text-sm">
+                                        <span className="w-32 truncate" title={p.participantName}>{p.participantName}</span>
                                         <div className="flex-1 h-2 bg-muted rounded">
-                                          <div className="h-2 bg-primary rounded" style={{ width: `${Math.round((s.avg_sentiment ?? 0) * 100)}%` }} />
+                                          <div className="h-2 bg-primary rounded" style={{ width: `${Math.round(p.score * 100)}%` }} />
                                         </div>
-                                        <span className="w-12 text-right">{Math.round((s.avg_sentiment ?? 0) * 100)}%</span>
+                                        <span className="w-12 text-right">{Math.round(p.score * 100)}%</span>
                                       </div>
                                     ))}
                                   </div>
@@ -423,22 +477,22 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                             {/* Role suggestions */}
                             <div className="rounded-lg border p-4">
                               <div className="font-medium mb-2">Role Suggestions</div>
-                              {Array.isArray(filteredRoleSuggestions) && filteredRoleSuggestions.length > 0 ? (
+                              {filteredRoleSuggestions.length > 0 ? (
                                 <div className="flex flex-col gap-2 text-sm">
-                                  {filteredRoleSuggestions.map((s: InsightsRoleSuggestion, i: number) => (
+                                  {filteredRoleSuggestions.map((s, i) => (
                                     <div key={i} className="flex flex-col gap-2 border rounded px-2 py-2">
                                       <div className="flex items-center justify-between gap-2">
                                         <div className="font-medium">{s.role}</div>
-                                        <span className="rounded bg-muted px-2 py-1 text-xs">{s.user}</span>
+                                        <span className="rounded bg-muted px-2 py-1 text-xs">{s.participantName}</span>
                                       </div>
                                       {s.reasoning && (
                                         <div className="text-muted-foreground">{s.reasoning}</div>
                                       )}
                                       <div className="flex items-center gap-2">
                                         <div className="flex-1 h-2 bg-muted rounded">
-                                          <div className="h-2 bg-primary rounded" style={{ width: `${Math.round((s.confidence ?? 0) * 100)}%` }} />
+                                          <div className="h-2 bg-primary rounded" style={{ width: `${Math.round(s.confidence * 100)}%` }} />
                                         </div>
-                                        <span className="w-14 text-right text-xs">{Math.round((s.confidence ?? 0) * 100)}%</span>
+                                        <span className="w-14 text-right text-xs">{Math.round(s.confidence * 100)}%</span>
                                       </div>
                                     </div>
                                   ))}
@@ -453,6 +507,22 @@ export const MeetingIdView = ({meetingId} : Props)=>{
                         )}
                     </TabsContent>
 
+                    <TabsContent value="transcript">
+                        <Transcript meetingId={meetingId} agentName={data.agent?.name ?? 'AI Agent'}/>
+                    </TabsContent>
+                    <TabsContent value="recording">
+                        {data.recordingUrl ? (
+                          <div className="bg-white rounded-lg border px-4 py-5">
+                            <video
+                              src={data.recordingUrl}
+                              className="w-full rounded-lg"
+                              controls
+                            />
+                          </div>
+                        ) : (
+                          <div className="rounded-lg border p-4 text-sm">The recording is not available yet. It usually appears a few minutes after the call ends.</div>
+                        )}
+                    </TabsContent>
                     <TabsContent value="tasks">
                         <TasksView meetingId={meetingId} />
                     </TabsContent>
@@ -461,8 +531,10 @@ export const MeetingIdView = ({meetingId} : Props)=>{
               {isActive && <ActiveState meetingId={meetingId}/>}
               {isUpcoming && (<UpcomingState
                     meetingId={meetingId}
-                    onCancelMeeting={()=>{}}
-                    isCancelling={false}
+                    scheduledAt={data.scheduledAt}
+                    durationMinutes={data.durationMinutes}
+                    onCancelMeeting={handleCancelMeeting}
+                    isCancelling={cancelMeeting.isPending}
                 />)}
           </div>
         </>
@@ -0,0 +1,125 @@
+import { addDays, addMonths, addWeeks, format, startOfWeek } from "date-fns";
+import { RecurrenceFrequency } from "./types";
+
+export type RecurrenceRule = {
+    frequency: RecurrenceFrequency | `${RecurrenceFrequency}`;
+    interval: number;
+    byWeekday?: number[] | null;
+    startsAt: Date;
+    until?: Date | null;
+    occurrenceCount?: number | null;
+    exceptions?: string[] | null;
+};
+
+// Hard stop so a malformed rule can never loop forever
+const MAX_ITERATIONS = 5000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Key used to match an occurrence against the series exceptions
+export function occurrenceKey(date: Date) {
+    return date.toISOString();
+}
+
+function withTimeOf(date: Date, time: Date) {
+    const next = new Date(date);
+    next.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), 0);
+    return next;
+}
+
+/**
+ * Generates every occurrence start of the rule in chronological order, RRULE
+ * style: COUNT is applied before exceptions are removed, and monthly rules
+ * skip months that do not have the start day (e.g. the 31st).
+ */
+function* iterateOccurrences(rule: RecurrenceRule): Generator<Date> {
+    const interval = Math.max(1, rule.interval);
+    let emitted = 0;
+
+    const isDone = (date: Date) =>
+        (rule.until && date.getTime() > rule.until.getTime()) ||
+        (rule.occurrenceCount != null && emitted >= rule.occurrenceCount);
+
+    if (rule.frequency === RecurrenceFrequency.Weekly) {
+        const weekdays = (rule.byWeekday && rule.byWeekday.length > 0
+            ? [...new Set(rule.byWeekday)]
+            : [rule.startsAt.getDay()]
+        ).sort((a, b) => a - b);
+        const firstWeek = startOfWeek(rule.startsAt);
+
+        for (let i = 0; i < MAX_ITERATIONS; i++) {
+            const week = addWeeks(firstWeek, i * interval);
+            for (const weekday of weekdays) {
+                const date = withTimeOf(addDays(week, weekday), rule.startsAt);
+                if (date.getTime() < rule.startsAt.getTime()) continue;
+                if (isDone(date)) return;
+                emitted += 1;
+                yield date;
+            }
+        }
+        return;
+    }
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const date = rule.frequency === RecurrenceFrequency.Daily
+            ? addDays(rule.startsAt, i * interval)
+            : addMonths(rule.startsAt, i * interval);
+        // addMonths clamps to the month end; RRULE skips those months instead
+        if (rule.frequency === RecurrenceFrequency.Monthly && date.getDate() !== rule.startsAt.getDate()) continue;
+        if (isDone(date)) return;
+        emitted += 1;
+        yield date;
+    }
+}
+
+// Occurrence starts within [from, to), excluding the series exceptions
+export function expandOccurrences(rule: RecurrenceRule, range: { from: Date; to: Date }): Date[] {
+    const exceptions = new Set(rule.exceptions ?? []);
+    const result: Date[] = [];
+    for (const date of iterateOccurrences(rule)) {
+        if (date.getTime() >= range.to.getTime()) break;
+        if (date.getTime() < range.from.getTime()) continue;
+        if (exceptions.has(occurrenceKey(date))) continue;
+        result.push(date);
+    }
+    return result;
+}
+
+// RFC 5545 RRULE representation, e.g. "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE"
+export function toRRule(rule: RecurrenceRule) {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+    if (rule.frequency === RecurrenceFrequency.Weekly && rule.byWeekday && rule.byWeekday.length > 0) {
+        parts.push(`BYDAY=${rule.byWeekday.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+    }
+    if (rule.until) {
+        parts.push(`UNTIL=${format(rule.until, "yyyyMMdd'T'HHmmss")}`);
+    } else if (rule.occurrenceCount != null) {
+        parts.push(`COUNT=${rule.occurrenceCount}`);
+    }
+    return parts.join(";");
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Monday, Wednesday"
+export function describeRecurrence(rule: RecurrenceRule) {
+    const interval = Math.max(1, rule.interval);
+    const unit = rule.frequency === RecurrenceFrequency.Daily
+        ? "day"
+        : rule.frequency === RecurrenceFrequency.Weekly ? "week" : "month";
+    let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+    if (rule.frequency === RecurrenceFrequency.Weekly && rule.byWeekday && rule.byWeekday.length > 0) {
+        text += ` on ${[...rule.byWeekday].sort((a, b) => a - b).map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+    }
+    if (rule.frequency === RecurrenceFrequency.Monthly) {
+        text += ` on day ${rule.startsAt.getDate()}`;
+    }
+    text += ` at ${format(rule.startsAt, "p")}`;
+
+    if (rule.until) {
+        text += `, until ${format(rule.until, "PPP")}`;
+    } else if (rule.occurrenceCount != null) {
+        text += `, ${rule.occurrenceCount} times`;
+    }
+    return text;
+}
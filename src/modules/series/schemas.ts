@@ -0,0 +1,21 @@
+import z from "zod";
+import { RecurrenceFrequency } from "./types";
+
+
+export const seriesInsertSchema = z.object({
+    name:z.string().min(1,{message:"Name is required"}),
+    agentId: z.string().min(1,{message:"Agent are required"}),
+    frequency: z.nativeEnum(RecurrenceFrequency),
+    interval: z.number().int().min(1,{message:"Interval must be at least 1"}).max(12),
+    byWeekday: z.array(z.number().int().min(0).max(6)).nullish(),
+    startsAt: z.coerce.date({ required_error: "Start time is required" }),
+    durationMinutes: z
+        .number()
+        .int()
+        .min(5,{message:"Duration must be at least 5 minutes"})
+        .max(480,{message:"Duration must be at most 8 hours"}),
+    until: z.coerce.date().nullish(),
+}).refine(
+    (values) => !values.until || values.until.getTime() > values.startsAt.getTime(),
+    { message: "End date must be after the first occurrence", path: ["until"] },
+);
@@ -0,0 +1,155 @@
+import { createTRPCRouter, protectedProcedure } from "@/trpc/init";
+import { db } from "@/db";
+import { agents, meetings, meetingSeries, meetingSummaries, tasks } from "@/db/schema";
+import { TRPCError } from "@trpc/server";
+import z from "zod";
+import { and, asc, eq, getTableColumns, isNull, sql } from "drizzle-orm";
+import { seriesInsertSchema } from "../schemas";
+import { MeetingStatus } from "@/modules/meetings/types";
+import { describeRecurrence, toRRule } from "../recurrence";
+import { addSeriesException, cancelFutureOccurrences, spawnSeriesOccurrences } from "./spawner";
+
+export const seriesRouter = createTRPCRouter({
+    create: protectedProcedure.input(seriesInsertSchema).mutation(async ({ input, ctx }) => {
+        const [existingAgent] = await db
+            .select()
+            .from(agents)
+            .where(and(eq(agents.id, input.agentId), eq(agents.userId, ctx.auth.user.id)));
+
+        if (!existingAgent) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Agent not found",
+            });
+        }
+
+        const [createdSeries] = await db
+            .insert(meetingSeries)
+            .values({
+                ...input,
+                byWeekday: input.byWeekday ?? null,
+                userId: ctx.auth.user.id,
+            })
+            .returning();
+
+        await spawnSeriesOccurrences(createdSeries);
+
+        return createdSeries;
+    }),
+    getOne: protectedProcedure.input(z.object({ id: z.string() })).query(async ({ input, ctx }) => {
+        const [existingSeries] = await db
+            .select({
+                ...getTableColumns(meetingSeries),
+                agent: agents,
+            })
+            .from(meetingSeries)
+            .innerJoin(agents, eq(meetingSeries.agentId, agents.id))
+            .where(
+                and(
+                    eq(meetingSeries.id, input.id),
+                    eq(meetingSeries.userId, ctx.auth.user.id),
+                ),
+            );
+
+        if (!existingSeries) {
+            throw new TRPCError({
+                code: "NOT_FOUND",
+                message: "Series not found",
+            });
+        }
+
+        const occurrences = await db
+            .select({
+                id: meetings.id,
+                name: meetings.name,
+                status: meetings.status,
+                scheduledAt: meetings.scheduledAt,
+                startedAt: meetings.startedAt,
+                endedAt: meetings.endedAt,
+                summaryText: meetingSummaries.summaryText,
+                duration: sql<number>`EXTRACT(EPOCH FROM (ended_at - started_at))`.as("duration"),
+                taskCount: sql<number>`(SELECT COUNT(*) FROM ${tasks} WHERE ${tasks.meetingId} = ${meetings.id})`.mapWith(Number),
+                openTaskCount: sql<number>`(SELECT COUNT(*) FROM ${tasks} WHERE ${tasks.meetingId} = ${meetings.id} AND ${tasks.status} <> 'done')`.mapWith(Number),
+            })
+            .from(meetings)
+            .leftJoin(meetingSummaries, eq(meetingSummaries.meetingId, meetings.id))
+            .where(eq(meetings.seriesId, existingSeries.id))
+            .orderBy(asc(meetings.scheduledAt));
+
+        return {
+            ...existingSeries,
+            rrule: toRRule(existingSeries),
+            description: describeRecurrence(existingSeries),
+            occurrences,
+        };
+    }),
+    // Skip a single occurrence: record it as an exception and cancel the spawned meeting
+    skipOccurrence: protectedProcedure
+        .input(z.object({ seriesId: z.string(), meetingId: z.string() }))
+        .mutation(async ({ input, ctx }) => {
+            const [occurrence] = await db
+                .select({ meeting: meetings, series: meetingSeries })
+                .from(meetings)
+                .innerJoin(meetingSeries, eq(meetings.seriesId, meetingSeries.id))
+                .where(
+                    and(
+                        eq(meetings.id, input.meetingId),
+                        eq(meetingSeries.id, input.seriesId),
+                        eq(meetingSeries.userId, ctx.auth.user.id),
+                    ),
+                );
+
+            if (!occurrence || !occurrence.meeting.scheduledAt) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Occurrence not found",
+                });
+            }
+
+            await addSeriesException(input.seriesId, occurrence.meeting.scheduledAt);
+
+            const [cancelledMeeting] = await db
+                .update(meetings)
+                .set({ status: MeetingStatus.Cancelled, sequence: sql`${meetings.sequence} + 1`, updatedAt: new Date() })
+                .where(
+                    and(
+                        eq(meetings.id, input.meetingId),
+                        eq(meetings.status, MeetingStatus.Upcoming),
+                        isNull(meetings.startedAt),
+                    ),
+                )
+                .returning();
+
+            return cancelledMeeting ?? occurrence.meeting;
+        }),
+    remove: protectedProcedure
+        .input(z.object({ id: z.string() }))
+        .mutation(async ({ input, ctx }) => {
+            const [existingSeries] = await db
+                .select()
+                .from(meetingSeries)
+                .where(
+                    and(
+                        eq(meetingSeries.id, input.id),
+                        eq(meetingSeries.userId, ctx.auth.user.id),
+                    ),
+                );
+
+            if (!existingSeries) {
+                throw new TRPCError({
+                    code: "NOT_FOUND",
+                    message: "Series not found",
+                });
+            }
+
+            // Past occurrences keep their history; future ones are called off
+            await cancelFutureOccurrences(existingSeries.id);
+
+            const [removedSeries] = await db
+                .delete(meetingSeries)
+                .where(eq(meetingSeries.id, existingSeries.id))
+                .returning();
+
+            return removedSeries;
+        }),
+});
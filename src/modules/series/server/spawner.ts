@@ -0,0 +1,98 @@
+import { db } from "@/db";
+import { agents, meetings, meetingSeries } from "@/db/schema";
+import { and, eq, gte, isNull, or, sql } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { createMeetingCall, upsertAgentStreamUser } from "@/modules/meetings/server/stream-call";
+import { MeetingStatus } from "@/modules/meetings/types";
+import { expandOccurrences, occurrenceKey } from "../recurrence";
+
+// Occurrences are materialized as meetings this far ahead of time
+export const SERIES_HORIZON_DAYS = 14;
+
+type Series = typeof meetingSeries.$inferSelect;
+
+/**
+ * Creates `meetings` rows (and their Stream calls) for every occurrence of the
+ * series inside the spawn horizon. Existing occurrences are left untouched.
+ */
+export async function spawnSeriesOccurrences(series: Series, now: Date = new Date()) {
+    const dates = expandOccurrences(series, {
+        from: now,
+        to: addDays(now, SERIES_HORIZON_DAYS),
+    });
+    if (dates.length === 0) return [];
+
+    const spawned = await db
+        .insert(meetings)
+        .values(dates.map((scheduledAt) => ({
+            name: series.name,
+            userId: series.userId,
+            agentId: series.agentId,
+            seriesId: series.id,
+            status: MeetingStatus.Upcoming,
+            scheduledAt,
+            durationMinutes: series.durationMinutes,
+        })))
+        .onConflictDoNothing({ target: [meetings.seriesId, meetings.scheduledAt] })
+        .returning();
+
+    for (const meeting of spawned) {
+        await createMeetingCall(meeting, series.userId);
+    }
+
+    if (spawned.length > 0) {
+        const [agent] = await db
+            .select()
+            .from(agents)
+            .where(eq(agents.id, series.agentId));
+        if (agent) await upsertAgentStreamUser(agent);
+        console.log(`[Series] Spawned ${spawned.length} occurrence(s) for series ${series.id}`);
+    }
+
+    return spawned;
+}
+
+// Spawns occurrences for every series that has not ended yet
+export async function spawnAllSeriesOccurrences(now: Date = new Date()) {
+    const activeSeries = await db
+        .select()
+        .from(meetingSeries)
+        .where(or(isNull(meetingSeries.until), gte(meetingSeries.until, now)));
+
+    const spawned: string[] = [];
+    for (const series of activeSeries) {
+        try {
+            const created = await spawnSeriesOccurrences(series, now);
+            spawned.push(...created.map((m) => m.id));
+        } catch (error) {
+            console.error(`[Series] Failed to spawn occurrences for series ${series.id}:`, error);
+        }
+    }
+    return spawned;
+}
+
+// Cancels the not-yet-started occurrences of a series from `now` onwards
+export async function cancelFutureOccurrences(seriesId: string, now: Date = new Date()) {
+    return db
+        .update(meetings)
+        .set({ status: MeetingStatus.Cancelled, sequence: sql`${meetings.sequence} + 1`, updatedAt: now })
+        .where(
+            and(
+                eq(meetings.seriesId, seriesId),
+                eq(meetings.status, MeetingStatus.Upcoming),
+                gte(meetings.scheduledAt, now),
+            ),
+        )
+        .returning({ id: meetings.id });
+}
+
+// Keeps the spawner from recreating an occurrence that was skipped, deleted or moved away from its slot
+export async function addSeriesException(seriesId: string, scheduledAt: Date) {
+    await db
+        .update(meetingSeries)
+        .set({
+            exceptions: sql`array_append(${meetingSeries.exceptions}, ${occurrenceKey(scheduledAt)})`,
+            updatedAt: new Date(),
+        })
+        .where(eq(meetingSeries.id, seriesId));
+}
@@ -0,0 +1,12 @@
+import { inferRouterOutputs} from "@trpc/server";
+
+import type {AppRouter} from "@/trpc/routers/_app";
+
+export type SeriesGetOne = inferRouterOutputs<AppRouter>["series"]["getOne"];
+export type SeriesOccurrence = SeriesGetOne["occurrences"][number];
+
+export enum RecurrenceFrequency {
+    Daily = "daily",
+    Weekly = "weekly",
+    Monthly = "monthly",
+}
@@ -0,0 +1,33 @@
+'use client';
+import { ResponsiveDialog } from "@/components/responsive-dialog";
+import { SeriesForm } from "./series-form";
+import { useRouter } from "next/navigation";
+
+
+interface NewSeriesDialogProps {
+    open:boolean;
+    onOpenChange: (open:boolean) => void;
+};
+
+export const NewSeriesDialog=({
+    open,
+    onOpenChange,
+}:NewSeriesDialogProps) => {
+    const router = useRouter();
+   return (
+    <ResponsiveDialog
+     title="New Recurring Meeting"
+      description="Create a meeting series that repeats on a schedule"
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+        <SeriesForm
+            onSuccess={(id)=>{
+                onOpenChange(false);
+                router.push(`/series/${id}`);
+            }}
+            onCancel= {()=> onOpenChange(false)}
+        />
+    </ResponsiveDialog> 
+   )
+}
@@ -0,0 +1,260 @@
+'use client';
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import z from "zod";
+import { seriesInsertSchema } from "../../schemas";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { GeneratedAvatar } from "@/components/generated-avatar";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "sonner";
+import { useState } from "react";
+import { CommandSelect } from "@/components/command-select";
+import { DateTimePicker } from "@/components/date-time-picker";
+import { RecurrenceFrequency } from "../../types";
+
+interface SeriesFormProps {
+    onSuccess?:(id?:string)=>void;
+    onCancel?:()=> void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const SeriesForm = ({
+    onSuccess,
+    onCancel,
+} : SeriesFormProps) => {
+
+    const trpc = useTRPC();
+    const queryClient= useQueryClient();
+    const [agentSearch, setAgentSearch] = useState("");
+    const agents=useQuery(
+        trpc.agents.getMany.queryOptions({
+            pageSize:100,
+            search: agentSearch,
+        })
+    );
+    const createSeries = useMutation(
+        trpc.series.create.mutationOptions({
+            onSuccess:async (data)=>{
+                await queryClient.invalidateQueries(
+                    trpc.meetings.getMany.queryOptions({}),
+                );
+                onSuccess?.(data.id);
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+    const form = useForm<z.infer<typeof seriesInsertSchema>>({
+        resolver: zodResolver(seriesInsertSchema),
+        defaultValues: {
+            name: "",
+            agentId: "",
+            frequency: RecurrenceFrequency.Weekly,
+            interval: 1,
+            byWeekday: [],
+            durationMinutes: 30,
+            until: null,
+        },
+    });
+
+    const frequency = form.watch("frequency");
+    const isPending = createSeries.isPending;
+
+    const onSubmit = (values: z.infer<typeof seriesInsertSchema>) => {
+        createSeries.mutate({
+            ...values,
+            byWeekday: values.frequency === RecurrenceFrequency.Weekly ? values.byWeekday : null,
+        });
+    };
+
+    return (
+        <Form {...form}>
+            <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+                <FormField
+                  name="name"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                         <Input {...field} placeholder="e.g. Daily Standup"/>
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="agentId"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Agent</FormLabel>
+                      <FormControl>
+                         <CommandSelect
+                             options={(agents.data?.items ?? []).map((agent) => ({
+                                id: agent.id,
+                                value: agent.id,
+                                children: (
+                                    <div className="flex items-center gap-x-2">
+                                        <GeneratedAvatar
+                                            seed={agent.name}
+                                            variant="botttsNeutral"
+                                            className="border size-6"
+                                        />
+                                        <span>{agent.name}</span>
+                                    </div>
+                                )
+                             }))}
+                                onSelect={field.onChange}
+                                onSearch={setAgentSearch}
+                                value={field.value}
+                                placeholder="Select an agent"
+                             />
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="startsAt"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>First occurrence</FormLabel>
+                      <FormControl>
+                         <DateTimePicker value={field.value} onChange={field.onChange}/>
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-x-2">
+                    <FormField
+                      name="frequency"
+                      control={form.control}
+                      render={({field}) => (
+                        <FormItem>
+                          <FormLabel>Repeats</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger className="w-full">
+                                <SelectValue/>
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={RecurrenceFrequency.Daily}>Daily</SelectItem>
+                              <SelectItem value={RecurrenceFrequency.Weekly}>Weekly</SelectItem>
+                              <SelectItem value={RecurrenceFrequency.Monthly}>Monthly</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        <FormMessage/>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      name="interval"
+                      control={form.control}
+                      render={({field}) => (
+                        <FormItem>
+                          <FormLabel>Every</FormLabel>
+                          <FormControl>
+                             <Input
+                                 type="number"
+                                 min={1}
+                                 max={12}
+                                 {...field}
+                                 onChange={(e)=>field.onChange(e.target.valueAsNumber)}
+                             />
+                          </FormControl>
+                        <FormMessage/>
+                        </FormItem>
+                      )}
+                    />
+                </div>
+                {frequency === RecurrenceFrequency.Weekly && (
+                    <FormField
+                      name="byWeekday"
+                      control={form.control}
+                      render={({field}) => (
+                        <FormItem>
+                          <FormLabel>On</FormLabel>
+                          <FormControl>
+                             <ToggleGroup
+                                 type="multiple"
+                                 variant="outline"
+                                 value={(field.value ?? []).map(String)}
+                                 onValueChange={(values)=>field.onChange(values.map(Number))}
+                             >
+                                {WEEKDAYS.map((day, index) => (
+                                    <ToggleGroupItem key={day} value={String(index)}>
+                                        {day}
+                                    </ToggleGroupItem>
+                                ))}
+                             </ToggleGroup>
+                          </FormControl>
+                          <FormDescription>
+                            Defaults to the weekday of the first occurrence.
+                          </FormDescription>
+                        <FormMessage/>
+                        </FormItem>
+                      )}
+                    />
+                )}
+                <FormField
+                  name="durationMinutes"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                         <Input
+                             type="number"
+                             min={5}
+                             max={480}
+                             step={5}
+                             {...field}
+                             onChange={(e)=>field.onChange(e.target.valueAsNumber)}
+                         />
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  name="until"
+                  control={form.control}
+                  render={({field}) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                         <DateTimePicker
+                             value={field.value}
+                             onChange={field.onChange}
+                             placeholder="Never"
+                         />
+                      </FormControl>
+                    <FormMessage/>
+                    </FormItem>
+                  )}
+                />
+                 <div className="flex justify-between gap-x-2">
+                    {onCancel && (
+                        <Button variant="ghost" disabled={isPending} type="button" onClick={()=>onCancel()}>
+                            Cancel
+                        </Button>
+                    )}
+                    <Button disabled={isPending} type="submit" >
+                          Create
+                        </Button>
+                  </div>
+            </form>
+        </Form>
+    )
+}
@@ -0,0 +1,53 @@
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu";
+import { DropdownMenuTrigger } from "@radix-ui/react-dropdown-menu";
+import { ChevronRightIcon, MoreVerticalIcon, TrashIcon } from "lucide-react";
+import Link from "next/link";
+
+interface Props {
+    seriesId: string;
+    seriesName: string;
+    onRemove: () => void;
+}
+
+export const SeriesIdViewHeader = ({ seriesId, seriesName, onRemove }: Props) => {
+    return (
+        <div className="flex items-center justify-between">
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild className="font-medium text-xl">
+                    <Link href="/meetings">
+                        My Meetings
+                    </Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className='text-foreground text-xl font-medium [&>svg]:size-4'>
+                   <ChevronRightIcon />
+                </BreadcrumbSeparator>
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild className="font-medium text-xl text-foreground">
+                    <Link href={`/series/${seriesId}`}>
+                        {seriesName}
+                    </Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+            <DropdownMenu modal={false}>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost">
+                        <MoreVerticalIcon/>
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={onRemove}>
+                        <TrashIcon className="mr-2 size-4" />
+                        Delete series
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+        </div>
+    )
+}
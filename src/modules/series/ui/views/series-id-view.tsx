@@ -0,0 +1,206 @@
+"use client";
+
+import { ErrorState } from "@/components/error-state";
+import { LoadingState } from "@/components/loading-state";
+import { EmptyState } from "@/components/empty-state";
+import { GeneratedAvatar } from "@/components/generated-avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useTRPC } from "@/trpc/client";
+import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useConfirm } from "@/hooks/use-confirm";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { CalendarClockIcon, ListTodoIcon, RepeatIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SeriesIdViewHeader } from "../components/series-id-view-header";
+import { SeriesOccurrence } from "../../types";
+
+interface Props {
+    seriesId: string;
+};
+
+const statusColorMap = {
+  upcoming: "bg-yellow-500 text-yellow-800 border-yellow-800/5",
+  active: "bg-blue-500/20 text-blue-800 border-blue-800/5",
+  completed: "bg-emerald-500/20 text-emerald-800 border-emerald-800/5 ",
+  processing: "bg-gray-300/20 text-gray-800 border-gray-800/5",
+  cancelled: "bg-rose-300/20 text-rose-800 border-rose-800/5",
+}
+
+export const SeriesIdView = ({ seriesId }: Props) => {
+    const trpc = useTRPC();
+    const router = useRouter();
+    const queryClient = useQueryClient();
+    const { data } = useSuspenseQuery(trpc.series.getOne.queryOptions({ id: seriesId }));
+
+    const [RemoveConfirmation, confirmRemove] = useConfirm(
+        "Are you sure?",
+        "The following action will remove this series and cancel its upcoming meetings",
+    );
+    const [SkipConfirmation, confirmSkip] = useConfirm(
+        "Skip this occurrence?",
+        "The meeting will be cancelled and will not be scheduled again",
+    );
+
+    const removeSeries = useMutation(
+        trpc.series.remove.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.meetings.getMany.queryOptions({}));
+                router.push("/meetings");
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+    const skipOccurrence = useMutation(
+        trpc.series.skipOccurrence.mutationOptions({
+            onSuccess: async () => {
+                await queryClient.invalidateQueries(trpc.series.getOne.queryOptions({ id: seriesId }));
+                await queryClient.invalidateQueries(trpc.meetings.getMany.queryOptions({}));
+            },
+            onError: (error) => {
+                toast.error(error.message);
+            },
+        }),
+    );
+
+    const handleRemoveSeries = async () => {
+        const ok = await confirmRemove();
+        if (!ok) return;
+        await removeSeries.mutateAsync({ id: seriesId });
+    };
+
+    const handleSkipOccurrence = async (occurrence: SeriesOccurrence) => {
+        const ok = await confirmSkip();
+        if (!ok) return;
+        await skipOccurrence.mutateAsync({ seriesId, meetingId: occurrence.id });
+    };
+
+    return (
+        <>
+        <RemoveConfirmation/>
+        <SkipConfirmation/>
+        <div className="flex-1 py-4 px-4 md:px-8 flex flex-col gap-y-4">
+            <SeriesIdViewHeader
+                seriesId={seriesId}
+                seriesName={data.name}
+                onRemove={handleRemoveSeries}
+            />
+            <div className="bg-white rounded-lg border px-4 py-5 flex flex-col gap-y-4">
+                <div className="flex items-center gap-x-3">
+                    <GeneratedAvatar
+                        variant="botttsNeutral"
+                        seed={data.agent.name}
+                        className="size-10"
+                    />
+                    <div className="flex flex-col">
+                        <h2 className="text-2xl font-medium">{data.name}</h2>
+                        <span className="text-sm text-muted-foreground">with {data.agent.name}</span>
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="flex items-center gap-x-2 [&>svg]:size-4">
+                        <RepeatIcon/>
+                        {data.description}
+                    </Badge>
+                    <Badge variant="outline" className="flex items-center gap-x-2 [&>svg]:size-4">
+                        <CalendarClockIcon/>
+                        {data.durationMinutes} min
+                    </Badge>
+                    <code className="text-xs text-muted-foreground">{data.rrule}</code>
+                </div>
+            </div>
+
+            {data.occurrences.length === 0 ? (
+                <EmptyState
+                    title="No occurrences yet"
+                    description="Meetings for this series are created automatically ahead of each occurrence"
+                />
+            ) : (
+                <div className="bg-white rounded-lg border overflow-hidden">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Date</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Summary</TableHead>
+                                <TableHead>Tasks</TableHead>
+                                <TableHead/>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {data.occurrences.map((occurrence) => (
+                                <TableRow
+                                    key={occurrence.id}
+                                    className="cursor-pointer align-top"
+                                    onClick={() => router.push(`/meetings/${occurrence.id}`)}
+                                >
+                                    <TableCell className="whitespace-nowrap">
+                                        {occurrence.scheduledAt ? format(new Date(occurrence.scheduledAt), "PPP p") : "—"}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge
+                                            variant="outline"
+                                            className={cn(
+                                                "capitalize text-muted-foreground",
+                                                statusColorMap[occurrence.status],
+                                            )}
+                                        >
+                                            {occurrence.status}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell className="max-w-[420px] whitespace-normal text-sm text-muted-foreground">
+                                        <p className="line-clamp-3">{occurrence.summaryText ?? "—"}</p>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Badge variant="outline" className="flex items-center gap-x-2 w-fit [&>svg]:size-4">
+                                            <ListTodoIcon/>
+                                            {occurrence.taskCount - occurrence.openTaskCount}/{occurrence.taskCount}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        {occurrence.status === "upcoming" && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={skipOccurrence.isPending}
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleSkipOccurrence(occurrence);
+                                                }}
+                                            >
+                                                Skip
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            )}
+        </div>
+        </>
+    );
+};
+
+export const SeriesIdViewLoading = () => {
+        return (
+            <LoadingState
+            title="Loading Series"
+            description="This may take a few seconds ..."/>
+        )
+}
+
+export const SeriesIdViewError=()=>{
+    return (
+        <ErrorState
+            title="Error Loading Series"
+            description="Something went wrong"
+        />
+    );
+}
@@ -0,0 +1,134 @@
+import { db } from "@/db";
+import { projectPhases, subtasks, tasks, user } from "@/db/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { publishMeetingEvent } from "@/modules/meetings/server/events";
+
+export type CreateTaskInput = {
+    title: string;
+    description?: string | null;
+    phase?: string | null;
+    assignee?: string | null; // free-text name when there is no matching user
+    assigneeId?: string | null;
+    priority?: string | null;
+    estimatedHours?: number | null;
+    dueDate?: string | number | Date | null;
+    meetingId: string;
+    tags?: string[] | null;
+    aiGenerated?: boolean;
+};
+
+// Tasks of a meeting with their phase, assignee name and subtasks, newest first
+export async function getMeetingTasks(meetingId: string) {
+    const allTasks = await db
+        .select({
+            id: tasks.id,
+            title: tasks.title,
+            description: tasks.description,
+            phase: tasks.phase,
+            status: tasks.status,
+            assignee: tasks.assignee,
+            assigneeId: tasks.assigneeId,
+            priority: tasks.priority,
+            estimatedHours: tasks.estimatedHours,
+            dueDate: tasks.dueDate,
+            aiGenerated: tasks.aiGenerated,
+            meetingId: tasks.meetingId,
+            tags: tasks.tags,
+            createdAt: tasks.createdAt,
+            updatedAt: tasks.updatedAt,
+            phaseName: projectPhases.name,
+            phaseColor: projectPhases.color,
+            assigneeName: user.name,
+        })
+        .from(tasks)
+        .leftJoin(projectPhases, eq(tasks.phase, projectPhases.id))
+        .leftJoin(user, eq(tasks.assigneeId, user.id))
+        .where(eq(tasks.meetingId, meetingId))
+        .orderBy(desc(tasks.createdAt));
+
+    const taskSubtasks = allTasks.length > 0
+        ? await db.select().from(subtasks).where(inArray(subtasks.taskId, allTasks.map((task) => task.id)))
+        : [];
+
+    return allTasks.map((task) => ({
+        ...task,
+        subtasks: taskSubtasks.filter((subtask) => subtask.taskId === task.id),
+    }));
+}
+
+export async function getOrCreateDefaultPhase(meetingId: string) {
+    const existing = await db
+        .select()
+        .from(projectPhases)
+        .where(eq(projectPhases.meetingId, meetingId))
+        .orderBy(projectPhases.order)
+        .limit(1);
+    if (existing.length > 0) return existing[0];
+    // Create a default phase if none exist
+    const [created] = await db.insert(projectPhases).values({
+        name: "Project Planning & Setup",
+        order: 1,
+        color: "#8B5CF6",
+        meetingId,
+    }).returning();
+    return created;
+}
+
+// The requested phase if it belongs to the meeting, otherwise the meeting's first (or a new default) phase
+export async function resolvePhaseId(meetingId: string, requestedPhaseId?: string | null) {
+    if (requestedPhaseId) {
+        const found = await db
+            .select({ id: projectPhases.id })
+            .from(projectPhases)
+            .where(and(eq(projectPhases.meetingId, meetingId), eq(projectPhases.id, requestedPhaseId)))
+            .limit(1);
+        if (found.length > 0) return requestedPhaseId;
+    }
+    const defaultPhase = await getOrCreateDefaultPhase(meetingId);
+    return defaultPhase.id;
+}
+
+// Tells the meeting's clients to reload tasks after a change that only knows the task
+export async function publishTaskChange(taskId: string) {
+    const [task] = await db
+        .select({ meetingId: tasks.meetingId })
+        .from(tasks)
+        .where(eq(tasks.id, taskId));
+    if (task) await publishMeetingEvent(task.meetingId, { type: "tasks" });
+}
+
+export async function createTask(input: CreateTaskInput) {
+    // Get assignee name if assigneeId is provided
+    let assignee = input.assignee ?? null;
+    if (input.assigneeId) {
+        const [userData] = await db
+            .select({ name: user.name })
+            .from(user)
+            .where(eq(user.id, input.assigneeId));
+        assignee = userData?.name ?? assignee;
+    }
+
+    const phaseId = await resolvePhaseId(input.meetingId, input.phase);
+
+    const [newTask] = await db
+        .insert(tasks)
+        .values({
+            id: nanoid(),
+            title: input.title,
+            description: input.description,
+            phase: phaseId,
+            assignee,
+            assigneeId: input.assigneeId,
+            priority: input.priority || "medium",
+            estimatedHours: input.estimatedHours,
+            dueDate: input.dueDate ? new Date(input.dueDate) : null,
+            aiGenerated: input.aiGenerated ?? false,
+            meetingId: input.meetingId,
+            tags: input.tags || [],
+        })
+        .returning();
+
+    await publishMeetingEvent(input.meetingId, { type: "tasks" });
+    return newTask;
+}
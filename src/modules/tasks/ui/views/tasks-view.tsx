@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Sparkles, BarChart3, Users, Calendar, Clock, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useMeetingEvents } from "@/modules/meetings/hooks/use-meeting-events";
 
 interface TasksViewProps {
   meetingId: string;
@@ -26,6 +27,11 @@ export const TasksView = ({ meetingId }: TasksViewProps) => {
   const [fallbackUsed, setFallbackUsed] = useState<boolean>(false);
   const { toast } = useToast();
 
+  // Tasks created or changed elsewhere (another participant, the agent, the plan job) show up live
+  useMeetingEvents(meetingId, (event) => {
+    if (event.type === "tasks") loadTasks();
+  });
+
   // Load existing AI project plan and tasks
   useEffect(() => {
     loadExistingPlan();
@@ -1,9 +1,11 @@
 import { agentsRouter } from '@/modules/agents/server/procedures';
 import { createTRPCRouter } from '../init';
 import { meetingsRouter } from '@/modules/meetings/server/procedures';
+import { seriesRouter } from '@/modules/series/server/procedures';
 export const appRouter = createTRPCRouter({
     agents:agentsRouter,
     meetings:meetingsRouter,
+    series:seriesRouter,
   
 });
 // export type definition of API